@@ -1,15 +1,22 @@
 import { Routes } from '@angular/router';
 import { HeroComponent } from './features/hero/hero.component';
-import { GenerateRecipeComponent } from './features/new-recipe/generate-recipe/generate-recipe.component';
-import { PreferencesComponent } from './features/new-recipe/preferences/preferences.component';
 import { GeneratingScreenComponent } from './features/new-recipe/generating-screen/generating-screen.component';
-import { RecipeResultsComponent } from './features/new-recipe/recipe-results/recipe-results.component';
-import { RecipeDetailComponent } from './features/recipe-detail/recipe-detail.component';
 import { CookbookComponent } from './features/cookbook/cookbook.component';
 import { RecipesListComponent } from './features/recipes-list/recipes-list.component';
+import { HistoryComponent } from './features/history/history.component';
 import { ImprintComponent } from './shared/imprint/imprint.component';
 import { PrivacyPolicyComponent } from './shared/privacy-policy/privacy-policy.component';
 
+/**
+ * Loads the recipe detail page, shared by generated and cookbook recipes.
+ */
+const loadRecipeDetail = () =>
+  import('./features/recipe-detail/recipe-detail.component').then((m) => m.RecipeDetailComponent);
+
+/**
+ * Pages working with the ingredient catalog, its aliases and prices are loaded on demand,
+ * which keeps that data out of the initial bundle.
+ */
 export const routes: Routes = [
   /**
    * Landing page (hero section).
@@ -19,12 +26,20 @@ export const routes: Routes = [
   /**
    * Step 1: Ingredient input for a new recipe.
    */
-  { path: 'generate-recipe', component: GenerateRecipeComponent },
+  {
+    path: 'generate-recipe',
+    loadComponent: () =>
+      import('./features/new-recipe/generate-recipe/generate-recipe.component').then((m) => m.GenerateRecipeComponent),
+  },
 
   /**
    * Step 2: Preference selection before generation.
    */
-  { path: 'preferences', component: PreferencesComponent },
+  {
+    path: 'preferences',
+    loadComponent: () =>
+      import('./features/new-recipe/preferences/preferences.component').then((m) => m.PreferencesComponent),
+  },
 
   /**
    * Intermediate loading screen shown while recipes are being generated.
@@ -34,14 +49,18 @@ export const routes: Routes = [
   /**
    * Displays the list of generated recipes for the current session.
    */
-  { path: 'recipe-results', component: RecipeResultsComponent },
+  {
+    path: 'recipe-results',
+    loadComponent: () =>
+      import('./features/new-recipe/recipe-results/recipe-results.component').then((m) => m.RecipeResultsComponent),
+  },
 
   /**
    * Displays the details of a generated recipe.
    *
    * @param id Firestore document id of the recipe.
    */
-  { path: 'recipe-results/:id', component: RecipeDetailComponent },
+  { path: 'recipe-results/:id', loadComponent: loadRecipeDetail },
 
   /**
    * Cookbook overview page.
@@ -60,7 +79,12 @@ export const routes: Routes = [
    *
    * @param id Firestore document id of the recipe.
    */
-  { path: 'cookbook/:id', component: RecipeDetailComponent },
+  { path: 'cookbook/:id', loadComponent: loadRecipeDetail },
+
+  /**
+   * Locally stored history of successful generation runs.
+   */
+  { path: 'history', component: HistoryComponent },
 
   { path: 'imprint', component: ImprintComponent },
   { path: 'privacy-policy', component: PrivacyPolicyComponent },
@@ -0,0 +1,402 @@
+import type { RecipeLanguage } from '../models/recipe.model';
+
+/**
+ * Localized names of catalog ingredients, keyed by language and catalog id.
+ *
+ * Aliases resolve to the canonical (English) catalog entry; only the canonical name is
+ * sent to the generator. An alias must not equal a catalog name or an alias of another
+ * entry. Plurals are only listed when they are not an extension of the singular
+ * ("Kartoffel" already matches "Kartoffeln" as prefix).
+ */
+export const LOCALIZED_INGREDIENT_ALIASES: Readonly<
+    Partial<Record<RecipeLanguage, Readonly<Record<string, readonly string[]>>>>
+> = {
+    de: {
+        // === Gemüse ===
+        'artichoke': ['Artischocke'],
+        'arugula': ['Rucola', 'Rauke'],
+        'asparagus': ['Spargel'],
+        'aubergine': ['Melanzani'],
+        'baby-spinach': ['Babyspinat', 'Blattspinat'],
+        'beetroot': ['Rote Bete', 'Rote Rübe'],
+        'bell-pepper': ['Paprikaschote', 'Gemüsepaprika'],
+        'broccoli': ['Brokkoli'],
+        'brussels-sprouts': ['Rosenkohl'],
+        'butternut-squash': ['Butternusskürbis'],
+        'cabbage': ['Weißkohl', 'Kohl', 'Weißkraut'],
+        'carrot': ['Karotte', 'Möhre', 'Mohrrübe'],
+        'cauliflower': ['Blumenkohl'],
+        'celery': ['Staudensellerie', 'Stangensellerie'],
+        'cherry-tomatoes': ['Kirschtomaten', 'Cocktailtomaten'],
+        'chili-pepper': ['Chilischote', 'Peperoni'],
+        'corn': ['Mais', 'Maiskolben'],
+        'cucumber': ['Gurke', 'Salatgurke'],
+        'fennel': ['Fenchel'],
+        'garlic': ['Knoblauch', 'Knoblauchzehe'],
+        'green-beans': ['Grüne Bohnen', 'Brechbohnen'],
+        'green-peas': ['Erbsen', 'Erbse'],
+        'kale': ['Grünkohl'],
+        'leek': ['Lauch', 'Porree'],
+        'lettuce': ['Kopfsalat', 'Blattsalat'],
+        'mushrooms': ['Pilze', 'Champignons'],
+        'onion': ['Zwiebel', 'Gemüsezwiebel'],
+        'parsnip': ['Pastinake'],
+        'potato': ['Kartoffel', 'Erdapfel'],
+        'pumpkin': ['Kürbis', 'Hokkaido'],
+        'radish': ['Radieschen', 'Rettich'],
+        'red-cabbage': ['Rotkohl', 'Blaukraut', 'Rotkraut'],
+        'red-onion': ['Rote Zwiebel'],
+        'shallot': ['Schalotte'],
+        'spinach': ['Spinat'],
+        'spring-onion': ['Frühlingszwiebel', 'Lauchzwiebel'],
+        'sweet-potato': ['Süßkartoffel'],
+        'tomato': ['Tomate'],
+        'turnip': ['Rübe', 'Speiserübe'],
+        'zucchini': ['Zucchino'],
+        'green-chili': ['Grüne Chili'],
+        'red-chili': ['Rote Chili'],
+        'yellow-bell-pepper': ['Gelbe Paprika'],
+        'green-bell-pepper': ['Grüne Paprika'],
+        'button-mushrooms': ['Champignon', 'Egerlinge'],
+        'oyster-mushrooms': ['Austernpilze', 'Austernseitlinge'],
+        'king-oyster-mushrooms': ['Kräuterseitlinge'],
+        'snow-peas': ['Zuckerschoten', 'Kaiserschoten'],
+        'jerusalem-artichoke': ['Topinambur'],
+        'chinese-cabbage': ['Chinakohl'],
+        'savoy-cabbage': ['Wirsing'],
+        'watercress': ['Brunnenkresse', 'Kresse'],
+        'belgian-endive': ['Chicorée'],
+        'rutabaga': ['Steckrübe'],
+        'celery-root': ['Knollensellerie', 'Sellerie'],
+        'bamboo-shoots': ['Bambussprossen'],
+
+        // === Obst ===
+        'apple': ['Apfel'],
+        'apricot': ['Aprikose', 'Marille'],
+        'banana': ['Banane'],
+        'blackberries': ['Brombeeren'],
+        'blueberries': ['Heidelbeeren', 'Blaubeeren'],
+        'cantaloupe': ['Zuckermelone', 'Melone'],
+        'cherries': ['Kirschen'],
+        'coconut': ['Kokosnuss'],
+        'cranberries': ['Cranberrys', 'Preiselbeeren'],
+        'dates': ['Datteln'],
+        'fig': ['Feige'],
+        'grapes': ['Weintrauben', 'Trauben'],
+        'lemon': ['Zitrone'],
+        'lime': ['Limette'],
+        'orange': ['Apfelsine'],
+        'peach': ['Pfirsich'],
+        'pear': ['Birne'],
+        'pineapple': ['Ananas'],
+        'plum': ['Pflaume', 'Zwetschge'],
+        'pomegranate': ['Granatapfel'],
+        'raspberries': ['Himbeeren'],
+        'strawberries': ['Erdbeeren'],
+        'watermelon': ['Wassermelone'],
+        'blackcurrants': ['Schwarze Johannisbeeren'],
+        'redcurrants': ['Johannisbeeren', 'Rote Johannisbeeren'],
+        'gooseberries': ['Stachelbeeren'],
+        'mandarin': ['Mandarine'],
+        'blood-orange': ['Blutorange'],
+        'rhubarb': ['Rhabarber'],
+
+        // === Salat ===
+        'iceberg-lettuce': ['Eisbergsalat'],
+        'romaine-lettuce': ['Römersalat'],
+        'mixed-salad-greens': ['Salatmischung', 'Pflücksalat'],
+        'swiss-chard': ['Mangold'],
+        'lambs-lettuce': ['Feldsalat'],
+
+        // === Kräuter ===
+        'basil': ['Basilikum'],
+        'bay-leaves': ['Lorbeerblätter', 'Lorbeer'],
+        'chives': ['Schnittlauch'],
+        'cilantro': ['Koriandergrün', 'Koriander'],
+        'italian-parsley': ['Glatte Petersilie'],
+        'mint': ['Minze', 'Pfefferminze'],
+        'parsley': ['Petersilie', 'Krause Petersilie'],
+        'rosemary': ['Rosmarin'],
+        'sage': ['Salbei'],
+        'tarragon': ['Estragon'],
+        'thyme': ['Thymian'],
+        'lemongrass': ['Zitronengras'],
+        'marjoram': ['Majoran'],
+        'lovage': ['Liebstöckel'],
+        'chervil': ['Kerbel'],
+
+        // === Fleisch & Geflügel ===
+        'bacon': ['Speck', 'Frühstücksspeck'],
+        'beef-brisket': ['Rinderbrust'],
+        'beef-steak': ['Rindersteak', 'Steak'],
+        'chicken-breast': ['Hähnchenbrust', 'Hühnerbrust', 'Hähnchenbrustfilet'],
+        'chicken-drumsticks': ['Hähnchenunterschenkel'],
+        'chicken-thighs': ['Hähnchenschenkel', 'Hähnchenkeulen'],
+        'chicken-wings': ['Hähnchenflügel'],
+        'duck-breast': ['Entenbrust'],
+        'ground-beef': ['Rinderhackfleisch', 'Rinderhack', 'Hackfleisch'],
+        'ground-chicken': ['Hähnchenhack'],
+        'ground-lamb': ['Lammhack'],
+        'ground-pork': ['Schweinehack', 'Schweinehackfleisch'],
+        'ham': ['Schinken', 'Kochschinken'],
+        'lamb-chops': ['Lammkoteletts'],
+        'lamb-shoulder': ['Lammschulter'],
+        'pork-belly': ['Schweinebauch'],
+        'pork-chops': ['Schweinekoteletts', 'Kotelett'],
+        'pork-loin': ['Schweinelende', 'Schweinerücken'],
+        'prosciutto': ['Parmaschinken', 'Rohschinken'],
+        'sausages': ['Würstchen', 'Bratwurst', 'Wurst'],
+        'turkey-breast': ['Putenbrust'],
+        'turkey-mince': ['Putenhack'],
+        'chicken-liver': ['Hühnerleber', 'Geflügelleber'],
+        'beef-liver': ['Rinderleber'],
+        'pork-ribs': ['Schweinerippchen', 'Spareribs'],
+        'veal-cutlet': ['Kalbsschnitzel', 'Schnitzel'],
+        'duck-legs': ['Entenkeulen'],
+        'turkey-legs': ['Putenkeulen'],
+        'beef-tenderloin': ['Rinderfilet'],
+        'pork-shoulder': ['Schweineschulter', 'Schweinenacken'],
+        'pork-tenderloin': ['Schweinefilet'],
+        'black-forest-ham': ['Schwarzwälder Schinken'],
+
+        // === Fisch & Meeresfrüchte ===
+        'anchovies': ['Sardellen'],
+        'cod-fillet': ['Kabeljaufilet', 'Kabeljau', 'Dorsch'],
+        'crab-meat': ['Krebsfleisch', 'Krabbenfleisch'],
+        'haddock': ['Schellfisch'],
+        'mussels': ['Miesmuscheln', 'Muscheln'],
+        'prawns': ['Garnelen', 'Riesengarnelen'],
+        'salmon-fillet': ['Lachsfilet', 'Lachs'],
+        'scallops': ['Jakobsmuscheln'],
+        'shrimp': ['Krabben', 'Shrimps'],
+        'squid': ['Tintenfisch'],
+        'tuna-steak': ['Thunfischsteak'],
+        'smoked-salmon': ['Räucherlachs'],
+        'canned-tuna': ['Thunfisch', 'Thunfisch aus der Dose'],
+        'clams': ['Venusmuscheln'],
+        'oysters': ['Austern'],
+        'lobster': ['Hummer'],
+        'crayfish': ['Flusskrebse'],
+        'herring': ['Hering', 'Matjes'],
+        'mackerel': ['Makrele'],
+        'sea-bass': ['Wolfsbarsch', 'Loup de mer'],
+        'sea-bream': ['Dorade', 'Goldbrasse'],
+        'trout': ['Forelle'],
+        'swordfish': ['Schwertfisch'],
+        'octopus': ['Oktopus', 'Krake'],
+
+        // === Milchprodukte & Eier ===
+        'butter': ['Süßrahmbutter'],
+        'unsalted-butter': ['Ungesalzene Butter'],
+        'salted-butter': ['Gesalzene Butter', 'Salzbutter'],
+        'buttermilk': ['Buttermilch'],
+        'cheddar-cheese': ['Cheddar'],
+        'cream-cheese': ['Frischkäse'],
+        'cottage-cheese': ['Hüttenkäse', 'Körniger Frischkäse'],
+        'feta-cheese': ['Feta', 'Schafskäse'],
+        'goat-cheese': ['Ziegenkäse'],
+        'grated-parmesan': ['Geriebener Parmesan', 'Parmesankäse'],
+        'greek-yogurt': ['Griechischer Joghurt'],
+        'heavy-cream': ['Sahne', 'Schlagobers'],
+        'milk': ['Milch', 'Vollmilch'],
+        'mozzarella-cheese': ['Mozzarella'],
+        'plain-yogurt': ['Naturjoghurt'],
+        'ricotta-cheese': ['Ricotta'],
+        'sour-cream': ['Saure Sahne', 'Schmand', 'Crème fraîche'],
+        'whipping-cream': ['Schlagsahne'],
+        'yogurt': ['Joghurt', 'Jogurt'],
+        'egg': ['Ei', 'Eier'],
+        'egg-whites': ['Eiweiß', 'Eiklar'],
+        'egg-yolks': ['Eigelb', 'Eidotter'],
+        'blue-cheese': ['Blauschimmelkäse', 'Gorgonzola'],
+        'gouda': ['Goudakäse'],
+        'gruyere': ['Greyerzer'],
+        'emmental': ['Emmentaler'],
+        'condensed-milk': ['Gezuckerte Kondensmilch', 'Milchmädchen'],
+        'evaporated-milk': ['Kondensmilch', 'Dosenmilch'],
+
+        // === Pflanzliche Alternativen ===
+        'almond-milk': ['Mandelmilch', 'Mandeldrink'],
+        'coconut-milk': ['Kokosmilch'],
+        'coconut-cream': ['Kokoscreme'],
+        'oat-milk': ['Hafermilch', 'Haferdrink'],
+        'rice-milk': ['Reismilch', 'Reisdrink'],
+        'soy-milk': ['Sojamilch', 'Sojadrink'],
+        'vegan-cheese': ['Veganer Käse'],
+        'silken-tofu': ['Seidentofu'],
+        'soy-yogurt': ['Sojajoghurt'],
+
+        // === Getreide, Nudeln & Reis ===
+        'couscous': ['Kuskus'],
+        'basmati-rice': ['Basmatireis'],
+        'brown-rice': ['Vollkornreis', 'Naturreis'],
+        'white-rice': ['Reis', 'Langkornreis'],
+        'wild-rice': ['Wildreis'],
+        'barley': ['Gerste', 'Graupen'],
+        'oats': ['Hafer'],
+        'rolled-oats': ['Haferflocken'],
+        'pasta': ['Nudeln', 'Teigwaren'],
+        'lasagna-sheets': ['Lasagneplatten'],
+        'rice-noodles': ['Reisnudeln'],
+        'egg-noodles': ['Eiernudeln', 'Mie-Nudeln'],
+        'millet': ['Hirse'],
+        'buckwheat': ['Buchweizen'],
+        'whole-wheat-pasta': ['Vollkornnudeln'],
+        'gluten-free-pasta': ['Glutenfreie Nudeln'],
+
+        // === Mehl & Backzutaten ===
+        'all-purpose-flour': ['Mehl', 'Weizenmehl'],
+        'whole-wheat-flour': ['Vollkornmehl'],
+        'almond-flour': ['Mandelmehl'],
+        'coconut-flour': ['Kokosmehl'],
+        'baking-powder': ['Backpulver'],
+        'baking-soda': ['Natron'],
+        'dry-yeast': ['Trockenhefe', 'Hefe'],
+        'cornstarch': ['Speisestärke', 'Maisstärke'],
+        'cornmeal': ['Maisgrieß', 'Maismehl'],
+        'cocoa-powder': ['Kakaopulver', 'Backkakao'],
+        'vanilla-extract': ['Vanilleextrakt'],
+        'vanilla-sugar': ['Vanillezucker'],
+        'chocolate-chips': ['Schokotropfen'],
+        'dark-chocolate': ['Zartbitterschokolade', 'Schokolade'],
+        'white-chocolate': ['Weiße Schokolade'],
+        'brown-sugar': ['Brauner Zucker', 'Rohrzucker'],
+        'granulated-sugar': ['Zucker', 'Kristallzucker'],
+        'icing-sugar': ['Puderzucker'],
+        'jam': ['Marmelade', 'Konfitüre'],
+        'hazelnut-spread': ['Nuss-Nougat-Creme'],
+        'gelatin-powder': ['Gelatine'],
+        'shortcrust-pastry-dough': ['Mürbeteig'],
+        'puff-pastry-dough': ['Blätterteig'],
+        'phyllo-dough': ['Filoteig', 'Yufkateig'],
+
+        // === Öle & Fette ===
+        'olive-oil': ['Olivenöl'],
+        'vegetable-oil': ['Pflanzenöl', 'Speiseöl'],
+        'sunflower-oil': ['Sonnenblumenöl'],
+        'canola-oil': ['Rapsöl'],
+        'coconut-oil': ['Kokosöl'],
+        'sesame-oil': ['Sesamöl'],
+        'ghee': ['Butterschmalz'],
+        'lard': ['Schmalz', 'Schweineschmalz'],
+        'peanut-oil': ['Erdnussöl'],
+
+        // === Nüsse & Samen ===
+        'almonds': ['Mandeln'],
+        'cashews': ['Cashewkerne'],
+        'hazelnuts': ['Haselnüsse'],
+        'peanuts': ['Erdnuss', 'Erdnüsse'],
+        'pine-nuts': ['Pinienkerne'],
+        'pistachios': ['Pistazien'],
+        'walnuts': ['Walnüsse'],
+        'flaxseeds': ['Leinsamen'],
+        'pumpkin-seeds': ['Kürbiskerne'],
+        'sesame-seeds': ['Sesam'],
+        'sunflower-seeds': ['Sonnenblumenkerne'],
+        'poppy-seeds': ['Mohn'],
+
+        // === Gewürze ===
+        'black-pepper': ['Pfeffer', 'Schwarzer Pfeffer'],
+        'chili-flakes': ['Chiliflocken'],
+        'chili-powder': ['Chilipulver'],
+        'cinnamon': ['Zimt'],
+        'cloves': ['Nelken', 'Gewürznelken'],
+        'cumin-seeds': ['Kreuzkümmelsamen'],
+        'ground-cumin': ['Kreuzkümmel', 'Kumin'],
+        'garlic-powder': ['Knoblauchpulver'],
+        'ginger-powder': ['Ingwerpulver', 'Gemahlener Ingwer'],
+        'nutmeg': ['Muskatnuss', 'Muskat'],
+        'onion-powder': ['Zwiebelpulver'],
+        'oregano-dried': ['Getrockneter Oregano'],
+        'paprika': ['Paprikapulver', 'Paprika edelsüß'],
+        'smoked-paprika': ['Geräuchertes Paprikapulver'],
+        'salt': ['Salz', 'Speisesalz'],
+        'sea-salt': ['Meersalz'],
+        'white-pepper': ['Weißer Pfeffer'],
+        'turmeric': ['Kurkuma'],
+        'cardamom': ['Kardamom'],
+        'coriander-seeds': ['Koriandersamen'],
+        'mustard-seeds': ['Senfsaat', 'Senfkörner'],
+        'saffron-threads': ['Safran'],
+        'star-anise': ['Sternanis'],
+
+        // === Saucen & Würzmittel ===
+        'soy-sauce': ['Sojasauce', 'Sojasoße'],
+        'fish-sauce': ['Fischsauce'],
+        'oyster-sauce': ['Austernsauce'],
+        'rice-vinegar': ['Reisessig'],
+        'sweet-chili-sauce': ['Süße Chilisauce'],
+        'apple-cider-vinegar': ['Apfelessig'],
+        'balsamic-vinegar': ['Balsamico', 'Balsamessig'],
+        'red-wine-vinegar': ['Rotweinessig'],
+        'white-wine-vinegar': ['Weißweinessig', 'Essig'],
+        'mayonnaise': ['Mayo'],
+        'mustard': ['Senf', 'Mittelscharfer Senf'],
+        'dijon-mustard': ['Dijonsenf'],
+        'wholegrain-mustard': ['Körniger Senf'],
+        'barbecue-sauce': ['Grillsauce'],
+        'hot-sauce': ['Scharfe Sauce'],
+        'honey': ['Honig'],
+        'maple-syrup': ['Ahornsirup'],
+        'molasses': ['Melasse', 'Zuckerrübensirup'],
+
+        // === Konserven ===
+        'canned-tomatoes': ['Dosentomaten', 'Gehackte Tomaten', 'Geschälte Tomaten'],
+        'tomato-paste': ['Tomatenmark'],
+        'tomato-sauce': ['Tomatensauce', 'Passata', 'Passierte Tomaten'],
+        'crushed-tomatoes': ['Stückige Tomaten'],
+        'canned-chickpeas': ['Kichererbsen aus der Dose'],
+        'canned-kidney-beans': ['Kidneybohnen'],
+        'canned-corn': ['Dosenmais'],
+        'pickles': ['Gewürzgurken', 'Essiggurken'],
+        'olives': ['Oliven'],
+        'capers': ['Kapern'],
+        'sun-dried-tomatoes': ['Getrocknete Tomaten'],
+        'jarred-pesto': ['Pesto'],
+        'peanut-butter': ['Erdnussbutter', 'Erdnussmus'],
+        'almond-butter': ['Mandelmus'],
+
+        // === Hülsenfrüchte ===
+        'red-lentils': ['Rote Linsen'],
+        'green-lentils': ['Grüne Linsen', 'Linsen'],
+        'brown-lentils': ['Braune Linsen', 'Tellerlinsen'],
+        'chickpeas': ['Kichererbsen'],
+        'black-beans': ['Schwarze Bohnen'],
+        'white-beans': ['Weiße Bohnen'],
+        'split-peas': ['Schälerbsen', 'Spalterbsen'],
+
+        // === Brot & Backwaren ===
+        'burger-bun': ['Burgerbrötchen'],
+        'flatbread': ['Fladenbrot'],
+        'sandwich-bread': ['Toastbrot', 'Toast'],
+        'sourdough-bread': ['Sauerteigbrot'],
+        'whole-grain-bread': ['Vollkornbrot'],
+        'rye-bread': ['Roggenbrot', 'Schwarzbrot'],
+
+        // === Frühstück & Süßes ===
+        'porridge-oats': ['Zarte Haferflocken'],
+        'candied-orange-peel': ['Orangeat'],
+        'candied-lemon-peel': ['Zitronat'],
+        'sprinkles': ['Streusel', 'Zuckerstreusel'],
+
+        // === Getränke & Sonstiges ===
+        'coffee': ['Kaffee'],
+        'black-tea': ['Schwarzer Tee'],
+        'green-tea': ['Grüner Tee'],
+        'herbal-tea': ['Kräutertee'],
+        'sparkling-water': ['Sprudelwasser', 'Mineralwasser'],
+        'lemon-juice': ['Zitronensaft'],
+        'lime-juice': ['Limettensaft'],
+        'orange-juice': ['Orangensaft'],
+        'apple-juice': ['Apfelsaft'],
+        'water': ['Wasser', 'Leitungswasser'],
+        'bread-crumbs': ['Semmelbrösel', 'Paniermehl'],
+        'stock-cube': ['Brühwürfel'],
+        'chicken-stock': ['Hühnerbrühe', 'Geflügelbrühe'],
+        'beef-stock': ['Rinderbrühe', 'Fleischbrühe'],
+        'vegetable-stock': ['Gemüsebrühe'],
+        'white-cooking-wine': ['Weißwein'],
+        'red-cooking-wine': ['Rotwein'],
+        'rice-paper-sheets': ['Reispapier'],
+    },
+};
@@ -0,0 +1,39 @@
+import type { IngredientGroup } from '../models/ingredient.model';
+
+/**
+ * Groups of catalog ingredients that users exclude as a whole (allergies, diets).
+ *
+ * Group names must not equal a catalog name or alias; the catalog entry would win.
+ */
+export const INGREDIENT_GROUPS: readonly IngredientGroup[] = [
+    {
+        id: 'seafood',
+        names: ['Seafood', 'Meeresfrüchte'],
+        category: 'fish',
+    },
+    {
+        id: 'fish',
+        names: ['Fish', 'Fisch'],
+        ids: [
+            'anchovies', 'cod-fillet', 'haddock', 'salmon-fillet', 'sardines', 'tilapia', 'tuna-steak', 'smoked-salmon',
+            'canned-tuna', 'herring', 'mackerel', 'sea-bass', 'sea-bream', 'trout', 'swordfish', 'fish-fillet-mix',
+        ],
+    },
+    {
+        id: 'shellfish',
+        names: ['Shellfish', 'Schalentiere'],
+        ids: ['crab-meat', 'prawns', 'shrimp', 'lobster', 'crayfish', 'mussels', 'scallops', 'clams', 'oysters'],
+    },
+    {
+        id: 'nuts',
+        names: ['Nuts', 'Nüsse'],
+        ids: [
+            'almonds', 'cashews', 'hazelnuts', 'macadamia-nuts', 'peanuts', 'pecans', 'pine-nuts', 'pistachios', 'walnuts',
+        ],
+    },
+    {
+        id: 'meat',
+        names: ['Meat', 'Fleisch'],
+        category: 'meat',
+    },
+];
@@ -0,0 +1,140 @@
+import type { IngredientPrice } from '../models/price.model';
+
+/**
+ * Typical German supermarket prices (EUR) for common `INGREDIENTS` entries.
+ *
+ * Keys use the exact catalog spelling. Prices are rough averages meant for cost estimates,
+ * not for shopping; ingredients missing here are reported as unpriced.
+ */
+export const INGREDIENT_PRICES: Readonly<Record<string, IngredientPrice>> = {
+    // === Vegetables ===
+    'Aubergine': { price: 3.5, per: 'kg', gramsPerPiece: 300 },
+    'Bell pepper': { price: 4, per: 'kg', gramsPerPiece: 160 },
+    'Broccoli': { price: 3, per: 'kg', gramsPerPiece: 500 },
+    'Cabbage': { price: 1.5, per: 'kg', gramsPerPiece: 1000 },
+    'Carrot': { price: 1.2, per: 'kg', gramsPerPiece: 80 },
+    'Cauliflower': { price: 3, per: 'kg', gramsPerPiece: 700 },
+    'Celery': { price: 3, per: 'kg', gramsPerPiece: 40 },
+    'Cherry tomatoes': { price: 6, per: 'kg', gramsPerPiece: 15 },
+    'Chili pepper': { price: 15, per: 'kg', gramsPerPiece: 10 },
+    'Corn': { price: 0.8, per: 'piece' },
+    'Cucumber': { price: 0.8, per: 'piece' },
+    'Garlic': { price: 6, per: 'kg', gramsPerPiece: 5 },
+    'Green beans': { price: 6, per: 'kg' },
+    'Kale': { price: 5, per: 'kg' },
+    'Leek': { price: 2.5, per: 'kg', gramsPerPiece: 250 },
+    'Mushrooms': { price: 6, per: 'kg', gramsPerPiece: 20 },
+    'Onion': { price: 1.5, per: 'kg', gramsPerPiece: 150 },
+    'Potato': { price: 1.3, per: 'kg', gramsPerPiece: 150 },
+    'Pumpkin': { price: 2, per: 'kg' },
+    'Red onion': { price: 2.5, per: 'kg', gramsPerPiece: 150 },
+    'Shallot': { price: 5, per: 'kg', gramsPerPiece: 30 },
+    'Spinach': { price: 8, per: 'kg' },
+    'Spring onion': { price: 0.8, per: 'piece' },
+    'Sweet potato': { price: 3, per: 'kg', gramsPerPiece: 300 },
+    'Tomato': { price: 3.5, per: 'kg', gramsPerPiece: 120 },
+    'Zucchini': { price: 2.5, per: 'kg', gramsPerPiece: 250 },
+
+    // === Fruits ===
+    'Apple': { price: 2.5, per: 'kg', gramsPerPiece: 180 },
+    'Avocado': { price: 1.2, per: 'piece' },
+    'Banana': { price: 1.5, per: 'kg', gramsPerPiece: 120 },
+    'Lemon': { price: 0.5, per: 'piece' },
+    'Lime': { price: 0.4, per: 'piece' },
+    'Orange': { price: 0.5, per: 'piece' },
+
+    // === Leafy greens & fresh herbs ===
+    'Arugula': { price: 15, per: 'kg' },
+    'Basil': { price: 1.5, per: 'piece' },
+    'Chives': { price: 1, per: 'piece' },
+    'Cilantro': { price: 1.2, per: 'piece' },
+    'Dill': { price: 1, per: 'piece' },
+    'Mint': { price: 1.5, per: 'piece' },
+    'Parsley': { price: 1, per: 'piece' },
+    'Rosemary': { price: 1.5, per: 'piece' },
+    'Thyme': { price: 1.5, per: 'piece' },
+
+    // === Meat & poultry ===
+    'Bacon': { price: 14, per: 'kg' },
+    'Beef mince': { price: 11, per: 'kg' },
+    'Beef steak': { price: 30, per: 'kg' },
+    'Chicken breast': { price: 12, per: 'kg', gramsPerPiece: 200 },
+    'Chicken thighs': { price: 8, per: 'kg', gramsPerPiece: 150 },
+    'Ground beef': { price: 11, per: 'kg' },
+    'Ground pork': { price: 8, per: 'kg' },
+    'Ham': { price: 15, per: 'kg' },
+    'Pork chops': { price: 10, per: 'kg', gramsPerPiece: 200 },
+    'Sausages': { price: 10, per: 'kg', gramsPerPiece: 100 },
+    'Turkey breast': { price: 14, per: 'kg' },
+
+    // === Fish & seafood ===
+    'Cod fillet': { price: 22, per: 'kg', gramsPerPiece: 150 },
+    'Prawns': { price: 25, per: 'kg' },
+    'Salmon fillet': { price: 28, per: 'kg', gramsPerPiece: 125 },
+    'Shrimp': { price: 25, per: 'kg' },
+    'Canned tuna': { price: 1.5, per: 'piece', gramsPerPiece: 150 },
+
+    // === Dairy & eggs ===
+    'Butter': { price: 9, per: 'kg' },
+    'Cheddar cheese': { price: 12, per: 'kg' },
+    'Cream cheese': { price: 7, per: 'kg' },
+    'Feta cheese': { price: 10, per: 'kg' },
+    'Grated Parmesan': { price: 20, per: 'kg' },
+    'Greek yogurt': { price: 4, per: 'kg' },
+    'Heavy cream': { price: 4, per: 'l' },
+    'Milk': { price: 1.1, per: 'l' },
+    'Mozzarella cheese': { price: 1, per: 'piece', gramsPerPiece: 125 },
+    'Plain yogurt': { price: 2, per: 'kg' },
+    'Sour cream': { price: 4, per: 'kg' },
+    'Egg': { price: 0.3, per: 'piece', gramsPerPiece: 55 },
+    'Coconut milk': { price: 4, per: 'l' },
+    'Tofu': { price: 8, per: 'kg' },
+
+    // === Grains, pasta & rice ===
+    'Basmati rice': { price: 3, per: 'kg' },
+    'Couscous': { price: 3, per: 'kg' },
+    'Jasmine rice': { price: 3, per: 'kg' },
+    'White rice': { price: 2, per: 'kg' },
+    'Quinoa': { price: 8, per: 'kg' },
+    'Rolled oats': { price: 1.5, per: 'kg' },
+    'Pasta': { price: 2, per: 'kg' },
+    'Spaghetti': { price: 2, per: 'kg' },
+    'Penne': { price: 2, per: 'kg' },
+    'Rice noodles': { price: 6, per: 'kg' },
+    'Egg noodles': { price: 5, per: 'kg' },
+
+    // === Baking, oils, nuts & seasoning ===
+    'All-purpose flour': { price: 0.8, per: 'kg' },
+    'Granulated sugar': { price: 1.2, per: 'kg' },
+    'Brown sugar': { price: 3, per: 'kg' },
+    'Olive oil': { price: 10, per: 'l' },
+    'Vegetable oil': { price: 2.5, per: 'l' },
+    'Sesame oil': { price: 15, per: 'l' },
+    'Almonds': { price: 14, per: 'kg' },
+    'Peanuts': { price: 6, per: 'kg' },
+    'Walnuts': { price: 16, per: 'kg' },
+    'Sesame seeds': { price: 8, per: 'kg' },
+    'Black pepper': { price: 40, per: 'kg' },
+    'Salt': { price: 0.5, per: 'kg' },
+    'Paprika': { price: 30, per: 'kg' },
+    'Ground cumin': { price: 35, per: 'kg' },
+    'Curry powder': { price: 30, per: 'kg' },
+
+    // === Sauces, canned goods & legumes ===
+    'Soy sauce': { price: 8, per: 'l' },
+    'Balsamic vinegar': { price: 6, per: 'l' },
+    'Honey': { price: 10, per: 'kg' },
+    'Dijon mustard': { price: 10, per: 'kg' },
+    'Canned tomatoes': { price: 2.5, per: 'kg', gramsPerPiece: 400 },
+    'Tomato paste': { price: 8, per: 'kg' },
+    'Canned chickpeas': { price: 3, per: 'kg', gramsPerPiece: 400 },
+    'Canned kidney beans': { price: 3, per: 'kg', gramsPerPiece: 400 },
+    'Red lentils': { price: 4, per: 'kg' },
+
+    // === Bread & misc ===
+    'Tortilla wrap': { price: 0.4, per: 'piece', gramsPerPiece: 60 },
+    'Bread crumbs': { price: 3, per: 'kg' },
+    'Vegetable stock': { price: 2, per: 'l' },
+    'Chicken stock': { price: 3, per: 'l' },
+    'Water': { price: 0, per: 'l' },
+};
@@ -1,597 +1,645 @@
-export const INGREDIENTS: readonly string[] = [
+import type { UnitOfMeasurement } from '../models/recipe.model';
+import type { CatalogIngredient, IngredientCategory, IngredientDietFlag } from '../models/ingredient.model';
+
+/**
+ * Units of the ingredient form used as default units.
+ */
+const GRAM: UnitOfMeasurement = { name: 'gram', abbreviation: 'g' };
+const ML: UnitOfMeasurement = { name: 'ml', abbreviation: 'ml' };
+const PIECE: UnitOfMeasurement = { name: 'piece', abbreviation: '' };
+
+/**
+ * Diet flags shared by many catalog entries.
+ */
+const PLANT_BASED: readonly IngredientDietFlag[] = ['vegetarian', 'vegan', 'pescatarian', 'gluten-free', 'lactose-free'];
+const PLANT_WITH_GLUTEN: readonly IngredientDietFlag[] = ['vegetarian', 'vegan', 'pescatarian', 'lactose-free'];
+const DAIRY: readonly IngredientDietFlag[] = ['vegetarian', 'pescatarian', 'gluten-free'];
+const FISH: readonly IngredientDietFlag[] = ['pescatarian', 'gluten-free', 'lactose-free'];
+const MEAT: readonly IngredientDietFlag[] = ['gluten-free', 'lactose-free'];
+
+/**
+ * Display labels of the ingredient categories, in catalog order.
+ */
+export const INGREDIENT_CATEGORY_LABELS: Readonly<Record<IngredientCategory, string>> = {
+    vegetables: 'Vegetables',
+    fruits: 'Fruits',
+    'leafy-greens': 'Leafy greens & salad',
+    herbs: 'Fresh herbs',
+    meat: 'Meat & poultry',
+    fish: 'Fish & seafood',
+    dairy: 'Dairy & eggs',
+    'plant-based': 'Plant-based dairy & alternatives',
+    grains: 'Grains, pasta & rice',
+    baking: 'Flour & baking essentials',
+    oils: 'Oils & fats',
+    nuts: 'Nuts & seeds',
+    spices: 'Spices & seasoning',
+    'asian-sauces': 'Asian sauces & condiments',
+    sauces: 'General sauces & condiments',
+    canned: 'Canned & jarred',
+    legumes: 'Legumes & pulses (dry)',
+    bread: 'Bread & bakery',
+    breakfast: 'Breakfast & cereals',
+    sweets: 'Sweet stuff & dessert',
+    beverages: 'Beverages & misc.',
+    misc: 'Misc cooking essentials',
+};
+
+/**
+ * Catalog of known ingredients, grouped by category.
+ *
+ * Names are unique (case-insensitive) and never appear as alias of another entry.
+ */
+export const INGREDIENT_CATALOG: readonly CatalogIngredient[] = [
     // === Vegetables ===
-    'Artichoke',
-    'Arugula',
-    'Asparagus',
-    'Aubergine',
-    'Baby spinach',
-    'Beetroot',
-    'Bell pepper',
-    'Bok choy',
-    'Broccoli',
-    'Brussels sprouts',
-    'Butternut squash',
-    'Cabbage',
-    'Carrot',
-    'Cauliflower',
-    'Celery',
-    'Cherry tomatoes',
-    'Chili pepper',
-    'Corn',
-    'Cucumber',
-    'Eggplant',
-    'Fennel',
-    'Garlic',
-    'Green beans',
-    'Green peas',
-    'Jalapeño',
-    'Kale',
-    'Leek',
-    'Lettuce',
-    'Mushrooms',
-    'Okra',
-    'Onion',
-    'Parsnip',
-    'Potato',
-    'Pumpkin',
-    'Radish',
-    'Red cabbage',
-    'Red onion',
-    'Shallot',
-    'Spinach',
-    'Spring onion',
-    'Sweet potato',
-    'Tomato',
-    'Turnip',
-    'Zucchini',
-    'Artichoke hearts',
-    'Baby corn',
-    'Green chili',
-    'Red chili',
-    'Yellow bell pepper',
-    'Green bell pepper',
-    'Portobello mushrooms',
-    'Button mushrooms',
-    'Oyster mushrooms',
-    'Enoki mushrooms',
-    'King oyster mushrooms',
-    'Snow peas',
-    'Sugar snap peas',
-    'Plantain',
-    'Jerusalem artichoke',
-    'Daikon radish',
-    'Chinese cabbage',
-    'Savoy cabbage',
-    'Napa cabbage',
-    'Collard greens',
-    'Mustard greens',
-    'Watercress',
-    'Endive',
-    'Belgian endive',
-    'Kohlrabi',
-    'Rutabaga',
-    'Celery root',
-    'Yam',
-    'Lotus root',
-    'Taro root',
-    'Bamboo shoots',
-  
+    { id: 'artichoke', name: 'Artichoke', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'arugula', name: 'Arugula', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'asparagus', name: 'Asparagus', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'aubergine', name: 'Aubergine', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'baby-spinach', name: 'Baby spinach', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'beetroot', name: 'Beetroot', category: 'vegetables', aliases: ['Beet'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'bell-pepper', name: 'Bell pepper', category: 'vegetables', aliases: ['Capsicum', 'Sweet pepper'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'bok-choy', name: 'Bok choy', category: 'vegetables', aliases: ['Pak choi'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'broccoli', name: 'Broccoli', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'brussels-sprouts', name: 'Brussels sprouts', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'butternut-squash', name: 'Butternut squash', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'cabbage', name: 'Cabbage', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'carrot', name: 'Carrot', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'cauliflower', name: 'Cauliflower', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'celery', name: 'Celery', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'cherry-tomatoes', name: 'Cherry tomatoes', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'chili-pepper', name: 'Chili pepper', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'corn', name: 'Corn', category: 'vegetables', aliases: ['Sweetcorn'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'cucumber', name: 'Cucumber', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'eggplant', name: 'Eggplant', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'fennel', name: 'Fennel', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'garlic', name: 'Garlic', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'green-beans', name: 'Green beans', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'green-peas', name: 'Green peas', category: 'vegetables', aliases: ['Peas'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'jalapeno', name: 'Jalapeño', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'kale', name: 'Kale', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'leek', name: 'Leek', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'lettuce', name: 'Lettuce', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'mushrooms', name: 'Mushrooms', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'okra', name: 'Okra', category: 'vegetables', aliases: ['Lady\'s fingers'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'onion', name: 'Onion', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'parsnip', name: 'Parsnip', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'potato', name: 'Potato', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'pumpkin', name: 'Pumpkin', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'radish', name: 'Radish', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'red-cabbage', name: 'Red cabbage', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'red-onion', name: 'Red onion', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'shallot', name: 'Shallot', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'spinach', name: 'Spinach', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'spring-onion', name: 'Spring onion', category: 'vegetables', aliases: ['Scallion', 'Green onion'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'sweet-potato', name: 'Sweet potato', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'tomato', name: 'Tomato', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'turnip', name: 'Turnip', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'zucchini', name: 'Zucchini', category: 'vegetables', aliases: ['Courgette'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'artichoke-hearts', name: 'Artichoke hearts', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'baby-corn', name: 'Baby corn', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'green-chili', name: 'Green chili', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'red-chili', name: 'Red chili', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'yellow-bell-pepper', name: 'Yellow bell pepper', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'green-bell-pepper', name: 'Green bell pepper', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'portobello-mushrooms', name: 'Portobello mushrooms', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'button-mushrooms', name: 'Button mushrooms', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'oyster-mushrooms', name: 'Oyster mushrooms', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'enoki-mushrooms', name: 'Enoki mushrooms', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'king-oyster-mushrooms', name: 'King oyster mushrooms', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'snow-peas', name: 'Snow peas', category: 'vegetables', aliases: ['Mangetout'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sugar-snap-peas', name: 'Sugar snap peas', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'plantain', name: 'Plantain', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'jerusalem-artichoke', name: 'Jerusalem artichoke', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'daikon-radish', name: 'Daikon radish', category: 'vegetables', aliases: ['Daikon', 'Mooli'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'chinese-cabbage', name: 'Chinese cabbage', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'savoy-cabbage', name: 'Savoy cabbage', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'napa-cabbage', name: 'Napa cabbage', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'collard-greens', name: 'Collard greens', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'mustard-greens', name: 'Mustard greens', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'watercress', name: 'Watercress', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'endive', name: 'Endive', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'belgian-endive', name: 'Belgian endive', category: 'vegetables', aliases: ['Chicory'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'kohlrabi', name: 'Kohlrabi', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'rutabaga', name: 'Rutabaga', category: 'vegetables', aliases: ['Swede'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'celery-root', name: 'Celery root', category: 'vegetables', aliases: ['Celeriac'], defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'yam', name: 'Yam', category: 'vegetables', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'lotus-root', name: 'Lotus root', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'taro-root', name: 'Taro root', category: 'vegetables', aliases: ['Taro'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'bamboo-shoots', name: 'Bamboo shoots', category: 'vegetables', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Fruits ===
-    'Apple',
-    'Apricot',
-    'Avocado',
-    'Banana',
-    'Blackberries',
-    'Blueberries',
-    'Cantaloupe',
-    'Cherries',
-    'Clementine',
-    'Coconut',
-    'Cranberries',
-    'Dates',
-    'Fig',
-    'Grapefruit',
-    'Grapes',
-    'Kiwi',
-    'Lemon',
-    'Lime',
-    'Mango',
-    'Nectarine',
-    'Orange',
-    'Papaya',
-    'Passion fruit',
-    'Peach',
-    'Pear',
-    'Pineapple',
-    'Plum',
-    'Pomegranate',
-    'Raspberries',
-    'Strawberries',
-    'Watermelon',
-    'Blackcurrants',
-    'Redcurrants',
-    'Gooseberries',
-    'Dragon fruit',
-    'Lychee',
-    'Star fruit',
-    'Persimmon',
-    'Mandarin',
-    'Tangerine',
-    'Blood orange',
-    'Guava',
-    'Jackfruit',
-    'Durian',
-    'Rhubarb',
-  
+    { id: 'apple', name: 'Apple', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'apricot', name: 'Apricot', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'avocado', name: 'Avocado', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'banana', name: 'Banana', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'blackberries', name: 'Blackberries', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'blueberries', name: 'Blueberries', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cantaloupe', name: 'Cantaloupe', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'cherries', name: 'Cherries', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'clementine', name: 'Clementine', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'coconut', name: 'Coconut', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'cranberries', name: 'Cranberries', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'dates', name: 'Dates', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'fig', name: 'Fig', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'grapefruit', name: 'Grapefruit', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'grapes', name: 'Grapes', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'kiwi', name: 'Kiwi', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'lemon', name: 'Lemon', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'lime', name: 'Lime', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'mango', name: 'Mango', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'nectarine', name: 'Nectarine', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'orange', name: 'Orange', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'papaya', name: 'Papaya', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'passion-fruit', name: 'Passion fruit', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'peach', name: 'Peach', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'pear', name: 'Pear', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'pineapple', name: 'Pineapple', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'plum', name: 'Plum', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'pomegranate', name: 'Pomegranate', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'raspberries', name: 'Raspberries', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'strawberries', name: 'Strawberries', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'watermelon', name: 'Watermelon', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'blackcurrants', name: 'Blackcurrants', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'redcurrants', name: 'Redcurrants', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'gooseberries', name: 'Gooseberries', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'dragon-fruit', name: 'Dragon fruit', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'lychee', name: 'Lychee', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'star-fruit', name: 'Star fruit', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'persimmon', name: 'Persimmon', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'mandarin', name: 'Mandarin', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'tangerine', name: 'Tangerine', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'blood-orange', name: 'Blood orange', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'guava', name: 'Guava', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'jackfruit', name: 'Jackfruit', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'durian', name: 'Durian', category: 'fruits', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'rhubarb', name: 'Rhubarb', category: 'fruits', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Leafy greens & salad ===
-    'Baby kale',
-    'Butter lettuce',
-    'Iceberg lettuce',
-    'Romaine lettuce',
-    'Mixed salad greens',
-    'Radicchio',
-    'Rocket',
-    'Swiss chard',
-    'Frisée',
-    'Lambs lettuce',
-  
+    { id: 'baby-kale', name: 'Baby kale', category: 'leafy-greens', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'butter-lettuce', name: 'Butter lettuce', category: 'leafy-greens', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'iceberg-lettuce', name: 'Iceberg lettuce', category: 'leafy-greens', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'romaine-lettuce', name: 'Romaine lettuce', category: 'leafy-greens', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'mixed-salad-greens', name: 'Mixed salad greens', category: 'leafy-greens', aliases: ['Mesclun'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'radicchio', name: 'Radicchio', category: 'leafy-greens', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'rocket', name: 'Rocket', category: 'leafy-greens', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'swiss-chard', name: 'Swiss chard', category: 'leafy-greens', aliases: ['Chard'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'frisee', name: 'Frisée', category: 'leafy-greens', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'lambs-lettuce', name: 'Lambs lettuce', category: 'leafy-greens', aliases: ['Corn salad'], defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Fresh herbs ===
-    'Basil',
-    'Bay leaves',
-    'Chives',
-    'Cilantro',
-    'Coriander leaves',
-    'Dill',
-    'Italian parsley',
-    'Mint',
-    'Oregano',
-    'Parsley',
-    'Rosemary',
-    'Sage',
-    'Tarragon',
-    'Thyme',
-    'Lemongrass',
-    'Marjoram',
-    'Lovage',
-    'Chervil',
-  
+    { id: 'basil', name: 'Basil', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'bay-leaves', name: 'Bay leaves', category: 'herbs', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'chives', name: 'Chives', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cilantro', name: 'Cilantro', category: 'herbs', aliases: ['Fresh coriander'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'coriander-leaves', name: 'Coriander leaves', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'dill', name: 'Dill', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'italian-parsley', name: 'Italian parsley', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'mint', name: 'Mint', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'oregano', name: 'Oregano', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'parsley', name: 'Parsley', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'rosemary', name: 'Rosemary', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sage', name: 'Sage', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'tarragon', name: 'Tarragon', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'thyme', name: 'Thyme', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'lemongrass', name: 'Lemongrass', category: 'herbs', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'marjoram', name: 'Marjoram', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'lovage', name: 'Lovage', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'chervil', name: 'Chervil', category: 'herbs', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Meat & poultry ===
-    'Bacon',
-    'Beef brisket',
-    'Beef mince',
-    'Beef steak',
-    'Chicken breast',
-    'Chicken drumsticks',
-    'Chicken thighs',
-    'Chicken wings',
-    'Duck breast',
-    'Ground beef',
-    'Ground chicken',
-    'Ground lamb',
-    'Ground pork',
-    'Ham',
-    'Lamb chops',
-    'Lamb shoulder',
-    'Pork belly',
-    'Pork chops',
-    'Pork loin',
-    'Prosciutto',
-    'Salami',
-    'Sausages',
-    'Turkey breast',
-    'Turkey mince',
-    'Chicken liver',
-    'Beef liver',
-    'Pork ribs',
-    'Beef ribs',
-    'Chicken gizzards',
-    'Veal cutlet',
-    'Veal chops',
-    'Duck legs',
-    'Turkey legs',
-    'Turkey wings',
-    'Beef sirloin',
-    'Beef ribeye',
-    'Beef tenderloin',
-    'Beef flank steak',
-    'Beef short ribs',
-    'Pork shoulder',
-    'Pork tenderloin',
-    'Pancetta',
-    'Chorizo',
-    'Mortadella',
-    'Black forest ham',
-    'Roast beef',
-  
+    { id: 'bacon', name: 'Bacon', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-brisket', name: 'Beef brisket', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-mince', name: 'Beef mince', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-steak', name: 'Beef steak', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'chicken-breast', name: 'Chicken breast', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'chicken-drumsticks', name: 'Chicken drumsticks', category: 'meat', defaultUnit: PIECE, diet: MEAT },
+    { id: 'chicken-thighs', name: 'Chicken thighs', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'chicken-wings', name: 'Chicken wings', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'duck-breast', name: 'Duck breast', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'ground-beef', name: 'Ground beef', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'ground-chicken', name: 'Ground chicken', category: 'meat', aliases: ['Chicken mince'], defaultUnit: GRAM, diet: MEAT },
+    { id: 'ground-lamb', name: 'Ground lamb', category: 'meat', aliases: ['Lamb mince'], defaultUnit: GRAM, diet: MEAT },
+    { id: 'ground-pork', name: 'Ground pork', category: 'meat', aliases: ['Pork mince'], defaultUnit: GRAM, diet: MEAT },
+    { id: 'ham', name: 'Ham', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'lamb-chops', name: 'Lamb chops', category: 'meat', defaultUnit: PIECE, diet: MEAT },
+    { id: 'lamb-shoulder', name: 'Lamb shoulder', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'pork-belly', name: 'Pork belly', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'pork-chops', name: 'Pork chops', category: 'meat', defaultUnit: PIECE, diet: MEAT },
+    { id: 'pork-loin', name: 'Pork loin', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'prosciutto', name: 'Prosciutto', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'salami', name: 'Salami', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'sausages', name: 'Sausages', category: 'meat', defaultUnit: PIECE, diet: [] },
+    { id: 'turkey-breast', name: 'Turkey breast', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'turkey-mince', name: 'Turkey mince', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'chicken-liver', name: 'Chicken liver', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-liver', name: 'Beef liver', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'pork-ribs', name: 'Pork ribs', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-ribs', name: 'Beef ribs', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'chicken-gizzards', name: 'Chicken gizzards', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'veal-cutlet', name: 'Veal cutlet', category: 'meat', defaultUnit: PIECE, diet: MEAT },
+    { id: 'veal-chops', name: 'Veal chops', category: 'meat', defaultUnit: PIECE, diet: MEAT },
+    { id: 'duck-legs', name: 'Duck legs', category: 'meat', defaultUnit: PIECE, diet: MEAT },
+    { id: 'turkey-legs', name: 'Turkey legs', category: 'meat', defaultUnit: PIECE, diet: MEAT },
+    { id: 'turkey-wings', name: 'Turkey wings', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-sirloin', name: 'Beef sirloin', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-ribeye', name: 'Beef ribeye', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-tenderloin', name: 'Beef tenderloin', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-flank-steak', name: 'Beef flank steak', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'beef-short-ribs', name: 'Beef short ribs', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'pork-shoulder', name: 'Pork shoulder', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'pork-tenderloin', name: 'Pork tenderloin', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'pancetta', name: 'Pancetta', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'chorizo', name: 'Chorizo', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'mortadella', name: 'Mortadella', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'black-forest-ham', name: 'Black forest ham', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+    { id: 'roast-beef', name: 'Roast beef', category: 'meat', defaultUnit: GRAM, diet: MEAT },
+
     // === Fish & seafood ===
-    'Anchories',
-    'Anchovies',
-    'Cod fillet',
-    'Crab meat',
-    'Haddock',
-    'Mussels',
-    'Prawns',
-    'Salmon fillet',
-    'Sardines',
-    'Scallops',
-    'Shrimp',
-    'Squid',
-    'Tilapia',
-    'Tuna steak',
-    'Smoked salmon',
-    'Canned tuna',
-    'Clams',
-    'Oysters',
-    'Lobster',
-    'Crayfish',
-    'Herring',
-    'Mackerel',
-    'Sea bass',
-    'Sea bream',
-    'Trout',
-    'Swordfish',
-    'Octopus',
-    'Calamari',
-    'Fish fillet mix',
-  
+    { id: 'anchovies', name: 'Anchovies', category: 'fish', aliases: ['Anchories'], defaultUnit: GRAM, diet: FISH },
+    { id: 'cod-fillet', name: 'Cod fillet', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'crab-meat', name: 'Crab meat', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'haddock', name: 'Haddock', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'mussels', name: 'Mussels', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'prawns', name: 'Prawns', category: 'fish', aliases: ['King prawns'], defaultUnit: GRAM, diet: FISH },
+    { id: 'salmon-fillet', name: 'Salmon fillet', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'sardines', name: 'Sardines', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'scallops', name: 'Scallops', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'shrimp', name: 'Shrimp', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'squid', name: 'Squid', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'tilapia', name: 'Tilapia', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'tuna-steak', name: 'Tuna steak', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'smoked-salmon', name: 'Smoked salmon', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'canned-tuna', name: 'Canned tuna', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'clams', name: 'Clams', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'oysters', name: 'Oysters', category: 'fish', defaultUnit: PIECE, diet: FISH },
+    { id: 'lobster', name: 'Lobster', category: 'fish', defaultUnit: PIECE, diet: FISH },
+    { id: 'crayfish', name: 'Crayfish', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'herring', name: 'Herring', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'mackerel', name: 'Mackerel', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'sea-bass', name: 'Sea bass', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'sea-bream', name: 'Sea bream', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'trout', name: 'Trout', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'swordfish', name: 'Swordfish', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'octopus', name: 'Octopus', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'calamari', name: 'Calamari', category: 'fish', defaultUnit: GRAM, diet: FISH },
+    { id: 'fish-fillet-mix', name: 'Fish fillet mix', category: 'fish', defaultUnit: GRAM, diet: FISH },
+
     // === Dairy & eggs ===
-    'Butter',
-    'Unsalted butter',
-    'Salted butter',
-    'Buttermilk',
-    'Cheddar cheese',
-    'Cream cheese',
-    'Cottage cheese',
-    'Feta cheese',
-    'Goat cheese',
-    'Grated Parmesan',
-    'Greek yogurt',
-    'Heavy cream',
-    'Milk',
-    'Mozzarella cheese',
-    'Plain yogurt',
-    'Ricotta cheese',
-    'Sour cream',
-    'Whipping cream',
-    'Yogurt',
-    'Egg',
-    'Egg whites',
-    'Egg yolks',
-    'Blue cheese',
-    'Camembert',
-    'Brie',
-    'Gouda',
-    'Provolone',
-    'Gruyere',
-    'Emmental',
-    'Halloumi',
-    'Mascarpone',
-    'Quark',
-    'Skyr',
-    'Kefir',
-    'Condensed milk',
-    'Evaporated milk',
-  
+    { id: 'butter', name: 'Butter', category: 'dairy', defaultUnit: GRAM, density: 0.91, diet: DAIRY },
+    { id: 'unsalted-butter', name: 'Unsalted butter', category: 'dairy', defaultUnit: GRAM, density: 0.91, diet: DAIRY },
+    { id: 'salted-butter', name: 'Salted butter', category: 'dairy', defaultUnit: GRAM, density: 0.91, diet: DAIRY },
+    { id: 'buttermilk', name: 'Buttermilk', category: 'dairy', defaultUnit: ML, density: 1.03, diet: DAIRY },
+    { id: 'cheddar-cheese', name: 'Cheddar cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'cream-cheese', name: 'Cream cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'cottage-cheese', name: 'Cottage cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'feta-cheese', name: 'Feta cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'goat-cheese', name: 'Goat cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'grated-parmesan', name: 'Grated Parmesan', category: 'dairy', aliases: ['Parmesan', 'Parmigiano'], defaultUnit: GRAM, diet: DAIRY },
+    { id: 'greek-yogurt', name: 'Greek yogurt', category: 'dairy', defaultUnit: GRAM, density: 1.03, diet: DAIRY },
+    { id: 'heavy-cream', name: 'Heavy cream', category: 'dairy', aliases: ['Double cream'], defaultUnit: ML, density: 0.99, diet: DAIRY },
+    { id: 'milk', name: 'Milk', category: 'dairy', defaultUnit: ML, density: 1.03, diet: DAIRY },
+    { id: 'mozzarella-cheese', name: 'Mozzarella cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'plain-yogurt', name: 'Plain yogurt', category: 'dairy', defaultUnit: GRAM, density: 1.03, diet: DAIRY },
+    { id: 'ricotta-cheese', name: 'Ricotta cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'sour-cream', name: 'Sour cream', category: 'dairy', defaultUnit: GRAM, density: 1.03, diet: DAIRY },
+    { id: 'whipping-cream', name: 'Whipping cream', category: 'dairy', defaultUnit: ML, density: 0.99, diet: DAIRY },
+    { id: 'yogurt', name: 'Yogurt', category: 'dairy', defaultUnit: GRAM, density: 1.03, diet: DAIRY },
+    { id: 'egg', name: 'Egg', category: 'dairy', defaultUnit: PIECE, diet: ['vegetarian', 'pescatarian', 'gluten-free', 'lactose-free'] },
+    { id: 'egg-whites', name: 'Egg whites', category: 'dairy', defaultUnit: PIECE, diet: ['vegetarian', 'pescatarian', 'gluten-free', 'lactose-free'] },
+    { id: 'egg-yolks', name: 'Egg yolks', category: 'dairy', defaultUnit: PIECE, diet: ['vegetarian', 'pescatarian', 'gluten-free', 'lactose-free'] },
+    { id: 'blue-cheese', name: 'Blue cheese', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'camembert', name: 'Camembert', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'brie', name: 'Brie', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'gouda', name: 'Gouda', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'provolone', name: 'Provolone', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'gruyere', name: 'Gruyere', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'emmental', name: 'Emmental', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'halloumi', name: 'Halloumi', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'mascarpone', name: 'Mascarpone', category: 'dairy', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'quark', name: 'Quark', category: 'dairy', defaultUnit: GRAM, density: 1.03, diet: DAIRY },
+    { id: 'skyr', name: 'Skyr', category: 'dairy', defaultUnit: GRAM, density: 1.03, diet: DAIRY },
+    { id: 'kefir', name: 'Kefir', category: 'dairy', defaultUnit: ML, density: 1.03, diet: DAIRY },
+    { id: 'condensed-milk', name: 'Condensed milk', category: 'dairy', defaultUnit: ML, density: 1.3, diet: DAIRY },
+    { id: 'evaporated-milk', name: 'Evaporated milk', category: 'dairy', defaultUnit: ML, density: 1.07, diet: DAIRY },
+
     // === Plant-based dairy & alternatives ===
-    'Almond milk',
-    'Coconut milk',
-    'Coconut cream',
-    'Oat milk',
-    'Rice milk',
-    'Soy milk',
-    'Vegan cheese',
-    'Tofu',
-    'Firm tofu',
-    'Silken tofu',
-    'Tempeh',
-    'Soy yogurt',
-    'Coconut yogurt',
-  
+    { id: 'almond-milk', name: 'Almond milk', category: 'plant-based', defaultUnit: ML, density: 1.03, diet: PLANT_BASED },
+    { id: 'coconut-milk', name: 'Coconut milk', category: 'plant-based', defaultUnit: ML, density: 0.97, diet: PLANT_BASED },
+    { id: 'coconut-cream', name: 'Coconut cream', category: 'plant-based', defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'oat-milk', name: 'Oat milk', category: 'plant-based', defaultUnit: ML, density: 1.03, diet: PLANT_BASED },
+    { id: 'rice-milk', name: 'Rice milk', category: 'plant-based', defaultUnit: ML, density: 1.03, diet: PLANT_BASED },
+    { id: 'soy-milk', name: 'Soy milk', category: 'plant-based', defaultUnit: ML, density: 1.03, diet: PLANT_BASED },
+    { id: 'vegan-cheese', name: 'Vegan cheese', category: 'plant-based', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'tofu', name: 'Tofu', category: 'plant-based', aliases: ['Bean curd'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'firm-tofu', name: 'Firm tofu', category: 'plant-based', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'silken-tofu', name: 'Silken tofu', category: 'plant-based', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'tempeh', name: 'Tempeh', category: 'plant-based', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'soy-yogurt', name: 'Soy yogurt', category: 'plant-based', defaultUnit: GRAM, density: 1.03, diet: PLANT_BASED },
+    { id: 'coconut-yogurt', name: 'Coconut yogurt', category: 'plant-based', defaultUnit: GRAM, density: 1.03, diet: PLANT_BASED },
+
     // === Grains, pasta & rice ===
-    'Bulgur',
-    'Couscous',
-    'Jasmine rice',
-    'Basmati rice',
-    'Brown rice',
-    'White rice',
-    'Wild rice',
-    'Quinoa',
-    'Barley',
-    'Oats',
-    'Rolled oats',
-    'Pasta',
-    'Spaghetti',
-    'Fusilli',
-    'Penne',
-    'Lasagna sheets',
-    'Rice noodles',
-    'Udon noodles',
-    'Soba noodles',
-    'Egg noodles',
-    'Ramen noodles',
-    'Farro',
-    'Millet',
-    'Polenta',
-    'Buckwheat',
-    'Couscous pearls',
-    'Orzo',
-    'Whole wheat pasta',
-    'Gluten-free pasta',
-  
+    { id: 'bulgur', name: 'Bulgur', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'couscous', name: 'Couscous', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'jasmine-rice', name: 'Jasmine rice', category: 'grains', defaultUnit: GRAM, density: 0.85, diet: PLANT_BASED },
+    { id: 'basmati-rice', name: 'Basmati rice', category: 'grains', defaultUnit: GRAM, density: 0.85, diet: PLANT_BASED },
+    { id: 'brown-rice', name: 'Brown rice', category: 'grains', defaultUnit: GRAM, density: 0.85, diet: PLANT_BASED },
+    { id: 'white-rice', name: 'White rice', category: 'grains', defaultUnit: GRAM, density: 0.85, diet: PLANT_BASED },
+    { id: 'wild-rice', name: 'Wild rice', category: 'grains', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'quinoa', name: 'Quinoa', category: 'grains', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'barley', name: 'Barley', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'oats', name: 'Oats', category: 'grains', defaultUnit: GRAM, density: 0.38, diet: PLANT_WITH_GLUTEN },
+    { id: 'rolled-oats', name: 'Rolled oats', category: 'grains', aliases: ['Oat flakes'], defaultUnit: GRAM, density: 0.38, diet: PLANT_WITH_GLUTEN },
+    { id: 'pasta', name: 'Pasta', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'spaghetti', name: 'Spaghetti', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'fusilli', name: 'Fusilli', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'penne', name: 'Penne', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'lasagna-sheets', name: 'Lasagna sheets', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'rice-noodles', name: 'Rice noodles', category: 'grains', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'udon-noodles', name: 'Udon noodles', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'soba-noodles', name: 'Soba noodles', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'egg-noodles', name: 'Egg noodles', category: 'grains', defaultUnit: GRAM, diet: ['vegetarian', 'pescatarian', 'lactose-free'] },
+    { id: 'ramen-noodles', name: 'Ramen noodles', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'farro', name: 'Farro', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'millet', name: 'Millet', category: 'grains', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'polenta', name: 'Polenta', category: 'grains', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'buckwheat', name: 'Buckwheat', category: 'grains', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'couscous-pearls', name: 'Couscous pearls', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'orzo', name: 'Orzo', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'whole-wheat-pasta', name: 'Whole wheat pasta', category: 'grains', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'gluten-free-pasta', name: 'Gluten-free pasta', category: 'grains', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Flour & baking essentials ===
-    'All-purpose flour',
-    'Bread flour',
-    'Cake flour',
-    'Whole wheat flour',
-    'Almond flour',
-    'Coconut flour',
-    'Baking powder',
-    'Baking soda',
-    'Dry yeast',
-    'Active dry yeast',
-    'Instant yeast',
-    'Cornstarch',
-    'Cornmeal',
-    'Cocoa powder',
-    'Vanilla extract',
-    'Vanilla sugar',
-    'Chocolate chips',
-    'Dark chocolate',
-    'White chocolate',
-    'Brown sugar',
-    'Caster sugar',
-    'Granulated sugar',
-    'Icing sugar',
-    'Powdered sugar',
-    'Jam',
-    'Strawberry jam',
-    'Apricot jam',
-    'Hazelnut spread',
-    'Gelatin powder',
-    'Agar-agar',
-    'Pectin',
-    'Shortcrust pastry dough',
-    'Puff pastry dough',
-    'Phyllo dough',
-  
+    { id: 'all-purpose-flour', name: 'All-purpose flour', category: 'baking', aliases: ['Plain flour'], defaultUnit: GRAM, density: 0.53, diet: PLANT_WITH_GLUTEN },
+    { id: 'bread-flour', name: 'Bread flour', category: 'baking', defaultUnit: GRAM, density: 0.53, diet: PLANT_WITH_GLUTEN },
+    { id: 'cake-flour', name: 'Cake flour', category: 'baking', defaultUnit: GRAM, density: 0.53, diet: PLANT_WITH_GLUTEN },
+    { id: 'whole-wheat-flour', name: 'Whole wheat flour', category: 'baking', defaultUnit: GRAM, density: 0.55, diet: PLANT_WITH_GLUTEN },
+    { id: 'almond-flour', name: 'Almond flour', category: 'baking', defaultUnit: GRAM, density: 0.4, diet: PLANT_BASED },
+    { id: 'coconut-flour', name: 'Coconut flour', category: 'baking', defaultUnit: GRAM, density: 0.5, diet: PLANT_BASED },
+    { id: 'baking-powder', name: 'Baking powder', category: 'baking', defaultUnit: GRAM, density: 0.9, diet: PLANT_BASED },
+    { id: 'baking-soda', name: 'Baking soda', category: 'baking', aliases: ['Bicarbonate of soda'], defaultUnit: GRAM, density: 0.95, diet: PLANT_BASED },
+    { id: 'dry-yeast', name: 'Dry yeast', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'active-dry-yeast', name: 'Active dry yeast', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'instant-yeast', name: 'Instant yeast', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cornstarch', name: 'Cornstarch', category: 'baking', aliases: ['Cornflour'], defaultUnit: GRAM, density: 0.54, diet: PLANT_BASED },
+    { id: 'cornmeal', name: 'Cornmeal', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cocoa-powder', name: 'Cocoa powder', category: 'baking', defaultUnit: GRAM, density: 0.45, diet: PLANT_BASED },
+    { id: 'vanilla-extract', name: 'Vanilla extract', category: 'baking', defaultUnit: ML, density: 0.88, diet: PLANT_BASED },
+    { id: 'vanilla-sugar', name: 'Vanilla sugar', category: 'baking', defaultUnit: GRAM, density: 0.85, diet: PLANT_BASED },
+    { id: 'chocolate-chips', name: 'Chocolate chips', category: 'baking', defaultUnit: GRAM, diet: ['vegetarian', 'pescatarian', 'gluten-free'] },
+    { id: 'dark-chocolate', name: 'Dark chocolate', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'white-chocolate', name: 'White chocolate', category: 'baking', defaultUnit: GRAM, diet: ['vegetarian', 'pescatarian', 'gluten-free'] },
+    { id: 'brown-sugar', name: 'Brown sugar', category: 'baking', defaultUnit: GRAM, density: 0.83, diet: PLANT_BASED },
+    { id: 'caster-sugar', name: 'Caster sugar', category: 'baking', defaultUnit: GRAM, density: 0.85, diet: PLANT_BASED },
+    { id: 'granulated-sugar', name: 'Granulated sugar', category: 'baking', defaultUnit: GRAM, density: 0.85, diet: PLANT_BASED },
+    { id: 'icing-sugar', name: 'Icing sugar', category: 'baking', aliases: ['Confectioners\' sugar'], defaultUnit: GRAM, density: 0.56, diet: PLANT_BASED },
+    { id: 'powdered-sugar', name: 'Powdered sugar', category: 'baking', defaultUnit: GRAM, density: 0.56, diet: PLANT_BASED },
+    { id: 'jam', name: 'Jam', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'strawberry-jam', name: 'Strawberry jam', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'apricot-jam', name: 'Apricot jam', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'hazelnut-spread', name: 'Hazelnut spread', category: 'baking', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'gelatin-powder', name: 'Gelatin powder', category: 'baking', defaultUnit: GRAM, diet: ['gluten-free', 'lactose-free'] },
+    { id: 'agar-agar', name: 'Agar-agar', category: 'baking', aliases: ['Agar'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'pectin', name: 'Pectin', category: 'baking', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'shortcrust-pastry-dough', name: 'Shortcrust pastry dough', category: 'baking', defaultUnit: GRAM, diet: ['vegetarian', 'pescatarian'] },
+    { id: 'puff-pastry-dough', name: 'Puff pastry dough', category: 'baking', defaultUnit: GRAM, diet: ['vegetarian', 'pescatarian'] },
+    { id: 'phyllo-dough', name: 'Phyllo dough', category: 'baking', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+
     // === Oils & fats ===
-    'Olive oil',
-    'Extra virgin olive oil',
-    'Vegetable oil',
-    'Sunflower oil',
-    'Canola oil',
-    'Coconut oil',
-    'Sesame oil',
-    'Ghee',
-    'Lard',
-    'Peanut oil',
-    'Grapeseed oil',
-    'Avocado oil',
-  
+    { id: 'olive-oil', name: 'Olive oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'extra-virgin-olive-oil', name: 'Extra virgin olive oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'vegetable-oil', name: 'Vegetable oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'sunflower-oil', name: 'Sunflower oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'canola-oil', name: 'Canola oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'coconut-oil', name: 'Coconut oil', category: 'oils', defaultUnit: GRAM, density: 0.91, diet: PLANT_BASED },
+    { id: 'sesame-oil', name: 'Sesame oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'ghee', name: 'Ghee', category: 'oils', aliases: ['Clarified butter'], defaultUnit: GRAM, density: 0.91, diet: DAIRY },
+    { id: 'lard', name: 'Lard', category: 'oils', defaultUnit: GRAM, density: 0.91, diet: ['gluten-free', 'lactose-free'] },
+    { id: 'peanut-oil', name: 'Peanut oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'grapeseed-oil', name: 'Grapeseed oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+    { id: 'avocado-oil', name: 'Avocado oil', category: 'oils', defaultUnit: ML, density: 0.92, diet: PLANT_BASED },
+
     // === Nuts & seeds ===
-    'Almonds',
-    'Cashews',
-    'Hazelnuts',
-    'Macadamia nuts',
-    'Peanuts',
-    'Pecans',
-    'Pine nuts',
-    'Pistachios',
-    'Walnuts',
-    'Chia seeds',
-    'Flaxseeds',
-    'Pumpkin seeds',
-    'Sesame seeds',
-    'Sunflower seeds',
-    'Hemp seeds',
-    'Poppy seeds',
-  
+    { id: 'almonds', name: 'Almonds', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cashews', name: 'Cashews', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'hazelnuts', name: 'Hazelnuts', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'macadamia-nuts', name: 'Macadamia nuts', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'peanuts', name: 'Peanuts', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'pecans', name: 'Pecans', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'pine-nuts', name: 'Pine nuts', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'pistachios', name: 'Pistachios', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'walnuts', name: 'Walnuts', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'chia-seeds', name: 'Chia seeds', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'flaxseeds', name: 'Flaxseeds', category: 'nuts', aliases: ['Linseed'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'pumpkin-seeds', name: 'Pumpkin seeds', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sesame-seeds', name: 'Sesame seeds', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sunflower-seeds', name: 'Sunflower seeds', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'hemp-seeds', name: 'Hemp seeds', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'poppy-seeds', name: 'Poppy seeds', category: 'nuts', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Spices & seasoning ===
-    'Allspice',
-    'Black pepper',
-    'Cayenne pepper',
-    'Chili flakes',
-    'Chili powder',
-    'Chinese five-spice',
-    'Cinnamon',
-    'Cloves',
-    'Cumin seeds',
-    'Ground cumin',
-    'Curry powder',
-    'Fenugreek',
-    'Garlic powder',
-    'Ginger powder',
-    'Nutmeg',
-    'Onion powder',
-    'Oregano (dried)',
-    'Paprika',
-    'Smoked paprika',
-    'Italian seasoning',
-    'Herbes de Provence',
-    'Salt',
-    'Sea salt',
-    'Kosher salt',
-    'White pepper',
-    'Turmeric',
-    'Cardamom',
-    'Coriander seeds',
-    'Mustard seeds',
-    'Bay leaf powder',
-    'Sumac',
-    'Zahtar',
-    'Saffron threads',
-    'Star anise',
-    'Crushed red pepper',
-  
+    { id: 'allspice', name: 'Allspice', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'black-pepper', name: 'Black pepper', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cayenne-pepper', name: 'Cayenne pepper', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'chili-flakes', name: 'Chili flakes', category: 'spices', aliases: ['Red pepper flakes'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'chili-powder', name: 'Chili powder', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'chinese-five-spice', name: 'Chinese five-spice', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cinnamon', name: 'Cinnamon', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cloves', name: 'Cloves', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cumin-seeds', name: 'Cumin seeds', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'ground-cumin', name: 'Ground cumin', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'curry-powder', name: 'Curry powder', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'fenugreek', name: 'Fenugreek', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'garlic-powder', name: 'Garlic powder', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'ginger-powder', name: 'Ginger powder', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'nutmeg', name: 'Nutmeg', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'onion-powder', name: 'Onion powder', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'oregano-dried', name: 'Oregano (dried)', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'paprika', name: 'Paprika', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'smoked-paprika', name: 'Smoked paprika', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'italian-seasoning', name: 'Italian seasoning', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'herbes-de-provence', name: 'Herbes de Provence', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'salt', name: 'Salt', category: 'spices', defaultUnit: GRAM, density: 1.2, diet: PLANT_BASED },
+    { id: 'sea-salt', name: 'Sea salt', category: 'spices', defaultUnit: GRAM, density: 1.2, diet: PLANT_BASED },
+    { id: 'kosher-salt', name: 'Kosher salt', category: 'spices', defaultUnit: GRAM, density: 0.7, diet: PLANT_BASED },
+    { id: 'white-pepper', name: 'White pepper', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'turmeric', name: 'Turmeric', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cardamom', name: 'Cardamom', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'coriander-seeds', name: 'Coriander seeds', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'mustard-seeds', name: 'Mustard seeds', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'bay-leaf-powder', name: 'Bay leaf powder', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sumac', name: 'Sumac', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'zahtar', name: 'Zahtar', category: 'spices', aliases: ['Za\'atar'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'saffron-threads', name: 'Saffron threads', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'star-anise', name: 'Star anise', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'crushed-red-pepper', name: 'Crushed red pepper', category: 'spices', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Asian sauces & condiments ===
-    'Soy sauce',
-    'Dark soy sauce',
-    'Light soy sauce',
-    'Fish sauce',
-    'Oyster sauce',
-    'Hoisin sauce',
-    'Teriyaki sauce',
-    'Rice vinegar',
-    'Mirin',
-    'Sesame paste',
-    'Tahini',
-    'Gochujang',
-    'Kimchi',
-    'Miso paste',
-    'Sweet chili sauce',
-    'Black bean sauce',
-    'Chili garlic sauce',
-    'Ponzu sauce',
-    'Sushi vinegar',
-  
+    { id: 'soy-sauce', name: 'Soy sauce', category: 'asian-sauces', defaultUnit: ML, density: 1.15, diet: PLANT_WITH_GLUTEN },
+    { id: 'dark-soy-sauce', name: 'Dark soy sauce', category: 'asian-sauces', defaultUnit: ML, density: 1.15, diet: PLANT_WITH_GLUTEN },
+    { id: 'light-soy-sauce', name: 'Light soy sauce', category: 'asian-sauces', defaultUnit: ML, density: 1.15, diet: PLANT_WITH_GLUTEN },
+    { id: 'fish-sauce', name: 'Fish sauce', category: 'asian-sauces', defaultUnit: ML, density: 1.2, diet: FISH },
+    { id: 'oyster-sauce', name: 'Oyster sauce', category: 'asian-sauces', defaultUnit: ML, diet: FISH },
+    { id: 'hoisin-sauce', name: 'Hoisin sauce', category: 'asian-sauces', defaultUnit: ML, diet: PLANT_WITH_GLUTEN },
+    { id: 'teriyaki-sauce', name: 'Teriyaki sauce', category: 'asian-sauces', defaultUnit: ML, diet: PLANT_WITH_GLUTEN },
+    { id: 'rice-vinegar', name: 'Rice vinegar', category: 'asian-sauces', defaultUnit: ML, density: 1.01, diet: PLANT_BASED },
+    { id: 'mirin', name: 'Mirin', category: 'asian-sauces', defaultUnit: ML, density: 1.05, diet: PLANT_BASED },
+    { id: 'sesame-paste', name: 'Sesame paste', category: 'asian-sauces', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'tahini', name: 'Tahini', category: 'asian-sauces', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'gochujang', name: 'Gochujang', category: 'asian-sauces', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'kimchi', name: 'Kimchi', category: 'asian-sauces', defaultUnit: GRAM, diet: FISH },
+    { id: 'miso-paste', name: 'Miso paste', category: 'asian-sauces', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'sweet-chili-sauce', name: 'Sweet chili sauce', category: 'asian-sauces', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'black-bean-sauce', name: 'Black bean sauce', category: 'asian-sauces', defaultUnit: ML, diet: PLANT_WITH_GLUTEN },
+    { id: 'chili-garlic-sauce', name: 'Chili garlic sauce', category: 'asian-sauces', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'ponzu-sauce', name: 'Ponzu sauce', category: 'asian-sauces', defaultUnit: ML, diet: PLANT_WITH_GLUTEN },
+    { id: 'sushi-vinegar', name: 'Sushi vinegar', category: 'asian-sauces', defaultUnit: ML, density: 1.01, diet: PLANT_BASED },
+
     // === General sauces & condiments ===
-    'Apple cider vinegar',
-    'Balsamic vinegar',
-    'Red wine vinegar',
-    'White wine vinegar',
-    'Ketchup',
-    'Mayonnaise',
-    'Mustard',
-    'Dijon mustard',
-    'Wholegrain mustard',
-    'Barbecue sauce',
-    'Hot sauce',
-    'Sriracha',
-    'Worcestershire sauce',
-    'Honey',
-    'Maple syrup',
-    'Golden syrup',
-    'Molasses',
-    'Tartar sauce',
-    'Remoulade',
-    'Caesar dressing',
-    'Ranch dressing',
-    'Thousand island dressing',
-    'Italian dressing',
-    'Yogurt dressing',
-  
+    { id: 'apple-cider-vinegar', name: 'Apple cider vinegar', category: 'sauces', defaultUnit: ML, density: 1.01, diet: PLANT_BASED },
+    { id: 'balsamic-vinegar', name: 'Balsamic vinegar', category: 'sauces', defaultUnit: ML, density: 1.01, diet: PLANT_BASED },
+    { id: 'red-wine-vinegar', name: 'Red wine vinegar', category: 'sauces', defaultUnit: ML, density: 1.01, diet: PLANT_BASED },
+    { id: 'white-wine-vinegar', name: 'White wine vinegar', category: 'sauces', defaultUnit: ML, density: 1.01, diet: PLANT_BASED },
+    { id: 'ketchup', name: 'Ketchup', category: 'sauces', defaultUnit: ML, density: 1.15, diet: PLANT_BASED },
+    { id: 'mayonnaise', name: 'Mayonnaise', category: 'sauces', defaultUnit: ML, density: 0.91, diet: ['vegetarian', 'pescatarian', 'gluten-free', 'lactose-free'] },
+    { id: 'mustard', name: 'Mustard', category: 'sauces', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'dijon-mustard', name: 'Dijon mustard', category: 'sauces', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'wholegrain-mustard', name: 'Wholegrain mustard', category: 'sauces', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'barbecue-sauce', name: 'Barbecue sauce', category: 'sauces', defaultUnit: ML, density: 1.15, diet: PLANT_BASED },
+    { id: 'hot-sauce', name: 'Hot sauce', category: 'sauces', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'sriracha', name: 'Sriracha', category: 'sauces', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'worcestershire-sauce', name: 'Worcestershire sauce', category: 'sauces', defaultUnit: ML, diet: FISH },
+    { id: 'honey', name: 'Honey', category: 'sauces', defaultUnit: GRAM, density: 1.42, diet: ['vegetarian', 'pescatarian', 'gluten-free', 'lactose-free'] },
+    { id: 'maple-syrup', name: 'Maple syrup', category: 'sauces', defaultUnit: ML, density: 1.32, diet: PLANT_BASED },
+    { id: 'golden-syrup', name: 'Golden syrup', category: 'sauces', defaultUnit: ML, density: 1.4, diet: PLANT_BASED },
+    { id: 'molasses', name: 'Molasses', category: 'sauces', defaultUnit: ML, density: 1.4, diet: PLANT_BASED },
+    { id: 'tartar-sauce', name: 'Tartar sauce', category: 'sauces', defaultUnit: ML, diet: DAIRY },
+    { id: 'remoulade', name: 'Remoulade', category: 'sauces', defaultUnit: ML, diet: DAIRY },
+    { id: 'caesar-dressing', name: 'Caesar dressing', category: 'sauces', defaultUnit: ML, diet: ['pescatarian', 'gluten-free'] },
+    { id: 'ranch-dressing', name: 'Ranch dressing', category: 'sauces', defaultUnit: ML, diet: DAIRY },
+    { id: 'thousand-island-dressing', name: 'Thousand island dressing', category: 'sauces', defaultUnit: ML, diet: DAIRY },
+    { id: 'italian-dressing', name: 'Italian dressing', category: 'sauces', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'yogurt-dressing', name: 'Yogurt dressing', category: 'sauces', defaultUnit: ML, diet: DAIRY },
+
     // === Canned & jarred ===
-    'Canned tomatoes',
-    'Tomato paste',
-    'Tomato sauce',
-    'Crushed tomatoes',
-    'Canned chickpeas',
-    'Canned kidney beans',
-    'Canned black beans',
-    'Canned corn',
-    'Canned peas',
-    'Canned lentils',
-    'Pickles',
-    'Olives',
-    'Capers',
-    'Sun-dried tomatoes',
-    'Jarred pesto',
-    'Peanut butter',
-    'Almond butter',
-    'Canned coconut milk',
-    'Canned pineapple',
-    'Canned peaches',
-    'Canned pears',
-    'Canned tuna in oil',
-    'Canned tuna in brine',
-    'Canned sardines',
-    'Canned anchovies',
-    'Canned soup',
-    'Canned mushrooms',
-  
+    { id: 'canned-tomatoes', name: 'Canned tomatoes', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'tomato-paste', name: 'Tomato paste', category: 'canned', defaultUnit: GRAM, density: 1.1, diet: PLANT_BASED },
+    { id: 'tomato-sauce', name: 'Tomato sauce', category: 'canned', defaultUnit: ML, density: 1.03, diet: PLANT_BASED },
+    { id: 'crushed-tomatoes', name: 'Crushed tomatoes', category: 'canned', defaultUnit: GRAM, density: 1.03, diet: PLANT_BASED },
+    { id: 'canned-chickpeas', name: 'Canned chickpeas', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-kidney-beans', name: 'Canned kidney beans', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-black-beans', name: 'Canned black beans', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-corn', name: 'Canned corn', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-peas', name: 'Canned peas', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-lentils', name: 'Canned lentils', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'pickles', name: 'Pickles', category: 'canned', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'olives', name: 'Olives', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'capers', name: 'Capers', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sun-dried-tomatoes', name: 'Sun-dried tomatoes', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'jarred-pesto', name: 'Jarred pesto', category: 'canned', defaultUnit: GRAM, diet: DAIRY },
+    { id: 'peanut-butter', name: 'Peanut butter', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'almond-butter', name: 'Almond butter', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-coconut-milk', name: 'Canned coconut milk', category: 'canned', defaultUnit: ML, density: 0.97, diet: PLANT_BASED },
+    { id: 'canned-pineapple', name: 'Canned pineapple', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-peaches', name: 'Canned peaches', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-pears', name: 'Canned pears', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'canned-tuna-in-oil', name: 'Canned tuna in oil', category: 'canned', defaultUnit: GRAM, diet: FISH },
+    { id: 'canned-tuna-in-brine', name: 'Canned tuna in brine', category: 'canned', defaultUnit: GRAM, diet: FISH },
+    { id: 'canned-sardines', name: 'Canned sardines', category: 'canned', defaultUnit: GRAM, diet: FISH },
+    { id: 'canned-anchovies', name: 'Canned anchovies', category: 'canned', defaultUnit: GRAM, diet: FISH },
+    { id: 'canned-soup', name: 'Canned soup', category: 'canned', defaultUnit: ML, diet: [] },
+    { id: 'canned-mushrooms', name: 'Canned mushrooms', category: 'canned', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Legumes & pulses (dry) ===
-    'Red lentils',
-    'Green lentils',
-    'Brown lentils',
-    'Chickpeas',
-    'Black beans',
-    'Kidney beans',
-    'White beans',
-    'Cannellini beans',
-    'Pinto beans',
-    'Split peas',
-    'Black eyed peas',
-    'Adzuki beans',
-    'Mung beans',
-  
+    { id: 'red-lentils', name: 'Red lentils', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'green-lentils', name: 'Green lentils', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'brown-lentils', name: 'Brown lentils', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'chickpeas', name: 'Chickpeas', category: 'legumes', aliases: ['Garbanzo beans'], defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'black-beans', name: 'Black beans', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'kidney-beans', name: 'Kidney beans', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'white-beans', name: 'White beans', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cannellini-beans', name: 'Cannellini beans', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'pinto-beans', name: 'Pinto beans', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'split-peas', name: 'Split peas', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'black-eyed-peas', name: 'Black eyed peas', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'adzuki-beans', name: 'Adzuki beans', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'mung-beans', name: 'Mung beans', category: 'legumes', defaultUnit: GRAM, diet: PLANT_BASED },
+
     // === Bread & bakery ===
-    'Baguette',
-    'Burger bun',
-    'Ciabatta',
-    'Flatbread',
-    'Naan bread',
-    'Pita bread',
-    'Sandwich bread',
-    'Sourdough bread',
-    'Tortilla wrap',
-    'Taco shells',
-    'Focaccia',
-    'Brioche bun',
-    'Whole grain bread',
-    'Rye bread',
-    'Bagel',
-    'English muffin',
-  
+    { id: 'baguette', name: 'Baguette', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'burger-bun', name: 'Burger bun', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'ciabatta', name: 'Ciabatta', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'flatbread', name: 'Flatbread', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'naan-bread', name: 'Naan bread', category: 'bread', defaultUnit: PIECE, diet: ['vegetarian', 'pescatarian'] },
+    { id: 'pita-bread', name: 'Pita bread', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'sandwich-bread', name: 'Sandwich bread', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'sourdough-bread', name: 'Sourdough bread', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'tortilla-wrap', name: 'Tortilla wrap', category: 'bread', aliases: ['Wrap'], defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'taco-shells', name: 'Taco shells', category: 'bread', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'focaccia', name: 'Focaccia', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'brioche-bun', name: 'Brioche bun', category: 'bread', defaultUnit: PIECE, diet: ['vegetarian', 'pescatarian'] },
+    { id: 'whole-grain-bread', name: 'Whole grain bread', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'rye-bread', name: 'Rye bread', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'bagel', name: 'Bagel', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'english-muffin', name: 'English muffin', category: 'bread', defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+
     // === Breakfast & cereals ===
-    'Cornflakes',
-    'Muesli',
-    'Granola',
-    'Instant oats',
-    'Porridge oats',
-    'Bran flakes',
-  
+    { id: 'cornflakes', name: 'Cornflakes', category: 'breakfast', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'muesli', name: 'Muesli', category: 'breakfast', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'granola', name: 'Granola', category: 'breakfast', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'instant-oats', name: 'Instant oats', category: 'breakfast', defaultUnit: GRAM, density: 0.38, diet: PLANT_WITH_GLUTEN },
+    { id: 'porridge-oats', name: 'Porridge oats', category: 'breakfast', defaultUnit: GRAM, density: 0.38, diet: PLANT_WITH_GLUTEN },
+    { id: 'bran-flakes', name: 'Bran flakes', category: 'breakfast', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+
     // === Sweet stuff & dessert ===
-    'Brown sugar',
-    'Caster sugar',
-    'Granulated sugar',
-    'Icing sugar',
-    'Powdered sugar',
-    'Jam',
-    'Strawberry jam',
-    'Apricot jam',
-    'Hazelnut spread',
-    'Marzipan',
-    'Candied orange peel',
-    'Candied lemon peel',
-    'Sprinkles',
-    'Caramel sauce',
-    'Chocolate syrup',
-    'Fruit syrup',
-  
+    { id: 'marzipan', name: 'Marzipan', category: 'sweets', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'candied-orange-peel', name: 'Candied orange peel', category: 'sweets', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'candied-lemon-peel', name: 'Candied lemon peel', category: 'sweets', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sprinkles', name: 'Sprinkles', category: 'sweets', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'caramel-sauce', name: 'Caramel sauce', category: 'sweets', defaultUnit: ML, density: 1.3, diet: ['vegetarian', 'pescatarian', 'gluten-free'] },
+    { id: 'chocolate-syrup', name: 'Chocolate syrup', category: 'sweets', defaultUnit: ML, density: 1.3, diet: PLANT_BASED },
+    { id: 'fruit-syrup', name: 'Fruit syrup', category: 'sweets', defaultUnit: ML, density: 1.3, diet: PLANT_BASED },
+
     // === Beverages & misc. ===
-    'Coffee',
-    'Instant coffee',
-    'Black tea',
-    'Green tea',
-    'Herbal tea',
-    'Cocoa drink powder',
-    'Sparkling water',
-    'Still water',
-    'Tonic water',
-    'Lemon juice',
-    'Lime juice',
-    'Orange juice',
-    'Apple juice',
-    'Ginger ale',
-    'Cola',
-    'Iced tea',
-  
+    { id: 'coffee', name: 'Coffee', category: 'beverages', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'instant-coffee', name: 'Instant coffee', category: 'beverages', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'black-tea', name: 'Black tea', category: 'beverages', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'green-tea', name: 'Green tea', category: 'beverages', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'herbal-tea', name: 'Herbal tea', category: 'beverages', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'cocoa-drink-powder', name: 'Cocoa drink powder', category: 'beverages', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'sparkling-water', name: 'Sparkling water', category: 'beverages', aliases: ['Soda water'], defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'still-water', name: 'Still water', category: 'beverages', defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'tonic-water', name: 'Tonic water', category: 'beverages', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'lemon-juice', name: 'Lemon juice', category: 'beverages', defaultUnit: ML, density: 1.04, diet: PLANT_BASED },
+    { id: 'lime-juice', name: 'Lime juice', category: 'beverages', defaultUnit: ML, density: 1.04, diet: PLANT_BASED },
+    { id: 'orange-juice', name: 'Orange juice', category: 'beverages', defaultUnit: ML, density: 1.04, diet: PLANT_BASED },
+    { id: 'apple-juice', name: 'Apple juice', category: 'beverages', defaultUnit: ML, density: 1.04, diet: PLANT_BASED },
+    { id: 'ginger-ale', name: 'Ginger ale', category: 'beverages', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'cola', name: 'Cola', category: 'beverages', defaultUnit: ML, diet: PLANT_BASED },
+    { id: 'iced-tea', name: 'Iced tea', category: 'beverages', defaultUnit: ML, diet: PLANT_BASED },
+
     // === Misc cooking essentials ===
-    'Bread crumbs',
-    'Panko bread crumbs',
-    'Stock cube',
-    'Chicken stock',
-    'Beef stock',
-    'Vegetable stock',
-    'Gelatin powder',
-    'Agar-agar',
-    'Cooking wine',
-    'White cooking wine',
-    'Red cooking wine',
-    'Corn tortillas',
-    'Rice paper sheets',
-    'Toasted sesame seeds',
-    'Croutons',
-    'Frying batter mix',
-    'Tempura batter mix',
-];  
\ No newline at end of file
+    { id: 'water', name: 'Water', category: 'misc', defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'bread-crumbs', name: 'Bread crumbs', category: 'misc', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'panko-bread-crumbs', name: 'Panko bread crumbs', category: 'misc', aliases: ['Panko'], defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'stock-cube', name: 'Stock cube', category: 'misc', aliases: ['Bouillon cube'], defaultUnit: PIECE, diet: PLANT_WITH_GLUTEN },
+    { id: 'chicken-stock', name: 'Chicken stock', category: 'misc', aliases: ['Chicken broth'], defaultUnit: ML, density: 1.0, diet: ['gluten-free', 'lactose-free'] },
+    { id: 'beef-stock', name: 'Beef stock', category: 'misc', aliases: ['Beef broth'], defaultUnit: ML, density: 1.0, diet: ['gluten-free', 'lactose-free'] },
+    { id: 'vegetable-stock', name: 'Vegetable stock', category: 'misc', aliases: ['Vegetable broth'], defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'cooking-wine', name: 'Cooking wine', category: 'misc', defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'white-cooking-wine', name: 'White cooking wine', category: 'misc', defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'red-cooking-wine', name: 'Red cooking wine', category: 'misc', defaultUnit: ML, density: 1.0, diet: PLANT_BASED },
+    { id: 'corn-tortillas', name: 'Corn tortillas', category: 'misc', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'rice-paper-sheets', name: 'Rice paper sheets', category: 'misc', defaultUnit: PIECE, diet: PLANT_BASED },
+    { id: 'toasted-sesame-seeds', name: 'Toasted sesame seeds', category: 'misc', defaultUnit: GRAM, diet: PLANT_BASED },
+    { id: 'croutons', name: 'Croutons', category: 'misc', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'frying-batter-mix', name: 'Frying batter mix', category: 'misc', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+    { id: 'tempura-batter-mix', name: 'Tempura batter mix', category: 'misc', defaultUnit: GRAM, diet: PLANT_WITH_GLUTEN },
+];
+
+/**
+ * Display names of all catalog ingredients in catalog order.
+ *
+ * Kept for consumers that only work with names (pantry staples, price keys).
+ */
+export const INGREDIENTS: readonly string[] = INGREDIENT_CATALOG.map((entry) => entry.name);
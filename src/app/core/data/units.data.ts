@@ -0,0 +1,54 @@
+import type { UnitDefinition } from '../models/unit.model';
+
+/**
+ * Units of measurement known to the app.
+ *
+ * Spoons and cups use the metric kitchen sizes (5 ml, 15 ml, 240 ml); imperial volumes use
+ * US customary sizes. "gram", "ml" and "piece" keep the names stored by earlier versions.
+ */
+export const UNIT_DEFINITIONS: readonly UnitDefinition[] = [
+    { id: 'milligram', name: 'milligram', plural: 'milligrams', abbreviation: 'mg', dimension: 'mass', system: 'metric', toBase: 0.001, aliases: ['milligramm'] },
+    { id: 'gram', name: 'gram', plural: 'grams', abbreviation: 'g', dimension: 'mass', system: 'metric', toBase: 1, aliases: ['gr', 'gramm', 'gramme', 'grammes'] },
+    { id: 'kilogram', name: 'kilogram', plural: 'kilograms', abbreviation: 'kg', dimension: 'mass', system: 'metric', toBase: 1000, aliases: ['kilo', 'kilos', 'kilogramm'] },
+    { id: 'ounce', name: 'ounce', plural: 'ounces', abbreviation: 'oz', dimension: 'mass', system: 'imperial', toBase: 28.35, aliases: ['unze', 'unzen'] },
+    { id: 'pound', name: 'pound', plural: 'pounds', abbreviation: 'lb', dimension: 'mass', system: 'imperial', toBase: 453.6, aliases: ['lbs', 'pfund'] },
+    { id: 'milliliter', name: 'ml', plural: 'ml', abbreviation: 'ml', dimension: 'volume', system: 'metric', toBase: 1, aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+    { id: 'centiliter', name: 'centiliter', plural: 'centiliters', abbreviation: 'cl', dimension: 'volume', system: 'metric', toBase: 10, aliases: ['centilitre', 'centilitres', 'zentiliter'] },
+    { id: 'deciliter', name: 'deciliter', plural: 'deciliters', abbreviation: 'dl', dimension: 'volume', system: 'metric', toBase: 100, aliases: ['decilitre', 'decilitres', 'deziliter'] },
+    { id: 'liter', name: 'liter', plural: 'liters', abbreviation: 'l', dimension: 'volume', system: 'metric', toBase: 1000, aliases: ['litre', 'litres', 'ltr'] },
+    { id: 'teaspoon', name: 'teaspoon', plural: 'teaspoons', abbreviation: 'tsp', dimension: 'volume', system: 'kitchen', toBase: 5, aliases: ['tsps', 'tl', 'teelöffel'] },
+    { id: 'tablespoon', name: 'tablespoon', plural: 'tablespoons', abbreviation: 'tbsp', dimension: 'volume', system: 'kitchen', toBase: 15, aliases: ['tbs', 'tbsps', 'tbl', 'el', 'esslöffel'] },
+    { id: 'cup', name: 'cup', plural: 'cups', abbreviation: 'cup', dimension: 'volume', system: 'kitchen', toBase: 240, aliases: ['tasse', 'tassen'] },
+    { id: 'fluid-ounce', name: 'fluid ounce', plural: 'fluid ounces', abbreviation: 'fl oz', dimension: 'volume', system: 'imperial', toBase: 29.57, aliases: ['floz', 'fl. oz'] },
+    { id: 'pint', name: 'pint', plural: 'pints', abbreviation: 'pt', dimension: 'volume', system: 'imperial', toBase: 473.2, aliases: [] },
+    { id: 'quart', name: 'quart', plural: 'quarts', abbreviation: 'qt', dimension: 'volume', system: 'imperial', toBase: 946.4, aliases: [] },
+    { id: 'gallon', name: 'gallon', plural: 'gallons', abbreviation: 'gal', dimension: 'volume', system: 'imperial', toBase: 3785, aliases: [] },
+    { id: 'pinch', name: 'pinch', plural: 'pinches', abbreviation: '', dimension: 'mass', system: 'kitchen', toBase: 0.5, aliases: ['prise', 'prisen'] },
+    { id: 'piece', name: 'piece', plural: 'pieces', abbreviation: '', dimension: 'count', system: 'universal', toBase: 1, aliases: ['pc', 'pcs', 'x', 'whole', 'stk', 'stück', 'stueck'] },
+    { id: 'clove', name: 'clove', plural: 'cloves', abbreviation: '', dimension: 'count', system: 'universal', toBase: 1, aliases: ['zehe', 'zehen'] },
+    { id: 'slice', name: 'slice', plural: 'slices', abbreviation: '', dimension: 'count', system: 'universal', toBase: 1, aliases: ['scheibe', 'scheiben'] },
+    { id: 'bunch', name: 'bunch', plural: 'bunches', abbreviation: '', dimension: 'count', system: 'universal', toBase: 1, aliases: ['bund'] },
+    { id: 'handful', name: 'handful', plural: 'handfuls', abbreviation: '', dimension: 'count', system: 'universal', toBase: 1, aliases: ['handvoll'] },
+    { id: 'can', name: 'can', plural: 'cans', abbreviation: '', dimension: 'count', system: 'universal', toBase: 1, aliases: ['tin', 'tins', 'dose', 'dosen'] },
+];
+
+/**
+ * Units offered by the unit dropdowns of the ingredient form, in display order.
+ */
+export const FORM_UNIT_IDS: readonly string[] = [
+    'gram',
+    'kilogram',
+    'milliliter',
+    'liter',
+    'teaspoon',
+    'tablespoon',
+    'cup',
+    'ounce',
+    'pound',
+    'piece',
+    'clove',
+    'slice',
+    'bunch',
+    'can',
+    'pinch',
+];
@@ -0,0 +1,41 @@
+import { cookingTimeBudgetFor, exceedsCookingTimeBudget, toCookingTimeCategory } from './cooking-time.mapper';
+
+describe('toCookingTimeCategory', () => {
+  it('derives the category from the minutes', () => {
+    expect(toCookingTimeCategory(15)).toBe('quick');
+    expect(toCookingTimeCategory(20)).toBe('quick');
+    expect(toCookingTimeCategory(21)).toBe('medium');
+    expect(toCookingTimeCategory('40')).toBe('medium');
+    expect(toCookingTimeCategory(75)).toBe('complex');
+  });
+
+  it('returns null for missing or invalid durations', () => {
+    expect(toCookingTimeCategory(undefined)).toBeNull();
+    expect(toCookingTimeCategory(null)).toBeNull();
+    expect(toCookingTimeCategory('')).toBeNull();
+    expect(toCookingTimeCategory('soon')).toBeNull();
+    expect(toCookingTimeCategory(-5)).toBeNull();
+  });
+});
+
+describe('cookingTimeBudgetFor', () => {
+  it('preselects the upper bound of a category', () => {
+    expect(cookingTimeBudgetFor('quick')).toBe(20);
+    expect(cookingTimeBudgetFor('medium')).toBe(40);
+    expect(cookingTimeBudgetFor('complex')).toBe(90);
+    expect(cookingTimeBudgetFor('')).toBe(20);
+  });
+});
+
+describe('exceedsCookingTimeBudget', () => {
+  it('flags recipes taking longer than the budget', () => {
+    expect(exceedsCookingTimeBudget({ cookingTimeMinutes: 35 }, 30)).toBeTrue();
+    expect(exceedsCookingTimeBudget({ cookingTimeMinutes: 30 }, 30)).toBeFalse();
+  });
+
+  it('ignores recipes without minutes and runs without budget', () => {
+    expect(exceedsCookingTimeBudget({}, 30)).toBeFalse();
+    expect(exceedsCookingTimeBudget({ cookingTimeMinutes: 90 }, null)).toBeFalse();
+    expect(exceedsCookingTimeBudget({ cookingTimeMinutes: 90 }, undefined)).toBeFalse();
+  });
+});
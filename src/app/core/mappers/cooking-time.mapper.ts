@@ -0,0 +1,66 @@
+import type { CookingTimeCategory, GeneratedRecipe } from '../models/recipe.model';
+
+/**
+ * Range and step of the cooking time budget slider, in minutes.
+ */
+export const COOKING_TIME_BUDGET_RANGE = { min: 10, max: 120, step: 5 } as const;
+
+/**
+ * Upper bound in minutes of each cooking time category; longer recipes are "complex".
+ */
+const CATEGORY_LIMITS: readonly { category: CookingTimeCategory; maxMinutes: number }[] = [
+  { category: 'quick', maxMinutes: 20 },
+  { category: 'medium', maxMinutes: 40 },
+];
+
+/**
+ * Budget preselected when a category is picked (its upper bound; 90 minutes for "complex").
+ */
+const CATEGORY_BUDGETS: Readonly<Record<CookingTimeCategory, number>> = {
+  quick: 20,
+  medium: 40,
+  complex: 90,
+};
+
+/**
+ * Derives the cooking time category from a duration.
+ *
+ * - up to 20 minutes → `'quick'`
+ * - up to 40 minutes → `'medium'`
+ * - longer → `'complex'`
+ *
+ * @param minutes Total cooking time in minutes.
+ * @returns The category or `null` for missing, negative or non-numeric durations.
+ */
+export function toCookingTimeCategory(minutes: unknown): CookingTimeCategory | null {
+  if (minutes == null || minutes === '') return null;
+  const value = Number(minutes);
+  if (!Number.isFinite(value) || value < 0) return null;
+  return CATEGORY_LIMITS.find((limit) => value <= limit.maxMinutes)?.category ?? 'complex';
+}
+
+/**
+ * Returns the time budget preselected for a cooking time category.
+ *
+ * @param category Cooking time category; unknown values fall back to "quick".
+ * @returns Budget in minutes.
+ */
+export function cookingTimeBudgetFor(category: string): number {
+  return CATEGORY_BUDGETS[category as CookingTimeCategory] ?? CATEGORY_BUDGETS.quick;
+}
+
+/**
+ * Checks whether a recipe takes longer than the time budget it was generated for.
+ *
+ * Recipes without `cookingTimeMinutes` and runs without a budget are never flagged.
+ *
+ * @param recipe Generated recipe.
+ * @param maxMinutes Time budget of the run in minutes.
+ */
+export function exceedsCookingTimeBudget(
+  recipe: Pick<GeneratedRecipe, 'cookingTimeMinutes'>,
+  maxMinutes: number | null | undefined,
+): boolean {
+  if (maxMinutes == null || recipe.cookingTimeMinutes == null) return false;
+  return recipe.cookingTimeMinutes > maxMinutes;
+}
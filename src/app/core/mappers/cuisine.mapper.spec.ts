@@ -0,0 +1,42 @@
+import { isBuiltInCuisine, toCuisineLabel, toCuisineSlug } from './cuisine.mapper';
+
+describe('toCuisineSlug', () => {
+  it('keeps built-in cuisines unchanged', () => {
+    expect(toCuisineSlug('italian')).toBe('italian');
+    expect(toCuisineSlug(' Italian ')).toBe('italian');
+  });
+
+  it('normalizes free-text cuisines into stable slugs', () => {
+    expect(toCuisineSlug('Mexican')).toBe('mexican');
+    expect(toCuisineSlug('Thaï')).toBe('thai');
+    expect(toCuisineSlug('Middle  Eastern!')).toBe('middle-eastern');
+    expect(toCuisineSlug('Greek cuisine')).toBe('greek');
+    expect(toCuisineSlug('middle-eastern')).toBe('middle-eastern');
+  });
+
+  it('returns an empty slug for unusable input', () => {
+    expect(toCuisineSlug('  ?! ')).toBe('');
+    expect(toCuisineSlug('Cuisine')).toBe('');
+    expect(toCuisineSlug(null)).toBe('');
+  });
+
+  it('cuts long names at a word boundary', () => {
+    const slug = toCuisineSlug('Traditional home style cooking from the northern mountain regions');
+    expect(slug.length).toBeLessThanOrEqual(40);
+    expect(slug.endsWith('-')).toBeFalse();
+  });
+});
+
+describe('toCuisineLabel', () => {
+  it('turns slugs into display names', () => {
+    expect(toCuisineLabel('middle-eastern')).toBe('Middle Eastern');
+    expect(toCuisineLabel('thai')).toBe('Thai');
+  });
+});
+
+describe('isBuiltInCuisine', () => {
+  it('distinguishes built-in and custom cuisines', () => {
+    expect(isBuiltInCuisine('fusion')).toBeTrue();
+    expect(isBuiltInCuisine('mexican')).toBeFalse();
+  });
+});
@@ -0,0 +1,70 @@
+import type { BuiltInCuisine } from '../models/recipe.model';
+
+/**
+ * Cuisines with their own images and a fixed place in the cookbook.
+ */
+export const BUILT_IN_CUISINES: readonly BuiltInCuisine[] = [
+  'german',
+  'italian',
+  'indian',
+  'japanese',
+  'gourmet',
+  'fusion',
+];
+
+/**
+ * Maximum length of a cuisine slug; longer input is cut at a word boundary.
+ */
+const MAX_SLUG_LENGTH = 40;
+
+/**
+ * Normalizes a cuisine name entered by the user into a stable slug.
+ *
+ * The slug is what gets sent to the webhook, stored in Firestore and used in
+ * `/cookbook/cuisine/:cuisineName`, so equal cuisines always end up in the same place.
+ *
+ * - Lowercased, accents removed (`'Thaï'` → `'thai'`)
+ * - Every run of other characters becomes a single hyphen (`'Middle Eastern'` → `'middle-eastern'`)
+ * - A trailing "cuisine" is dropped (`'Greek cuisine'` → `'greek'`)
+ *
+ * @param value Cuisine name or slug.
+ * @returns The slug or an empty string if nothing usable remains.
+ */
+export function toCuisineSlug(value: unknown): string {
+  const words = String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  if (words.length > 1 && words[words.length - 1] === 'cuisine') words.pop();
+
+  let slug = words.join('-');
+  if (slug.length > MAX_SLUG_LENGTH) {
+    const cut = slug.lastIndexOf('-', MAX_SLUG_LENGTH);
+    slug = slug.slice(0, cut > 0 ? cut : MAX_SLUG_LENGTH);
+  }
+  return slug === 'cuisine' ? '' : slug;
+}
+
+/**
+ * Builds a display name from a cuisine slug (`'middle-eastern'` → `'Middle Eastern'`).
+ *
+ * @param slug Cuisine slug.
+ */
+export function toCuisineLabel(slug: string): string {
+  return slug
+    .split('-')
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Checks whether a cuisine slug belongs to one of the built-in cuisines.
+ *
+ * @param slug Cuisine slug.
+ */
+export function isBuiltInCuisine(slug: string): slug is BuiltInCuisine {
+  return (BUILT_IN_CUISINES as readonly string[]).includes(slug);
+}
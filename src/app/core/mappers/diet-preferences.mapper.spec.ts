@@ -0,0 +1,31 @@
+import { toDietPreferences, toggleDietPreference } from './diet-preferences.mapper';
+
+describe('toDietPreferences', () => {
+  it('migrates the legacy single-string format', () => {
+    expect(toDietPreferences('Vegetarian')).toEqual(['vegetarian']);
+    expect(toDietPreferences('no preferences')).toEqual([]);
+    expect(toDietPreferences('')).toEqual([]);
+    expect(toDietPreferences(null)).toEqual([]);
+  });
+
+  it('splits combined strings and normalizes spelling', () => {
+    expect(toDietPreferences('Gluten free, vegetarian')).toEqual(['vegetarian', 'gluten-free']);
+    expect(toDietPreferences('halal+low_carb')).toEqual(['halal', 'low-carb']);
+  });
+
+  it('sorts lists canonically and drops unknown values and duplicates', () => {
+    expect(toDietPreferences(['keto', 'paleo', 'Vegan', 'keto', 42])).toEqual(['vegan', 'keto']);
+  });
+});
+
+describe('toggleDietPreference', () => {
+  it('adds and removes combinable preferences', () => {
+    const selected = toggleDietPreference(['vegetarian'], 'gluten-free');
+    expect(selected).toEqual(['vegetarian', 'gluten-free']);
+    expect(toggleDietPreference(selected, 'vegetarian')).toEqual(['gluten-free']);
+  });
+
+  it('keeps at most one base diet', () => {
+    expect(toggleDietPreference(['vegetarian', 'halal'], 'pescatarian')).toEqual(['pescatarian', 'halal']);
+  });
+});
@@ -0,0 +1,62 @@
+import type { DietPreference } from '../models/recipe.model';
+
+/**
+ * All supported diet preferences in their canonical order.
+ *
+ * Lists of diet preferences are always kept in this order, so equal selections produce
+ * equal tags, request payloads and recipe signatures.
+ */
+export const DIET_PREFERENCES: readonly DietPreference[] = [
+  'vegetarian',
+  'vegan',
+  'pescatarian',
+  'gluten-free',
+  'lactose-free',
+  'halal',
+  'keto',
+  'low-carb',
+];
+
+/**
+ * Base diets that contradict each other; at most one of them can be selected.
+ */
+export const EXCLUSIVE_DIET_PREFERENCES: readonly DietPreference[] = ['vegetarian', 'vegan', 'pescatarian'];
+
+/**
+ * Normalizes diet preferences from any source into a canonical list.
+ *
+ * Accepts the current list format as well as the single string stored by older clients,
+ * recipe documents and history entries (`'vegetarian'`, `'no preferences'`, `''`).
+ *
+ * - Values are trimmed and lowercased, spaces and underscores become hyphens
+ *   (`'Gluten free'` → `'gluten-free'`)
+ * - Strings may contain several values separated by `,`, `;`, `/` or `+`
+ * - `'no preferences'`, unknown values and duplicates are dropped
+ * - The result is sorted in the order of `DIET_PREFERENCES`
+ *
+ * @param value Diet preferences in any supported format.
+ * @returns Canonical list (empty for "no preferences").
+ */
+export function toDietPreferences(value: unknown): DietPreference[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;/+]/) : [];
+  const keys = new Set(raw.map((entry) => String(entry ?? '').trim().toLowerCase().replace(/[\s_]+/g, '-')));
+  return DIET_PREFERENCES.filter((diet) => keys.has(diet));
+}
+
+/**
+ * Selects or deselects a diet preference.
+ *
+ * Selecting one of the `EXCLUSIVE_DIET_PREFERENCES` deselects the other ones.
+ *
+ * @param current Currently selected diet preferences.
+ * @param diet Diet preference to toggle.
+ * @returns The new canonical selection.
+ */
+export function toggleDietPreference(current: readonly DietPreference[], diet: DietPreference): DietPreference[] {
+  if (current.includes(diet)) return current.filter((item) => item !== diet);
+
+  const kept = EXCLUSIVE_DIET_PREFERENCES.includes(diet)
+    ? current.filter((item) => !EXCLUSIVE_DIET_PREFERENCES.includes(item))
+    : current;
+  return toDietPreferences([...kept, diet]);
+}
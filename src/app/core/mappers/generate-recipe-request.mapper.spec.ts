@@ -0,0 +1,99 @@
+import { RecipeRequirements } from '../models/recipe.model';
+import { GENERATE_RECIPE_REQUEST_SCHEMA_VERSION, toGenerateRecipeRequest } from './generate-recipe-request.mapper';
+
+describe('toGenerateRecipeRequest', () => {
+  const requirements = (): RecipeRequirements => ({
+    ingredients: [
+      {
+        ingredient: ' Tomato ',
+        servingSize: 200,
+        unit: { name: 'gram', abbreviation: 'g' },
+        isEditMode: true,
+        isUnitDropdownOpen: false,
+      },
+    ],
+    portionsAmount: 2,
+    cooksAmount: 1,
+    cookingTime: 'quick',
+    maxCookingMinutes: 25,
+    cuisine: 'italian',
+    dietPreferences: ['vegetarian', 'gluten-free'],
+    excludedIngredients: [' Peanut ', 'coriander', 'peanut'],
+    recipeCount: 4,
+    language: 'de',
+    equipment: ['hob', 'microwave', 'hob'],
+    budget: 'low',
+  });
+
+  it('pins the wire format of schema version 2', () => {
+    const source = { ...requirements(), pantryStaples: ['Salt', ' Water ', 'salt'] };
+    expect(toGenerateRecipeRequest(source)).toEqual({
+      schemaVersion: 2,
+      ingredients: [{ ingredient: 'Tomato', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }],
+      portionsAmount: 2,
+      cooksAmount: 1,
+      cookingTime: 'quick',
+      maxCookingMinutes: 25,
+      cuisine: 'italian',
+      dietPreferences: ['vegetarian', 'gluten-free'],
+      excludedIngredients: ['Peanut', 'coriander'],
+      pantryStaples: ['Salt', 'Water'],
+      language: 'de',
+      equipment: ['hob', 'microwave'],
+      budget: 'low',
+      count: 4,
+    });
+    expect(GENERATE_RECIPE_REQUEST_SCHEMA_VERSION).toBe(2);
+  });
+
+  it('never serializes UI-only ingredient flags', () => {
+    const json = JSON.stringify(toGenerateRecipeRequest(requirements()));
+    expect(json).not.toContain('isEditMode');
+    expect(json).not.toContain('isUnitDropdownOpen');
+  });
+
+  it('sends unselected preferences as null and no diet preferences as an empty list', () => {
+    const request = toGenerateRecipeRequest({ ...requirements(), cuisine: '', dietPreferences: [] });
+    expect(request.cuisine).toBeNull();
+    expect(request.dietPreferences).toEqual([]);
+  });
+
+  it('migrates the single diet preference of older snapshots', () => {
+    const legacySnapshot = { ...requirements(), dietPreferences: 'vegetarian' } as unknown as RecipeRequirements;
+    expect(toGenerateRecipeRequest(legacySnapshot).dietPreferences).toEqual(['vegetarian']);
+  });
+
+  it('sends an empty pantry when no staples are given', () => {
+    expect(toGenerateRecipeRequest(requirements()).pantryStaples).toEqual([]);
+  });
+
+  it('defaults the budget of older snapshots to any', () => {
+    const { budget, ...legacySnapshot } = requirements();
+    expect(toGenerateRecipeRequest(legacySnapshot as RecipeRequirements).budget).toBe('any');
+  });
+
+  it('sends no time budget for older snapshots', () => {
+    const { maxCookingMinutes, ...legacySnapshot } = requirements();
+    expect(toGenerateRecipeRequest(legacySnapshot as RecipeRequirements).maxCookingMinutes).toBeNull();
+  });
+
+  it('lets the options override the chosen recipe count', () => {
+    const request = toGenerateRecipeRequest(requirements(), { count: 1, excludeTitles: ['Tomato soup'] });
+    expect(request.count).toBe(1);
+    expect(request.excludeTitles).toEqual(['Tomato soup']);
+  });
+
+  it('omits count and excluded titles when neither is known', () => {
+    const { recipeCount, ...legacySnapshot } = requirements();
+    const keys = Object.keys(toGenerateRecipeRequest(legacySnapshot as RecipeRequirements));
+    expect(keys).not.toContain('count');
+    expect(keys).not.toContain('excludeTitles');
+  });
+
+  it('does not share ingredient objects with the source state', () => {
+    const source = requirements();
+    const request = toGenerateRecipeRequest(source);
+    request.ingredients[0].unit.name = 'ml';
+    expect(source.ingredients[0].unit.name).toBe('gram');
+  });
+});
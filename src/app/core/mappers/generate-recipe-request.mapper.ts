@@ -0,0 +1,107 @@
+import type { GenerateRecipeRequest } from '../models/generate-recipe-request.model';
+import type {
+  GenerationRequestOptions,
+  RecipeIngredient,
+  RecipeRequirementsSnapshot,
+} from '../models/recipe.model';
+import { toDietPreferences } from './diet-preferences.mapper';
+
+/**
+ * Schema version of the request built by `toGenerateRecipeRequest`.
+ *
+ * The n8n "Validate & Normalize Input" node branches on this value; bump it whenever
+ * the wire format changes in a way the workflow has to know about.
+ */
+export const GENERATE_RECIPE_REQUEST_SCHEMA_VERSION = 2;
+
+/**
+ * Requirements accepted by the mapper.
+ *
+ * Matches both the live `RecipeRequirements` (with UI ingredients) and the snapshot of
+ * the last run used for regeneration. Pantry staples are device settings and are passed
+ * in alongside the requirements.
+ */
+export type GenerateRecipeRequestSource = RecipeRequirementsSnapshot & {
+  ingredients: readonly RecipeIngredient[];
+  pantryStaples?: readonly string[];
+};
+
+/**
+ * Maps recipe requirements to the versioned generation request.
+ *
+ * - Only whitelisted fields are copied; UI flags like `isEditMode` never reach the wire
+ * - Ingredient names and units are trimmed, serving sizes are converted to numbers
+ * - Empty preference strings become `null`, as does a missing time budget of older snapshots
+ * - Diet preferences are sent as canonical list; single strings of older snapshots are migrated
+ * - Excluded ingredients and pantry staples are trimmed and de-duplicated (case-insensitive)
+ * - `language` defaults to English, `equipment` to no constraints and `budget` to "any" for
+ *   snapshots recorded before they existed
+ * - `count` is the chosen recipe count unless overridden by `options.count`
+ * - Optional `excludeTitles` are only included when given
+ *
+ * @param requirements Current requirements or the snapshot of the last run.
+ * @param options Optional contract extensions (e.g. single-recipe regeneration).
+ * @returns The request body to post to the webhook.
+ */
+export function toGenerateRecipeRequest(
+  requirements: GenerateRecipeRequestSource,
+  options: GenerationRequestOptions = {},
+): GenerateRecipeRequest {
+  const request: GenerateRecipeRequest = {
+    schemaVersion: GENERATE_RECIPE_REQUEST_SCHEMA_VERSION,
+    ingredients: requirements.ingredients.map(toRequestIngredient),
+    portionsAmount: requirements.portionsAmount,
+    cooksAmount: requirements.cooksAmount,
+    cookingTime: optionalText(requirements.cookingTime),
+    maxCookingMinutes: requirements.maxCookingMinutes ?? null,
+    cuisine: optionalText(requirements.cuisine),
+    dietPreferences: toDietPreferences(requirements.dietPreferences),
+    excludedIngredients: uniqueTexts(requirements.excludedIngredients ?? []),
+    pantryStaples: uniqueTexts(requirements.pantryStaples ?? []),
+    language: requirements.language ?? 'en',
+    equipment: [...new Set(requirements.equipment ?? [])],
+    budget: requirements.budget ?? 'any',
+  };
+
+  const count = options.count ?? requirements.recipeCount;
+  if (count !== undefined) request.count = count;
+  if (options.excludeTitles !== undefined) request.excludeTitles = [...options.excludeTitles];
+  return request;
+}
+
+/**
+ * Copies the wire-relevant fields of an ingredient.
+ */
+function toRequestIngredient(item: RecipeIngredient): RecipeIngredient {
+  return {
+    ingredient: item.ingredient.trim(),
+    servingSize: Number(item.servingSize),
+    unit: {
+      name: item.unit.name.trim(),
+      abbreviation: item.unit.abbreviation.trim(),
+    },
+  };
+}
+
+/**
+ * Trims a list of names and removes empty entries and case-insensitive duplicates.
+ */
+function uniqueTexts(values: readonly string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map((value) => value.trim())
+    .filter((value) => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Trims a preference value and maps empty values to `null`.
+ */
+function optionalText(value: string | null | undefined): string | null {
+  const text = (value ?? '').trim();
+  return text ? text : null;
+}
@@ -0,0 +1,122 @@
+import type { UnitOfMeasurement } from '../models/recipe.model';
+import { parseIngredientLine, parseIngredientList, splitIngredientList, UnitLookup } from './ingredient-list.mapper';
+
+const GRAM: UnitOfMeasurement = { name: 'gram', abbreviation: 'g' };
+const CUP: UnitOfMeasurement = { name: 'cup', abbreviation: 'cup' };
+const TABLESPOON: UnitOfMeasurement = { name: 'tablespoon', abbreviation: 'tbsp' };
+const PIECE: UnitOfMeasurement = { name: 'piece', abbreviation: '' };
+
+/**
+ * Small stand-in for the unit registry.
+ */
+const UNITS: Record<string, UnitOfMeasurement> = {
+  g: GRAM,
+  kg: { name: 'kilogram', abbreviation: 'kg' },
+  ml: { name: 'ml', abbreviation: 'ml' },
+  l: { name: 'liter', abbreviation: 'l' },
+  cup: CUP,
+  cups: CUP,
+  tbsp: TABLESPOON,
+  el: TABLESPOON,
+  tsp: { name: 'teaspoon', abbreviation: 'tsp' },
+  'fl oz': { name: 'fluid ounce', abbreviation: 'fl oz' },
+  pcs: PIECE,
+  x: PIECE,
+};
+
+const findUnit: UnitLookup = (word) => UNITS[word.toLowerCase().replace(/\.$/, '')] ?? null;
+
+const parse = (line: string) => parseIngredientLine(line, findUnit);
+
+describe('splitIngredientList', () => {
+  it('splits on line breaks, semicolons and commas', () => {
+    expect(splitIngredientList('200g chicken breast, 2 onions;1 cup rice\n\n  salt \r\npepper')).toEqual([
+      '200g chicken breast',
+      '2 onions',
+      '1 cup rice',
+      'salt',
+      'pepper',
+    ]);
+  });
+
+  it('keeps decimal commas', () => {
+    expect(splitIngredientList('1,5 kg flour, 2 eggs')).toEqual(['1,5 kg flour', '2 eggs']);
+  });
+});
+
+describe('parseIngredientLine', () => {
+  it('reads amount, unit and name', () => {
+    expect(parse(' 200g chicken breast ')).toEqual({
+      source: '200g chicken breast',
+      amount: 200,
+      unit: GRAM,
+      name: 'chicken breast',
+    });
+    expect(parse('500 ml milk')?.unit?.name).toBe('ml');
+    expect(parse('3 pcs tomatoes')?.unit).toEqual(PIECE);
+  });
+
+  it('keeps quantities without unit unit-less', () => {
+    expect(parse('2 onions')).toEqual({ source: '2 onions', amount: 2, unit: null, name: 'onions' });
+  });
+
+  it('keeps the pasted unit as returned by the lookup', () => {
+    expect(parse('1 cup of rice')).toEqual(jasmine.objectContaining({ amount: 1, unit: CUP, name: 'rice' }));
+    expect(parse('1,5 kg flour')).toEqual(jasmine.objectContaining({ amount: 1.5, name: 'flour' }));
+    expect(parse('2 Tbsp. olive oil')?.unit).toEqual(TABLESPOON);
+    expect(parse('2 EL Zucker')).toEqual(jasmine.objectContaining({ unit: TABLESPOON, name: 'Zucker' }));
+    expect(parse('4 fl oz cream')).toEqual(
+      jasmine.objectContaining({ amount: 4, unit: { name: 'fluid ounce', abbreviation: 'fl oz' }, name: 'cream' }),
+    );
+  });
+
+  it('reads fractions, mixed numbers and ranges', () => {
+    expect(parse('1/2 cup milk')?.amount).toBe(0.5);
+    expect(parse('1 1/2 tsp salt')?.amount).toBe(1.5);
+    expect(parse('½ lemon')?.amount).toBe(0.5);
+    expect(parse('1½ cups flour')).toEqual(jasmine.objectContaining({ amount: 1.5, unit: CUP }));
+    expect(parse('1/3 cup sugar')?.amount).toBe(0.33);
+    expect(parse('2-3 carrots')).toEqual(jasmine.objectContaining({ amount: 2, name: 'carrots' }));
+    expect(parse('2x garlic')).toEqual(jasmine.objectContaining({ amount: 2, unit: PIECE, name: 'garlic' }));
+  });
+
+  it('reads quantities at the end of a line', () => {
+    expect(parse('chicken breast 200 g')).toEqual(
+      jasmine.objectContaining({ amount: 200, unit: GRAM, name: 'chicken breast' }),
+    );
+    expect(parse('eggs 6')).toEqual(jasmine.objectContaining({ amount: 6, unit: null, name: 'eggs' }));
+  });
+
+  it('removes bullets, numbering and checkboxes', () => {
+    expect(parse('- 2 onions')?.name).toBe('onions');
+    expect(parse('• salt')?.name).toBe('salt');
+    expect(parse('3. 100g butter')?.amount).toBe(100);
+    expect(parse('- [x] 1 lemon')).toEqual(jasmine.objectContaining({ amount: 1, name: 'lemon' }));
+  });
+
+  it('returns lines without quantity as name only', () => {
+    expect(parse('Salt and pepper')).toEqual({
+      source: 'Salt and pepper',
+      amount: null,
+      unit: null,
+      name: 'Salt and pepper',
+    });
+  });
+
+  it('ignores lines without name and invalid quantities', () => {
+    expect(parse('200g')).toBeNull();
+    expect(parse('- ')).toBeNull();
+    expect(parse('0 eggs')).toEqual(jasmine.objectContaining({ amount: null, name: '0 eggs' }));
+  });
+});
+
+describe('parseIngredientList', () => {
+  it('parses every item and skips empty ones', () => {
+    const lines = parseIngredientList('200g chicken breast, 2 onions, 1 cup rice, , 250', findUnit);
+    expect(lines.map((line) => [line.amount, line.unit?.name ?? null, line.name])).toEqual([
+      [200, 'gram', 'chicken breast'],
+      [2, null, 'onions'],
+      [1, 'cup', 'rice'],
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import type { UnitOfMeasurement } from '../models/recipe.model';
+import type { ParsedIngredientLine } from '../models/ingredient.model';
+
+/**
+ * Looks up a unit word ("g", "Tbsp.", "cups") and returns its canonical unit, or `null` for
+ * words that are not units.
+ */
+export type UnitLookup = (word: string) => UnitOfMeasurement | null;
+
+/**
+ * Values of the vulgar fraction characters.
+ */
+const FRACTIONS: Readonly<Record<string, number>> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅛': 1 / 8,
+};
+
+/**
+ * Quantity: mixed number ("1 1/2"), fraction ("1/2"), number with fraction character
+ * ("1½", "½") or decimal with dot or comma ("1.5", "1,5").
+ */
+const QUANTITY = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d*\s?[½⅓⅔¼¾⅛]|\d+(?:[.,]\d+)?`;
+
+/**
+ * Quantity (with an optional range like "2-3") at the start of a line, followed by the rest.
+ */
+const LEADING_QUANTITY = new RegExp(String.raw`^(${QUANTITY})(?:\s*[-–]\s*(?:${QUANTITY}))?\s*(.*)$`);
+
+/**
+ * Quantity with an optional unit word at the end of a line ("chicken breast 200g").
+ */
+const TRAILING_QUANTITY = new RegExp(String.raw`^(.+?)\s+(${QUANTITY})\s*([^\d\s]+)?$`);
+
+/**
+ * List markers at the start of a line: bullets, numbering and checkboxes.
+ */
+const LIST_MARKER = /^(?:[-*•·–]+\s*|\d+[.)]\s+)?(?:\[[ xX]?\]\s*)?/;
+
+/**
+ * Splits a pasted ingredient list into lines.
+ *
+ * Items are separated by line breaks, semicolons and commas; commas between two digits are
+ * decimal separators ("1,5 kg flour") and do not split.
+ *
+ * @param text Pasted text.
+ * @returns Trimmed, non-empty items.
+ */
+export function splitIngredientList(text: string): string[] {
+  return text
+    .split(/\r?\n|;|(?<!\d),|,(?!\d)/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Parses one line of a pasted ingredient list.
+ *
+ * - Bullets, numbering and checkboxes are removed
+ * - A quantity is read from the start ("200g chicken breast", "1 cup of rice", "2-3 onions")
+ *   or, failing that, from the end of the line ("chicken breast 200 g")
+ * - Unit words known to `findUnit` become the canonical unit ("Tbsp." → tablespoon);
+ *   quantities without unit stay unit-less
+ *
+ * Amounts are rounded to two decimals.
+ *
+ * @param line One item of the list.
+ * @param findUnit Unit lookup, usually `UnitRegistryService.find`.
+ * @returns The parsed line or `null` if no ingredient name is left.
+ */
+export function parseIngredientLine(line: string, findUnit: UnitLookup): ParsedIngredientLine | null {
+  const source = line.trim();
+  const text = source.replace(LIST_MARKER, '').trim();
+  const parsed = parseLeadingQuantity(text, findUnit) ?? parseTrailingQuantity(text, findUnit);
+  const name = cleanName(parsed ? parsed.name : text);
+  if (!name) return null;
+  if (!parsed) return { source, amount: null, unit: null, name };
+  return { source, amount: parsed.amount, unit: parsed.unit, name };
+}
+
+/**
+ * Splits and parses a pasted ingredient list, skipping lines without ingredient name.
+ *
+ * @param text Pasted text.
+ * @param findUnit Unit lookup, usually `UnitRegistryService.find`.
+ * @returns Parsed lines in pasted order.
+ */
+export function parseIngredientList(text: string, findUnit: UnitLookup): ParsedIngredientLine[] {
+  return splitIngredientList(text)
+    .map((line) => parseIngredientLine(line, findUnit))
+    .filter((line): line is ParsedIngredientLine => line !== null);
+}
+
+/**
+ * Reads a quantity and an optional unit of one or two words ("fl oz") from the start of a line.
+ */
+function parseLeadingQuantity(text: string, findUnit: UnitLookup): Omit<ParsedIngredientLine, 'source'> | null {
+  const match = LEADING_QUANTITY.exec(text);
+  if (!match) return null;
+  const [, quantity, rest] = match;
+  const words = rest.split(/\s+/);
+  for (const length of [2, 1]) {
+    const unit = words.length >= length ? findUnit(words.slice(0, length).join(' ')) : null;
+    if (unit) return toAmount(quantity, unit, words.slice(length).join(' ').replace(/^of\s+/i, ''));
+  }
+  return toAmount(quantity, null, rest);
+}
+
+/**
+ * Reads a quantity and an optional unit word from the end of a line.
+ */
+function parseTrailingQuantity(text: string, findUnit: UnitLookup): Omit<ParsedIngredientLine, 'source'> | null {
+  const match = TRAILING_QUANTITY.exec(text);
+  if (!match) return null;
+  const [, name, quantity, word] = match;
+  const unit = word ? findUnit(word) : null;
+  if (word && !unit) return null;
+  return toAmount(quantity, unit, name);
+}
+
+/**
+ * Parses a quantity and combines it with the unit and name; non-positive quantities are rejected.
+ */
+function toAmount(
+  quantity: string,
+  unit: UnitOfMeasurement | null,
+  name: string,
+): Omit<ParsedIngredientLine, 'source'> | null {
+  const value = parseQuantity(quantity);
+  if (!(value > 0)) return null;
+  return { amount: Math.round(value * 100) / 100, unit, name };
+}
+
+/**
+ * Parses a quantity matched by `QUANTITY`; invalid fractions like "1/0" yield `NaN`.
+ */
+function parseQuantity(quantity: string): number {
+  const mixed = /^(\d+)\s+(\d+)\/(\d+)$/.exec(quantity);
+  if (mixed) return Number(mixed[1]) + fraction(mixed[2], mixed[3]);
+  const simple = /^(\d+)\/(\d+)$/.exec(quantity);
+  if (simple) return fraction(simple[1], simple[2]);
+  const glyph = /^(\d*)\s?([½⅓⅔¼¾⅛])$/.exec(quantity);
+  if (glyph) return Number(glyph[1] || 0) + FRACTIONS[glyph[2]];
+  return Number(quantity.replace(',', '.'));
+}
+
+/**
+ * Divides two numeric strings; a zero denominator yields `NaN`.
+ */
+function fraction(numerator: string, denominator: string): number {
+  return Number(denominator) === 0 ? NaN : Number(numerator) / Number(denominator);
+}
+
+/**
+ * Collapses whitespace and removes surrounding punctuation from an ingredient name.
+ */
+function cleanName(name: string): string {
+  return name
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.:\-–]+|[\s,.:\-–]+$/g, '')
+    .trim();
+}
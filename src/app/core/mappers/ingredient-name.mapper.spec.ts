@@ -0,0 +1,48 @@
+import {
+  containsWords,
+  endsWithWords,
+  stripIngredientNotes,
+  toNameStems,
+  toNameWords,
+} from './ingredient-name.mapper';
+
+describe('stripIngredientNotes', () => {
+  it('removes notes in parentheses and after a comma', () => {
+    expect(stripIngredientNotes('Salt, to taste')).toBe('Salt');
+    expect(stripIngredientNotes('Chili (optional) flakes')).toBe('Chili   flakes');
+    expect(stripIngredientNotes('Basil')).toBe('Basil');
+  });
+});
+
+describe('toNameWords', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(toNameWords('Crème-fraîche!')).toEqual(['creme', 'fraiche']);
+    expect(toNameWords('Weißkohl')).toEqual(['weißkohl']);
+    expect(toNameWords(' , ')).toEqual([]);
+  });
+});
+
+describe('toNameStems', () => {
+  it('removes simple plural endings', () => {
+    expect(toNameStems('Cherry tomatoes')).toEqual(['cherry', 'tomato']);
+    expect(toNameStems('Peanuts')).toEqual(['peanut']);
+    expect(toNameStems('Swiss cress')).toEqual(['swiss', 'cress']);
+  });
+});
+
+describe('endsWithWords', () => {
+  it('matches the tail of a name', () => {
+    expect(endsWithWords(['sea', 'salt'], ['salt'])).toBeTrue();
+    expect(endsWithWords(['water', 'chestnut'], ['water'])).toBeFalse();
+    expect(endsWithWords(['salt'], [])).toBeFalse();
+  });
+});
+
+describe('containsWords', () => {
+  it('matches consecutive words anywhere in a name', () => {
+    expect(containsWords(['dark', 'soy', 'sauce'], ['soy', 'sauce'])).toBeTrue();
+    expect(containsWords(['soy', 'dark', 'sauce'], ['soy', 'sauce'])).toBeFalse();
+    expect(containsWords(['nutmeg'], ['nut'])).toBeFalse();
+    expect(containsWords(['nut'], [])).toBeFalse();
+  });
+});
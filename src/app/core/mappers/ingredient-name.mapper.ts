@@ -0,0 +1,71 @@
+/**
+ * Removes notes from an ingredient name: text in parentheses and everything after
+ * the first comma ("Salt (optional)", "Onion, finely chopped").
+ *
+ * @param name Ingredient name as returned by the LLM.
+ * @returns The name without notes.
+ */
+export function stripIngredientNotes(name: string): string {
+  return name.replace(/\([^)]*\)/g, ' ').split(',')[0];
+}
+
+/**
+ * Splits a name into normalized words (lowercase, without accents and punctuation).
+ *
+ * @param name Ingredient name.
+ * @returns The words in their original order.
+ */
+export function toNameWords(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9ß]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Splits a name into normalized word stems (like `toNameWords`, without plural endings).
+ *
+ * @param name Ingredient name.
+ * @returns The word stems in their original order.
+ */
+export function toNameStems(name: string): string[] {
+  return toNameWords(name).map(stemWord);
+}
+
+/**
+ * Removes simple English plural endings ("tomatoes" → "tomato", "peanuts" → "peanut").
+ *
+ * @param word Normalized word.
+ */
+export function stemWord(word: string): string {
+  if (word.length > 4 && word.endsWith('oes')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Checks whether `tail` forms the end of `words` ("sea salt" ends with "salt").
+ *
+ * @returns False for an empty `tail`.
+ */
+export function endsWithWords(words: readonly string[], tail: readonly string[]): boolean {
+  if (!tail.length || tail.length > words.length) return false;
+  const offset = words.length - tail.length;
+  return tail.every((word, index) => words[offset + index] === word);
+}
+
+/**
+ * Checks whether `sequence` appears as consecutive entries in `words`
+ * ("dark soy sauce" contains "soy sauce").
+ *
+ * @returns False for an empty `sequence`.
+ */
+export function containsWords(words: readonly string[], sequence: readonly string[]): boolean {
+  if (!sequence.length) return false;
+  for (let start = 0; start + sequence.length <= words.length; start++) {
+    if (sequence.every((word, offset) => words[start + offset] === word)) return true;
+  }
+  return false;
+}
@@ -1,4 +1,15 @@
 export interface Environment {
     production: boolean;
     webhookUrl: string;
-}
\ No newline at end of file
+    quotaStatusUrl: string;
+    streamRecipes: boolean;
+    generationRetry: RetryPolicy;
+}
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    jitterRatio: number;
+    retryableStatuses: number[];
+}
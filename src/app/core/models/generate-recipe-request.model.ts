@@ -0,0 +1,26 @@
+import type { DietPreference, KitchenEquipment, RecipeBudget, RecipeIngredient, RecipeLanguage } from './recipe.model';
+
+/**
+ * Wire format of a recipe generation request (schema version 2).
+ *
+ * This is the only shape posted to the webhook; it never contains UI-only state.
+ * Unselected preferences are sent as `null` instead of empty strings, no diet preferences
+ * as an empty list, no exact time budget as `null`. Version 1 sent a single diet preference string.
+ */
+export interface GenerateRecipeRequest {
+    schemaVersion: 2;
+    ingredients: RecipeIngredient[];
+    portionsAmount: number;
+    cooksAmount: number;
+    cookingTime: string | null;
+    maxCookingMinutes: number | null;
+    cuisine: string | null;
+    dietPreferences: DietPreference[];
+    excludedIngredients: string[];
+    pantryStaples: string[];
+    language: RecipeLanguage;
+    equipment: KitchenEquipment[];
+    budget: RecipeBudget;
+    count?: number;
+    excludeTitles?: string[];
+}
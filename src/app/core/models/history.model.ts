@@ -0,0 +1,11 @@
+import type { QuotaInfo, RecipeIngredient, RecipeRequirementsSnapshot } from './recipe.model';
+
+export interface GenerationHistoryEntry {
+    id?: number;
+    createdAt: number;
+    requirements: RecipeRequirementsSnapshot;
+    ingredients: RecipeIngredient[];
+    recipeIds: string[];
+    recipeTitles: string[];
+    quota: QuotaInfo | null;
+}
@@ -0,0 +1,129 @@
+import type { DietPreference, UiIngredient, UnitOfMeasurement } from './recipe.model';
+
+/**
+ * Shelf section of a catalog ingredient.
+ */
+export type IngredientCategory =
+    | 'vegetables'
+    | 'fruits'
+    | 'leafy-greens'
+    | 'herbs'
+    | 'meat'
+    | 'fish'
+    | 'dairy'
+    | 'plant-based'
+    | 'grains'
+    | 'baking'
+    | 'oils'
+    | 'nuts'
+    | 'spices'
+    | 'asian-sauces'
+    | 'sauces'
+    | 'canned'
+    | 'legumes'
+    | 'bread'
+    | 'breakfast'
+    | 'sweets'
+    | 'beverages'
+    | 'misc';
+
+/**
+ * Diets an ingredient can be flagged as compatible with.
+ *
+ * Only diets that depend on single ingredients are flagged; halal, keto and low-carb
+ * depend on preparation and amounts.
+ */
+export type IngredientDietFlag = Extract<
+    DietPreference,
+    'vegetarian' | 'vegan' | 'pescatarian' | 'gluten-free' | 'lactose-free'
+>;
+
+/**
+ * Entry of the ingredient catalog.
+ *
+ * - `id` is a stable slug of the name (`'Jalapeño'` → `'jalapeno'`)
+ * - `name` is the display name used in suggestions, pantry staples and price keys
+ * - `aliases` are other names of the same ingredient (`'Courgette'` for "Zucchini")
+ * - `defaultUnit` is the unit the ingredient is usually measured in
+ * - `density` is the typical density in g/ml for liquids, fats and powders
+ * - `diet` lists the diets the ingredient is compatible with
+ */
+export interface CatalogIngredient {
+    id: string;
+    name: string;
+    category: IngredientCategory;
+    aliases?: readonly string[];
+    defaultUnit: UnitOfMeasurement;
+    density?: number;
+    diet: readonly IngredientDietFlag[];
+}
+
+/**
+ * Named group of catalog ingredients ("Shellfish", "Nüsse") used to expand exclusions.
+ *
+ * - `names` are the English and localized names of the group
+ * - The members are all entries of `category` and the entries listed in `ids`
+ */
+export interface IngredientGroup {
+    id: string;
+    names: readonly string[];
+    category?: IngredientCategory;
+    ids?: readonly string[];
+}
+
+/**
+ * Autocomplete suggestion with the catalog data needed to prefill the ingredient form.
+ *
+ * `matchedAlias` is set when the term matched an alias (e.g. "Kartoffel") rather than the
+ * canonical `name` ("Potato") that is sent to the generator.
+ */
+export interface IngredientSuggestion {
+    id: string;
+    name: string;
+    category: IngredientCategory;
+    defaultUnit: UnitOfMeasurement;
+    matchedAlias?: string;
+}
+
+/**
+ * One line of a pasted ingredient list, split into quantity and name.
+ *
+ * - `source` is the trimmed original line
+ * - `amount` is the pasted quantity, or `null` if the line had no quantity
+ * - `unit` is the canonical unit of the registry, or `null` if the line had no unit
+ * - `name` is the remaining ingredient text as typed
+ */
+export interface ParsedIngredientLine {
+    source: string;
+    amount: number | null;
+    unit: UnitOfMeasurement | null;
+    name: string;
+}
+
+/**
+ * Pasted ingredient as shown in the preview before it is added to the recipe requirements.
+ *
+ * `name` is the canonical catalog name if the typed name matched a catalog entry
+ * (`matched`), otherwise the name as typed. `unit` falls back to the default unit of the
+ * matched entry. `amount` stays `null` until the user enters it for lines without quantity.
+ */
+export interface PastedIngredient {
+    source: string;
+    name: string;
+    amount: number | null;
+    unit: UnitOfMeasurement;
+    matched: boolean;
+}
+
+/**
+ * Ingredient of the form list that refers to the same ingredient as an existing row
+ * ("Milk 200 ml" and "milk 0.3 l").
+ *
+ * `merged` is the combined amount in the unit of `existing`, or `null` if the units
+ * cannot be converted into each other.
+ */
+export interface IngredientDuplicate {
+    added: UiIngredient;
+    existing: UiIngredient;
+    merged: number | null;
+}
@@ -0,0 +1,30 @@
+/**
+ * Quantity a catalog price refers to.
+ */
+export type PriceBasis = 'kg' | 'l' | 'piece';
+
+/**
+ * Typical supermarket price of a catalog ingredient in euros.
+ *
+ * `gramsPerPiece` converts between pieces and weight (or volume), e.g. one onion or one
+ * garlic clove; without it, amounts in pieces cannot be priced for weight-based entries.
+ */
+export interface IngredientPrice {
+    price: number;
+    per: PriceBasis;
+    gramsPerPiece?: number;
+}
+
+/**
+ * Estimated shopping cost of a recipe in euros.
+ *
+ * Only the extra ingredients the user still has to buy are counted (pantry staples are
+ * skipped). Ingredients without a known price or with an unconvertible unit are listed in
+ * `unpriced`. `perPortion` is `null` for recipes stored before portions were recorded.
+ */
+export interface RecipeCostEstimate {
+    total: number;
+    perPortion: number | null;
+    portions: number | null;
+    unpriced: string[];
+}
@@ -19,8 +19,20 @@ export interface RecipeRequirements {
     portionsAmount: number;
     cooksAmount: number;
     cookingTime: string;
+    /** Exact time budget in minutes; `null` for runs recorded before it existed. */
+    maxCookingMinutes: number | null;
     cuisine: string;
-    dietPreferences: string;
+    dietPreferences: DietPreference[];
+    excludedIngredients: string[];
+    recipeCount: number;
+    language: RecipeLanguage;
+    equipment: KitchenEquipment[];
+    budget: RecipeBudget;
+}
+  
+export interface GenerationRequestOptions {
+    count?: number;
+    excludeTitles?: string[];
 }
   
 export interface NutritionalInformation {
@@ -48,6 +60,27 @@ export interface QuotaInfo {
       used: number;
       remaining: number;
     };
+    rate?: {
+      limit: number;
+      used: number;
+      remaining: number;
+    };
+    resetAt?: string;
+    rateResetAt?: string;
+}
+
+/**
+ * Quota as seen by the client at a given point in time.
+ *
+ * Buckets whose reset time has passed since the quota was stored are reported as reset.
+ */
+export interface QuotaStatus {
+    quota: QuotaInfo;
+    known: boolean;
+    canGenerate: boolean;
+    blockedBy: 'ip' | 'system' | 'rate' | null;
+    resetAt: number;
+    rateResetAt: number;
 }
   
 export interface GenerateRecipeResponse {
@@ -55,20 +88,93 @@ export interface GenerateRecipeResponse {
     quota: QuotaInfo;
 }
   
+/**
+ * Single message of a streamed generation response.
+ *
+ * Streaming-capable webhooks answer with one JSON object per line (NDJSON or the `data:`
+ * lines of server-sent events). Each recipe is emitted as soon as the workflow produced it,
+ * the quota typically arrives last.
+ *
+ * n8n's streaming response mode wraps these lines into chunks of its own; see
+ * `N8nStreamChunk`.
+ */
+export type GenerateRecipeStreamMessage =
+    | { type: 'recipe'; recipe: GeneratedRecipe }
+    | { type: 'quota'; quota: QuotaInfo }
+    | { type: 'done' };
+
+/**
+ * Chunk of an n8n streaming response (webhook response mode "Streaming").
+ *
+ * n8n sends one chunk per line; the `content` of `item` chunks carries the text written by
+ * the workflow, i.e. the lines of `GenerateRecipeStreamMessage`s. A line may be split across
+ * several `item` chunks.
+ */
+export type N8nStreamChunk =
+    | { type: 'begin' | 'end'; metadata?: unknown }
+    | { type: 'item'; content?: string; metadata?: unknown }
+    | { type: 'error'; content?: string; metadata?: unknown };
+  
 export interface QuotaErrorResponse {
     error: string;
     message: string;
     quota?: QuotaInfo;
 }  
 
+/**
+ * Language the texts of a generated recipe are written in.
+ */
+export type RecipeLanguage = 'en' | 'de';
+
+/**
+ * Kitchen equipment a recipe may require.
+ */
+export type KitchenEquipment =
+  | 'oven'
+  | 'hob'
+  | 'microwave'
+  | 'air fryer'
+  | 'blender'
+  | 'grill'
+  | 'food processor'
+  | 'slow cooker';
+
+/**
+ * How much the ingredients the user still has to buy may cost.
+ */
+export type RecipeBudget = 'low' | 'medium' | 'any';
+
 export type CookingTimeCategory = 'quick' | 'medium' | 'complex';
-export type Cuisine = 'german' | 'italian' | 'indian' | 'japanese' | 'gourmet' | 'fusion';
-export type DietPreference = 'vegetarian' | 'vegan' | 'keto' | 'no preferences';
+
+/**
+ * Cuisines with their own images and a fixed place in the cookbook.
+ */
+export type BuiltInCuisine = 'german' | 'italian' | 'indian' | 'japanese' | 'gourmet' | 'fusion';
+
+/**
+ * Cuisine slug: a built-in cuisine or a free-text cuisine normalized by `toCuisineSlug`
+ * (e.g. "mexican", "middle-eastern").
+ */
+export type Cuisine = BuiltInCuisine | (string & {});
+
+/**
+ * Diet preference of a recipe. Recipes carry a combinable list; an empty list means
+ * "no preferences".
+ */
+export type DietPreference =
+  | 'vegetarian'
+  | 'vegan'
+  | 'pescatarian'
+  | 'gluten-free'
+  | 'lactose-free'
+  | 'halal'
+  | 'keto'
+  | 'low-carb';
 
 export interface RecipePreferences {
   cookingTime: CookingTimeCategory;
   cuisine: Cuisine;
-  dietPreferences: DietPreference;
+  dietPreferences: DietPreference[];
 }
 
 export interface GeneratedRecipe {
@@ -86,11 +192,31 @@ export interface GeneratedRecipe {
   directions: RecipeStep[];
   likes: number;
   recipeSignature: string;
+  language?: RecipeLanguage;
+  equipment?: KitchenEquipment[];
+  portionsAmount?: number;
   createdAt: any; 
   isSeedRecipe: boolean;
 }
 
+/**
+ * Snapshot type representing the minimal set of recipe requirements
+ * needed for displaying tags and metadata in the results UI.
+ *
+ * This intentionally excludes ingredients so UI tags remain stable
+ * even after inputs are reset.
+ */
 export type RecipeRequirementsSnapshot = Pick<
   RecipeRequirements,
-  'cookingTime' | 'cuisine' | 'dietPreferences' | 'portionsAmount' | 'cooksAmount'
+  | 'cookingTime'
+  | 'maxCookingMinutes'
+  | 'cuisine'
+  | 'dietPreferences'
+  | 'portionsAmount'
+  | 'cooksAmount'
+  | 'excludedIngredients'
+  | 'recipeCount'
+  | 'language'
+  | 'equipment'
+  | 'budget'
 >;
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * What a unit measures. Amounts convert freely within a dimension; mass and volume
+ * convert into each other via the density of an ingredient.
+ */
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+/**
+ * Measurement system a unit belongs to.
+ *
+ * - `metric`: gram, litre and their multiples
+ * - `imperial`: ounce, pound, fluid ounce, pint, quart, gallon (US customary sizes)
+ * - `kitchen`: spoons, cups and pinches, used with both systems
+ * - `universal`: counted units like pieces and cloves
+ */
+export type UnitSystem = 'metric' | 'imperial' | 'kitchen' | 'universal';
+
+/**
+ * Entry of the unit registry.
+ *
+ * - `id` is a stable slug (`'tablespoon'`)
+ * - `name` and `abbreviation` form the canonical `UnitOfMeasurement` stored with
+ *   ingredients; counted units have no abbreviation and are displayed by name
+ * - `plural` is the plural of `name` used for display
+ * - `toBase` converts one unit into the base unit of its dimension (gram, millilitre or
+ *   one counted item)
+ * - `aliases` are other spellings recognized in user input and LLM output (plurals,
+ *   German names, abbreviations like "Tbsp" or "EL")
+ */
+export interface UnitDefinition {
+    id: string;
+    name: string;
+    plural: string;
+    abbreviation: string;
+    dimension: UnitDimension;
+    system: UnitSystem;
+    toBase: number;
+    aliases: readonly string[];
+}
+
+/**
+ * Measurement system recipe amounts are displayed in.
+ *
+ * - `metric`: grams, kilograms, milliliters and liters
+ * - `us`: US customary units (ounces, pounds, cups, spoons, quarts)
+ */
+export type MeasurementSystem = 'metric' | 'us';
@@ -0,0 +1,17 @@
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ValidationResult<T> =
+    | { valid: true; value: T; coerced: ValidationIssue[] }
+    | { valid: false; errors: ValidationIssue[] };
+
+export type RejectionReason = 'invalid' | 'excludedIngredient';
+
+export interface RejectedRecipe {
+    index: number;
+    title: string;
+    reason: RejectionReason;
+    errors: ValidationIssue[];
+}
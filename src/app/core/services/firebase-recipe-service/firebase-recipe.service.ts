@@ -13,7 +13,7 @@ import {
   getDoc,
 } from '@angular/fire/firestore';
 import { Observable, from } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { map, tap } from 'rxjs/operators';
 
 import {
   GeneratedRecipe,
@@ -23,6 +23,9 @@ import {
   DietPreference,
   RecipePreferences,
 } from '../../models/recipe.model';
+import { toDietPreferences } from '../../mappers/diet-preferences.mapper';
+import { toCuisineSlug } from '../../mappers/cuisine.mapper';
+import { toCookingTimeCategory } from '../../mappers/cooking-time.mapper';
 import { StateService } from '../state-service/state.service';
 
 @Injectable({ providedIn: 'root' })
@@ -34,6 +37,7 @@ import { StateService } from '../state-service/state.service';
  * - Compute a deterministic `recipeSignature` to identify "equivalent" recipes across sessions
  * - Maintain likes using atomic increments
  * - Load cookbook and seed recipes and normalize preference values for UI consistency
+ * - Migrate documents that still store a single diet preference string to the list format
  *
  * Notes:
  * - Preferences are canonicalized against UI option sets to keep stored data stable.
@@ -91,14 +95,6 @@ export class FirestoreRecipeService {
     return new Set(items);
   }
 
-  /**
-   * Returns allowed diet preference values derived from current UI options (lowercased).
-   */
-  private get allowedDietPreferences(): Set<string> {
-    const items = (this.state.preferencesOptions.dietPreferences ?? []).map((d) => this.lower(d));
-    return new Set(items);
-  }
-
   /**
    * Returns allowed cooking time values derived from current UI options (lowercased).
    */
@@ -116,15 +112,6 @@ export class FirestoreRecipeService {
     return (first as Cuisine) || 'fusion';
   }
 
-  /**
-   * Resolves a default diet preference that is guaranteed to be within the allowed set.
-   */
-  private defaultDietPreference(): DietPreference {
-    if (this.allowedDietPreferences.has('no preferences')) return 'no preferences';
-    const first = this.lower(this.state.preferencesOptions.dietPreferences[0]);
-    return (first as DietPreference) || 'no preferences';
-  }
-
   /**
    * Resolves a default cooking time that is guaranteed to be within the allowed set.
    */
@@ -138,22 +125,50 @@ export class FirestoreRecipeService {
    * Canonicalizes preferences to stable, allowed values.
    *
    * - Values are lowercased
-   * - Values not present in the allowed sets are replaced by defaults
+   * - Cooking times not present in the allowed set are replaced by the default
+   * - Cuisines are normalized into slugs; free-text cuisines are kept, only empty ones
+   *   fall back to the default cuisine
+   * - Diet preferences become a canonical list; legacy single strings are converted
+   *   (`'no preferences'` becomes an empty list)
    *
    * @param input Partial preferences from any source (generated recipes, Firestore, etc.).
    */
   private canonicalPreferences(input?: Partial<RecipePreferences>): RecipePreferences {
-    const cuisine = this.lower(input?.cuisine);
+    const cuisine = toCuisineSlug(this.lower(input?.cuisine));
     const cookingTime = this.lower(input?.cookingTime);
-    const diet = this.lower(input?.dietPreferences);
 
     return {
-      cuisine: (this.allowedCuisines.has(cuisine) ? cuisine : this.defaultCuisine()) as Cuisine,
+      cuisine: cuisine || this.defaultCuisine(),
       cookingTime: (this.allowedCookingTimes.has(cookingTime) ? cookingTime : this.defaultCookingTime()) as CookingTimeCategory,
-      dietPreferences: (this.allowedDietPreferences.has(diet) ? diet : this.defaultDietPreference()) as DietPreference,
+      dietPreferences: toDietPreferences(input?.dietPreferences),
     };
   }
 
+  /**
+   * Canonicalizes the preferences of a recipe for persisting.
+   *
+   * The cooking time category is derived from `cookingTimeMinutes` when present, so the
+   * stored tag matches the actual recipe rather than the requested category. Signatures keep
+   * using the requested category, so recipes stored before keep their identity.
+   *
+   * @param recipe Recipe whose preferences are canonicalized.
+   */
+  private recipePreferences(recipe: GeneratedRecipe): RecipePreferences {
+    const preferences = this.canonicalPreferences(recipe.preferences ?? {});
+    const derived = toCookingTimeCategory(recipe.cookingTimeMinutes);
+    return derived && this.allowedCookingTimes.has(derived) ? { ...preferences, cookingTime: derived } : preferences;
+  }
+
+  /**
+   * Builds the signature fragment for a list of diet preferences.
+   *
+   * An empty list maps to `'no preferences'` and a single preference to its own value, so
+   * recipes stored with the former single-string format keep their signature.
+   */
+  private dietPreferencesKey(diets: readonly DietPreference[]): string {
+    return diets.length ? diets.join('+') : 'no preferences';
+  }
+
   /**
    * Returns an existing signature on the recipe or computes and stores a new one.
    *
@@ -190,16 +205,22 @@ export class FirestoreRecipeService {
    *
    * Signature parts:
    * - normalized title
-   * - canonicalized preferences (cuisine, cookingTime, dietPreferences)
+   * - canonicalized preferences (cuisine, cookingTime, dietPreferences joined with "+")
    * - cooksAmount
    * - normalized ingredient key
+   * - language, only for non-English recipes (English signatures stay unchanged, so recipes
+   *   stored before languages existed keep their identity)
    */
   private buildRecipeSignature(recipe: GeneratedRecipe): string {
     const prefs = this.canonicalPreferences(recipe.preferences ?? {});
     const title = this.lower(recipe.title);
     const cooks = String(recipe.cooksAmount ?? 0);
     const ingredientsKey = this.buildIngredientsKey(recipe);
-    return [title, prefs.cuisine, prefs.cookingTime, prefs.dietPreferences, cooks, ingredientsKey].join('||');
+    const diets = this.dietPreferencesKey(prefs.dietPreferences);
+    const parts = [title, prefs.cuisine, prefs.cookingTime, diets, cooks, ingredientsKey];
+    const language = recipe.language ?? 'en';
+    if (language !== 'en') parts.push(`lang:${language}`);
+    return parts.join('||');
   }
 
   /**
@@ -212,14 +233,35 @@ export class FirestoreRecipeService {
     const qRef = query(this.recipesCollection(), where('recipeSignature', '==', signature));
     const snap = await getDocs(qRef);
     if (snap.empty) return null;
-    const docSnap = snap.docs[0];
-    return { id: docSnap.id, ...(docSnap.data() as GeneratedRecipe) };
+    return this.fromDocument(snap.docs[0].id, snap.docs[0].data());
+  }
+
+  /**
+   * Converts Firestore document data into a recipe with canonical preferences.
+   *
+   * Documents that still store a single diet preference string are migrated to the list
+   * format in the background; a failed update is only logged and retried on the next read.
+   *
+   * @param id Firestore document id.
+   * @param data Raw document data.
+   */
+  private fromDocument(id: string, data: unknown): GeneratedRecipe & { id: string } {
+    const recipe = { id, ...(data as GeneratedRecipe) };
+    const preferences = this.canonicalPreferences(recipe.preferences ?? {});
+
+    if (typeof (recipe.preferences as { dietPreferences?: unknown } | undefined)?.dietPreferences === 'string') {
+      updateDoc(this.buildDocRef(id), { 'preferences.dietPreferences': preferences.dietPreferences }).catch((error) =>
+        console.warn('Could not migrate diet preferences of recipe ' + id, error),
+      );
+    }
+    return { ...recipe, preferences };
   }
 
   /**
    * Builds the payload shape stored in Firestore.
    *
-   * Preferences are canonicalized before persisting.
+   * Preferences are canonicalized before persisting; the cooking time category is derived
+   * from `cookingTimeMinutes` when present.
    */
   private buildRecipePayload(
     recipe: GeneratedRecipe,
@@ -227,17 +269,20 @@ export class FirestoreRecipeService {
     likes: number,
     options?: { isSeed?: boolean },
   ): any {
-    const prefs = this.canonicalPreferences(recipe.preferences ?? {});
+    const prefs = this.recipePreferences(recipe);
     return {
       title: recipe.title,
       cookingTimeText: recipe.cookingTimeText ?? '',
       cookingTimeMinutes: recipe.cookingTimeMinutes ?? null,
       cooksAmount: recipe.cooksAmount,
+      portionsAmount: recipe.portionsAmount ?? null,
       nutritionalInformation: recipe.nutritionalInformation,
       preferences: prefs,
       ingredients: recipe.ingredients,
       directions: recipe.directions,
       recipeSignature: signature,
+      language: recipe.language ?? 'en',
+      equipment: recipe.equipment ?? [],
       likes,
       isSeedRecipe: options?.isSeed ?? false,
       createdAt: Timestamp.now(),
@@ -363,56 +408,26 @@ export class FirestoreRecipeService {
   async getRecipeById(id: string): Promise<GeneratedRecipe | null> {
     const snap = await getDoc(this.buildDocRef(id));
     if (!snap.exists()) return null;
-    return { id: snap.id, ...(snap.data() as GeneratedRecipe) };
-  }
-
-  /**
-   * Canonicalizes preferences for a list of recipes and writes them into state.
-   */
-  private canonicalizeAndStore(recipes: GeneratedRecipe[]): GeneratedRecipe[] {
-    const cleaned = (recipes ?? []).map((r) => ({
-      ...r,
-      preferences: this.canonicalPreferences(r.preferences ?? {}),
-    }));
-    this.state.allRecipes = cleaned;
-    return cleaned;
+    return this.fromDocument(snap.id, snap.data());
   }
 
   /**
    * Loads cookbook recipes, optionally filtered by cuisine.
    *
-   * @param cuisine Optional cuisine filter.
+   * @param cuisine Optional cuisine filter (name or slug).
    * @returns Observable emitting the loaded recipes (with canonicalized preferences).
    */
   loadCookbook(cuisine?: string): Observable<GeneratedRecipe[]> {
-    const cuisineKey = cuisine ? this.lower(cuisine) : '';
+    const cuisineKey = toCuisineSlug(cuisine);
     const base = this.recipesCollection();
     const ref = cuisineKey ? query(base, where('preferences.cuisine', '==', cuisineKey)) : base;
 
     return from(getDocs(ref)).pipe(
-      map((snap) =>
-        snap.docs.map(
-          (docSnap) =>
-            ({
-              id: docSnap.id,
-              ...(docSnap.data() as GeneratedRecipe),
-            }) as GeneratedRecipe,
-        ),
-      ),
-      map((recipes) => this.canonicalizeAndStore(recipes)),
+      map((snap) => snap.docs.map((docSnap) => this.fromDocument(docSnap.id, docSnap.data()))),
+      tap((recipes) => (this.state.allRecipes = recipes)),
     );
   }
 
-  /**
-   * Canonicalizes preferences for a list of recipes without touching global state.
-   */
-  private canonicalizeOnly(recipes: GeneratedRecipe[]): GeneratedRecipe[] {
-    return (recipes ?? []).map((r) => ({
-      ...r,
-      preferences: this.canonicalPreferences(r.preferences ?? {}),
-    }));
-  }
-
   /**
    * Loads seed recipes from Firestore.
    *
@@ -421,16 +436,7 @@ export class FirestoreRecipeService {
   loadSeedRecipes(): Observable<GeneratedRecipe[]> {
     const qRef = query(this.recipesCollection(), where('isSeedRecipe', '==', true));
     return from(getDocs(qRef)).pipe(
-      map((snap) =>
-        snap.docs.map(
-          (docSnap) =>
-            ({
-              id: docSnap.id,
-              ...(docSnap.data() as GeneratedRecipe),
-            }) as GeneratedRecipe,
-        ),
-      ),
-      map((recipes) => this.canonicalizeOnly(recipes)),
+      map((snap) => snap.docs.map((docSnap) => this.fromDocument(docSnap.id, docSnap.data()))),
     );
   }
 }
\ No newline at end of file
@@ -1,16 +1,357 @@
-import { TestBed } from '@angular/core/testing';
+import { TestBed, fakeAsync, flushMicrotasks, tick } from '@angular/core/testing';
+import {
+  HttpEventType,
+  HttpHeaderResponse,
+  HttpHeaders,
+  provideHttpClient,
+} from '@angular/common/http';
+import { HttpTestingController, TestRequest, provideHttpClientTesting } from '@angular/common/http/testing';
 
+import type { GeneratedRecipe } from '../../models/recipe.model';
+import { environment } from '../../../../environments/environment';
 import { GenerateRecipeService } from './generate-recipe.service';
+import { StateService } from '../state-service/state.service';
+import { FirestoreRecipeService } from '../firebase-recipe-service/firebase-recipe.service';
+import { GenerationHistoryService } from '../generation-history-service/generation-history.service';
 
 describe('GenerateRecipe', () => {
   let service: GenerateRecipeService;
+  let state: StateService;
+  let httpMock: HttpTestingController;
+  let synced: string[];
+  let syncGate: Promise<void>;
+
+  const quota = { ip: { limit: 3, used: 1, remaining: 2 }, system: { limit: 12, used: 5, remaining: 7 } };
+
+  const recipe = (title: string) => ({
+    title,
+    cookingTimeText: '20 minutes',
+    cookingTimeMinutes: 20,
+    nutritionalInformation: { calories: 500, proteins: 20, fats: 10, carbs: 70 },
+    preferences: { cookingTime: 'quick', cuisine: 'italian', dietPreferences: ['vegetarian'] },
+    cooksAmount: 1,
+    ingredients: {
+      yourIngredients: [{ ingredient: 'Pasta', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }],
+      extraIngredients: [],
+    },
+    directions: [{ order: 1, title: 'Cook', description: 'Cook the pasta.', cook: 1 }],
+  });
+
+  const line = (message: object) => JSON.stringify(message) + '\n';
+
+  /** Line of n8n's streaming response carrying a piece of the text written by the workflow. */
+  const item = (content: string) => line({ type: 'item', content, metadata: { nodeName: 'Stream Recipe' } });
+
+  /**
+   * Starts a generation run and returns its pending request and collected results.
+   */
+  function generate() {
+    const run = { recipes: null as GeneratedRecipe[] | null, error: null as unknown };
+    service.generateRecipe().subscribe({
+      next: (recipes) => (run.recipes = recipes),
+      error: (error) => (run.error = error),
+    });
+    return { run, req: httpMock.expectOne(environment.webhookUrl) };
+  }
+
+  /**
+   * Starts a streamed answer: sends the header event and returns helpers to deliver chunks
+   * (as progress events) and to complete the response with the full body.
+   */
+  function respond(req: TestRequest, contentType = 'application/x-ndjson') {
+    const headers = new HttpHeaders({ 'Content-Type': contentType });
+    req.event(new HttpHeaderResponse({ headers, status: 200 }));
+    let text = '';
+    return {
+      receive(chunk: string): void {
+        text += chunk;
+        req.event({ type: HttpEventType.DownloadProgress, loaded: text.length, partialText: text });
+        flushMicrotasks();
+      },
+      complete(): void {
+        req.flush(text, { headers });
+        flushMicrotasks();
+      },
+    };
+  }
+
+  /**
+   * Answers a request with streamed chunks and completes it.
+   */
+  function stream(req: TestRequest, chunks: string[], contentType?: string): void {
+    const response = respond(req, contentType);
+    chunks.forEach((chunk) => response.receive(chunk));
+    response.complete();
+  }
+
+  const titles = (recipes: GeneratedRecipe[] | null) => (recipes ?? []).map((item) => item.title);
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    synced = [];
+    syncGate = Promise.resolve();
+    localStorage.removeItem('cac_quota');
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        {
+          provide: FirestoreRecipeService,
+          useValue: {
+            syncGeneratedRecipes: async (recipes: GeneratedRecipe[]) => {
+              synced.push(...recipes.map((recipe) => recipe.title));
+              await syncGate;
+              return recipes.map((recipe) => ({ ...recipe, id: `id-${recipe.title}` }));
+            },
+          },
+        },
+        { provide: GenerationHistoryService, useValue: { record: () => Promise.resolve() } },
+      ],
+    });
     service = TestBed.inject(GenerateRecipeService);
+    state = TestBed.inject(StateService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  const streamRecipes = environment.streamRecipes;
+
+  afterEach(() => {
+    httpMock.verify();
+    environment.streamRecipes = streamRecipes;
+    localStorage.removeItem('cac_quota');
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
-});
\ No newline at end of file
+
+  it('requests and parses a single JSON body while streaming is off', fakeAsync(() => {
+    environment.streamRecipes = false;
+    const { run, req } = generate();
+    expect(req.request.headers.get('Accept')).toBe('application/json');
+    expect(req.request.reportProgress).toBeFalse();
+
+    req.flush(JSON.stringify({ recipes: [recipe('A'), recipe('B')], quota }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+    flushMicrotasks();
+
+    expect(titles(run.recipes)).toEqual(['A', 'B']);
+    expect(state.quota?.ip.remaining).toBe(2);
+  }));
+
+  describe('with streaming enabled', () => {
+    beforeEach(() => (environment.streamRecipes = true));
+
+    it('shows and syncs NDJSON recipes as their lines complete, also across chunks', fakeAsync(() => {
+      const { run, req } = generate();
+      expect(req.request.headers.get('Accept')).toContain('application/x-ndjson');
+
+      const response = respond(req);
+      const second = line({ type: 'recipe', recipe: recipe('B') });
+      response.receive(line({ type: 'recipe', recipe: recipe('A') }) + second.slice(0, 30));
+      expect(titles(state.streamedRecipes)).toEqual(['A']);
+      expect(synced).toEqual(['A']);
+
+      response.receive(second.slice(30) + line({ type: 'quota', quota }));
+      expect(titles(state.streamedRecipes)).toEqual(['A', 'B']);
+      expect(synced).toEqual(['A', 'B']);
+      expect(run.recipes).toBeNull();
+
+      response.complete();
+      expect(titles(run.recipes)).toEqual(['A', 'B']);
+      expect(run.recipes!.map((recipe) => recipe.id)).toEqual(['id-A', 'id-B']);
+      expect(state.quota?.system.remaining).toBe(7);
+    }));
+
+    it('unwraps the chunks of an n8n streaming response', fakeAsync(() => {
+      const { run, req } = generate();
+      const recipeLine = line({ type: 'recipe', recipe: recipe('A') });
+      const response = respond(req, 'application/json; charset=utf-8');
+
+      response.receive(line({ type: 'begin', metadata: {} }) + item(recipeLine.slice(0, 25)));
+      expect(state.streamedRecipes).toEqual([]);
+
+      response.receive(item(recipeLine.slice(25)) + line({ type: 'end', metadata: {} }));
+      expect(titles(state.streamedRecipes)).toEqual(['A']);
+      expect(synced).toEqual(['A']);
+
+      response.receive(item(JSON.stringify({ type: 'quota', quota })) + line({ type: 'end', metadata: {} }));
+      response.complete();
+
+      expect(titles(run.recipes)).toEqual(['A']);
+      expect(state.quota?.ip.remaining).toBe(2);
+    }));
+
+    it('fails the run when n8n reports an error in the stream', fakeAsync(() => {
+      spyOn(console, 'error');
+      const { run, req } = generate();
+      respond(req, 'application/json').receive(line({ type: 'error', content: 'Model overloaded' }));
+
+      expect((run.error as Error).message).toBe('Model overloaded');
+      expect(req.cancelled).toBeTrue();
+      expect(run.recipes).toBeNull();
+    }));
+
+    it('still accepts a single JSON body from a deployment that does not stream', fakeAsync(() => {
+      const { run, req } = generate();
+      req.flush(JSON.stringify({ recipes: [recipe('A'), recipe('B')], quota }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+      flushMicrotasks();
+
+      expect(titles(run.recipes)).toEqual(['A', 'B']);
+      expect(synced).toEqual(['A', 'B']);
+    }));
+
+    it('stops syncing when the run is cancelled', fakeAsync(() => {
+      let releaseSync!: () => void;
+      syncGate = new Promise((resolve) => (releaseSync = resolve));
+      const { run, req } = generate();
+      respond(req).receive(line({ type: 'recipe', recipe: recipe('A') }) + line({ type: 'recipe', recipe: recipe('B') }));
+      expect(titles(state.streamedRecipes)).toEqual(['A', 'B']);
+      expect(synced).withContext('B waits for the sync of A').toEqual(['A']);
+
+      service.cancelGeneration();
+      releaseSync();
+      flushMicrotasks();
+
+      expect(req.cancelled).toBeTrue();
+      expect(synced).toEqual(['A']);
+      expect(state.streamedRecipes).toEqual([]);
+      expect(run.recipes).toBeNull();
+    }));
+
+    it('skips a malformed line and keeps the recipes around it', fakeAsync(() => {
+      const warn = spyOn(console, 'warn');
+      const { run, req } = generate();
+      stream(req, [
+        line({ type: 'recipe', recipe: recipe('A') }),
+        '{"type":"recipe","recipe":{"title":\n',
+        line(recipe('B')),
+      ]);
+
+      expect(run.error).toBeNull();
+      expect(titles(run.recipes)).toEqual(['A', 'B']);
+      expect(warn).toHaveBeenCalledWith('Skipping malformed message in generation stream.', jasmine.any(String));
+    }));
+
+    it('joins the data lines of a server-sent event and ignores event framing', fakeAsync(() => {
+      const { run, req } = generate();
+      const pretty = JSON.stringify({ type: 'recipe', recipe: recipe('A') }, null, 2);
+      const data = pretty.split('\n').map((text) => `data: ${text}`).join('\n');
+
+      stream(
+        req,
+        [': keep-alive\n', 'event: recipe\nid: 1\n', data.slice(0, 40), data.slice(40) + '\n\n', `data: ${JSON.stringify(recipe('B'))}`],
+        'text/event-stream',
+      );
+
+      expect(titles(run.recipes)).toEqual(['A', 'B']);
+      expect(synced).toEqual(['A', 'B']);
+    }));
+
+    it('retries a transient failure before the first recipe', fakeAsync(() => {
+      const { run, req } = generate();
+      req.flush('', { status: 503, statusText: 'Service Unavailable' });
+      expect(state.generationAttempt).toBe(2);
+
+      tick(environment.generationRetry.maxDelayMs);
+      stream(httpMock.expectOne(environment.webhookUrl), [line({ type: 'recipe', recipe: recipe('A') })]);
+
+      expect(titles(run.recipes)).toEqual(['A']);
+    }));
+
+    it('does not retry once recipes have arrived', fakeAsync(() => {
+      spyOn(console, 'error');
+      const { run, req } = generate();
+      respond(req).receive(line({ type: 'recipe', recipe: recipe('A') }));
+
+      req.error(new ProgressEvent('error'));
+      tick(environment.generationRetry.maxDelayMs);
+
+      httpMock.expectNone(environment.webhookUrl);
+      expect(run.error).toBeTruthy();
+      expect(state.streamedRecipes).toEqual([]);
+    }));
+  });
+
+  describe('regenerateRecipe', () => {
+    beforeEach(() => {
+      state.generatedRecipes = ['A', 'B', 'C'].map(
+        (title) =>
+          ({
+            ...recipe(title),
+            id: `id-${title}`,
+            likes: 0,
+            recipeSignature: '',
+            createdAt: null,
+            isSeedRecipe: false,
+          }) as GeneratedRecipe,
+      );
+      state.lastGeneratedIngredients = [{ ingredient: 'Pasta', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }];
+      state.lastGeneratedRequirements = {
+        cookingTime: 'quick',
+        maxCookingMinutes: null,
+        cuisine: 'italian',
+        dietPreferences: ['vegetarian'],
+        portionsAmount: 2,
+        cooksAmount: 1,
+        excludedIngredients: [],
+        recipeCount: 3,
+        language: 'en',
+        equipment: [],
+        budget: 'any',
+      };
+    });
+
+    /**
+     * Starts the regeneration of one recipe and returns its pending request and result.
+     */
+    function regenerate(index: number) {
+      const run = { recipe: null as GeneratedRecipe | null, error: null as unknown };
+      service.regenerateRecipe(index).subscribe({
+        next: (recipe) => (run.recipe = recipe),
+        error: (error) => (run.error = error),
+      });
+      return { run, req: httpMock.expectOne(environment.webhookUrl) };
+    }
+
+    it('asks for one recipe that differs from the current results', fakeAsync(() => {
+      const { req } = regenerate(1);
+
+      expect(req.request.body).toEqual(jasmine.objectContaining({ count: 1, excludeTitles: ['A', 'B', 'C'] }));
+      req.flush(JSON.stringify({ recipes: [recipe('D')], quota }), { headers: { 'Content-Type': 'application/json' } });
+      flushMicrotasks();
+    }));
+
+    it('replaces only the chosen recipe and syncs the replacement once', fakeAsync(() => {
+      const [first, , third] = state.generatedRecipes;
+      const { run, req } = regenerate(1);
+
+      req.flush(JSON.stringify({ recipes: [recipe('D')], quota }), { headers: { 'Content-Type': 'application/json' } });
+      flushMicrotasks();
+
+      expect(run.recipe?.id).toBe('id-D');
+      expect(titles(state.generatedRecipes)).toEqual(['A', 'D', 'C']);
+      expect(state.generatedRecipes[0]).toBe(first);
+      expect(state.generatedRecipes[2]).toBe(third);
+      expect(synced).toEqual(['D']);
+    }));
+
+    it('fails and keeps the results when no valid replacement comes back', fakeAsync(() => {
+      spyOn(console, 'warn');
+      const before = state.generatedRecipes;
+      const { run, req } = regenerate(1);
+
+      req.flush(JSON.stringify({ recipes: [{ title: 'Broken' }], quota }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+      flushMicrotasks();
+
+      expect((run.error as Error).message).toBe('The webhook did not return a valid replacement recipe.');
+      expect(run.recipe).toBeNull();
+      expect(state.generatedRecipes).toBe(before);
+      expect(synced).toEqual([]);
+    }));
+  });
+});
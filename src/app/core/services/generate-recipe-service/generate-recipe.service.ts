@@ -1,18 +1,38 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { Observable, from, throwError } from 'rxjs';
-import { switchMap, tap, map, catchError } from 'rxjs/operators';
+import {
+  HttpClient,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpEventType,
+  HttpHeaders,
+} from '@angular/common/http';
+import { EMPTY, Observable, Subject, defer, from, of, throwError, timer } from 'rxjs';
+import { concatMap, tap, catchError, toArray, takeUntil, retry, map } from 'rxjs/operators';
 
 import { GeneratedRecipe } from '../../models/recipe.model';
 import type {
   GenerateRecipeResponse,
+  GenerateRecipeStreamMessage,
+  GenerationRequestOptions,
+  N8nStreamChunk,
   QuotaErrorResponse,
   QuotaInfo,
+  RecipeLanguage,
 } from '../../models/recipe.model';
+import type { RejectedRecipe, RejectionReason } from '../../models/validation.model';
+import type { GenerateRecipeRequest } from '../../models/generate-recipe-request.model';
+import { toGenerateRecipeRequest } from '../../mappers/generate-recipe-request.mapper';
+import { exceedsCookingTimeBudget } from '../../mappers/cooking-time.mapper';
 import { environment } from '../../../../environments/environment';
 import { StateService } from '../state-service/state.service';
 import { FirestoreRecipeService } from '../firebase-recipe-service/firebase-recipe.service';
 import { ToastService } from '../toast-service/toast.service';
+import { GenerationRetryService } from '../generation-retry-service/generation-retry.service';
+import { RecipeValidationService } from '../recipe-validation-service/recipe-validation.service';
+import { GenerationHistoryService } from '../generation-history-service/generation-history.service';
+import { QuotaService } from '../quota-service/quota.service';
+import { IngredientExclusionService } from '../ingredient-exclusion-service/ingredient-exclusion.service';
+import { PantryService } from '../pantry-service/pantry.service';
 
 /**
  * Webhook endpoint used to generate recipes.
@@ -22,19 +42,74 @@ import { ToastService } from '../toast-service/toast.service';
  */
 const webhookUrl = environment.webhookUrl;
 
+/**
+ * `Accept` header sent with generation requests while `environment.streamRecipes` is on.
+ *
+ * Streaming-capable webhooks answer with NDJSON (or server-sent events) and emit one message
+ * per recipe. Older deployments ignore the header and reply with a single JSON body.
+ */
+const streamAcceptHeader = 'application/x-ndjson, text/event-stream;q=0.9, application/json;q=0.8';
+
+/**
+ * Tracks how much of a streamed response body has already been parsed.
+ *
+ * `requested` tells whether a streamed response was asked for. `eventData` collects the
+ * `data:` lines of a server-sent event until the blank line ending it; `itemText` collects
+ * the content of n8n stream chunks until a line of it is complete.
+ */
+type StreamCursor = {
+  consumed: number;
+  requested: boolean;
+  streaming: boolean;
+  eventData: string[];
+  itemText: string;
+};
+
+/**
+ * Per-run bookkeeping of received and rejected recipes.
+ *
+ * `exposeInState` controls whether received recipes are appended to `state.streamedRecipes`
+ * (full generation runs shown on the generating screen). `excluded` holds the ingredients
+ * the recipes of this run must not contain, `language` the language they were requested in
+ * and `portions` the number of portions they were requested for. `maxCookingMinutes` is the
+ * requested time budget; `overTimeBudget` counts the kept recipes that exceed it.
+ */
+type GenerationRun = {
+  recipeIndex: number;
+  rejected: RejectedRecipe[];
+  exposeInState: boolean;
+  excluded: string[];
+  language: RecipeLanguage;
+  portions: number;
+  maxCookingMinutes: number | null;
+  overTimeBudget: number;
+};
+
 @Injectable({ providedIn: 'root' })
 /**
  * Service responsible for requesting recipe generation from the backend webhook and
  * coordinating all client-side side effects.
  *
  * Key responsibilities:
- * - Sends the current `recipeRequirements` to the configured webhook endpoint.
+ * - Sends the current `recipeRequirements` as a versioned `GenerateRecipeRequest` to the
+ *   configured webhook endpoint.
+ * - Consumes streamed responses (NDJSON / server-sent events) recipe by recipe when
+ *   `environment.streamRecipes` is on, and the classic single JSON response otherwise.
+ * - Validates each returned recipe at runtime and drops invalid ones with a user-facing notice.
+ * - Exposes each valid recipe via state and syncs it into Firestore as soon as it arrives.
  * - Applies success side effects (quota normalization + toast messaging).
- * - Syncs returned recipes into Firestore and stores them in application state.
  * - Snapshots the selected preferences for result UI tags, then resets inputs for the next run.
+ * - Regenerates single recipes of the last run on demand.
+ * - Retries transient failures (network errors, gateway errors) according to the retry policy.
  * - Handles quota errors (HTTP 429) and displays user-friendly toast messages.
+ * - Allows an in-flight generation to be cancelled without side effects.
  */
 export class GenerateRecipeService {
+  /**
+   * Emits when the user cancels the running generation.
+   */
+  private readonly cancelRequested = new Subject<void>();
+
   /**
    * Creates the service.
    *
@@ -42,78 +117,626 @@ export class GenerateRecipeService {
    * @param state Application state container used for requirements, results and quota.
    * @param firestore Firestore service used to sync returned recipes into the cookbook.
    * @param toast Toast service used for user-facing feedback (success/error/quota).
+   * @param retryPolicy Service deciding whether and when failed requests are retried.
+   * @param validation Service validating and coercing the webhook payloads.
+   * @param history Service persisting successful runs in the local generation history.
+   * @param quotaService Service normalizing and persisting quota information.
+   * @param exclusions Service checking recipes against excluded ingredients.
+   * @param pantry Service providing the pantry staples sent with every request.
    */
   constructor(
     private readonly http: HttpClient,
     private readonly state: StateService,
     private readonly firestore: FirestoreRecipeService,
     private readonly toast: ToastService,
+    private readonly retryPolicy: GenerationRetryService,
+    private readonly validation: RecipeValidationService,
+    private readonly history: GenerationHistoryService,
+    private readonly quotaService: QuotaService,
+    private readonly exclusions: IngredientExclusionService,
+    private readonly pantry: PantryService,
   ) {}
 
   /**
    * Generates recipes via the backend webhook.
    *
    * Flow:
-   * 1) POST current requirements to the webhook.
-   * 2) On success, normalize and store quota + show a success toast.
-   * 3) Sync returned recipes to Firestore, then store them in state.
-   * 4) Snapshot the selected preferences for the results UI and reset inputs.
+   * 1) POST current requirements to the webhook, announcing streaming support if enabled. Transient
+   *    failures before the first message are retried with backoff (see `GenerationRetryService`).
+   * 2) For every recipe message: validate it and check it against the excluded ingredients
+   *    (invalid or offending recipes are dropped and reported), append it to
+   *    `state.streamedRecipes` so the generating screen can show it immediately and sync it
+   *    into Firestore (one recipe after the other, in the order they arrived).
+   * 3) Store quota messages in state.
+   * 4) Once the response is complete and all recipes are synced, store them as the generation
+   *    result, show a success toast, snapshot the selected preferences, record the run in the
+   *    local history and reset inputs.
    * 5) On error, detect quota exceeded (HTTP 429 with a quota body) and show appropriate messaging.
    *
+   * Calling `cancelGeneration()` aborts the request and completes the returned observable
+   * without emitting; steps 2–5 are skipped for everything that has not happened yet, so
+   * recipes whose sync has not started are not written.
+   *
    * @returns Observable that emits the final (synced) list of generated recipes.
    */
   generateRecipe(): Observable<GeneratedRecipe[]> {
-    return this.http
-      .post<GenerateRecipeResponse>(webhookUrl, this.requestPayload())
-      .pipe(
-        tap((res) => this.applySuccessSideEffects(res)),
-        switchMap((res) => this.syncAndStoreRecipes(res.recipes)),
-        tap(() => {
-          this.state.lastGeneratedRequirements =
-            this.state.snapshotCurrentRequirements();
-          this.state.resetRecipeRequirements();
-        }),
-        catchError((err) => this.handleRequestError(err)),
-      );
+    const run: GenerationRun = {
+      recipeIndex: 0,
+      rejected: [],
+      exposeInState: true,
+      excluded: this.state.recipeRequirements.excludedIngredients,
+      language: this.state.recipeRequirements.language,
+      portions: this.state.recipeRequirements.portionsAmount,
+      maxCookingMinutes: this.state.recipeRequirements.maxCookingMinutes,
+      overTimeBudget: 0,
+    };
+    this.state.streamedRecipes = [];
+    this.state.generationAttempt = 1;
+
+    return this.requestRecipeStream(this.requestPayload()).pipe(
+      concatMap((message) => this.handleStreamMessage(message, run)),
+      concatMap((recipe) => this.syncRecipe(recipe)),
+      toArray(),
+      tap((recipes) => this.completeGeneration(recipes, run)),
+      catchError((err) => this.handleRequestError(err)),
+      takeUntil(this.cancelRequested),
+    );
+  }
+
+  /**
+   * Cancels the generation that is currently in progress.
+   *
+   * Unsubscribes from the webhook request (aborting the HTTP call), so no toast is shown and
+   * the current `recipeRequirements` stay untouched. Recipes streamed so far are discarded
+   * from the generating screen; recipes that were not synced yet are not written anymore.
+   */
+  cancelGeneration(): void {
+    this.cancelRequested.next();
+    this.state.streamedRecipes = [];
   }
 
   /**
    * Builds the payload for the recipe generation request.
    *
-   * @returns The current recipe requirements from application state.
+   * @returns The versioned request built from the current recipe requirements and pantry staples.
    */
-  private requestPayload() {
-    return this.state.recipeRequirements;
+  private requestPayload(): GenerateRecipeRequest {
+    return toGenerateRecipeRequest({
+      ...this.state.recipeRequirements,
+      pantryStaples: this.pantry.staples,
+    });
   }
 
   /**
-   * Applies side effects after a successful generation response.
+   * Replaces a single recipe of the last generation run with a new one.
    *
-   * - Normalizes the quota object (ensuring safe numeric values and defaults)
-   * - Stores the quota in application state
-   * - Shows a success toast with remaining quota info
+   * The request reuses the stored requirements and ingredients of the last run, asks the
+   * webhook for exactly one recipe and excludes the titles of all current results.
+   * The new recipe is validated, synced into Firestore once the response is complete and
+   * replaces only the recipe at
+   * `index` in `state.generatedRecipes`; the current inputs are left untouched.
    *
-   * @param res Successful response payload from the webhook.
+   * @param index Position of the recipe to replace in `state.generatedRecipes`.
+   * @returns Observable emitting the new (synced) recipe.
    */
-  private applySuccessSideEffects(res: GenerateRecipeResponse): void {
-    const quota = this.normalizeQuota(res.quota);
-    this.state.quota = quota;
-    this.showSuccessToast(quota);
+  regenerateRecipe(index: number): Observable<GeneratedRecipe> {
+    const requirements = this.state.lastGeneratedRequirements;
+    if (!requirements || !this.state.generatedRecipes[index]) {
+      return throwError(() => new Error('No generated recipe to replace at index ' + index));
+    }
+
+    const run: GenerationRun = {
+      recipeIndex: 0,
+      rejected: [],
+      exposeInState: false,
+      excluded: requirements.excludedIngredients ?? [],
+      language: requirements.language ?? 'en',
+      portions: requirements.portionsAmount,
+      maxCookingMinutes: requirements.maxCookingMinutes ?? null,
+      overTimeBudget: 0,
+    };
+    const payload = toGenerateRecipeRequest(
+      {
+        ...requirements,
+        ingredients: this.state.lastGeneratedIngredients,
+        pantryStaples: this.pantry.staples,
+      },
+      this.regenerationOptions(),
+    );
+
+    return this.requestRecipeStream(payload).pipe(
+      concatMap((message) => this.handleStreamMessage(message, run)),
+      toArray(),
+      map((recipes) => this.firstRegeneratedRecipe(recipes)),
+      concatMap((recipe) => this.syncRecipe(recipe)),
+      tap((recipe) => this.replaceGeneratedRecipe(index, recipe)),
+      catchError((err) => this.handleRequestError(err)),
+      takeUntil(this.cancelRequested),
+    );
+  }
+
+  /**
+   * Builds the contract extension asking for a single recipe that differs from all current results.
+   *
+   * @returns Request options for a single-recipe regeneration.
+   */
+  private regenerationOptions(): Required<GenerationRequestOptions> {
+    return {
+      count: 1,
+      excludeTitles: this.state.generatedRecipes.map((recipe) => recipe.title),
+    };
+  }
+
+  /**
+   * Picks the regenerated recipe from the kept recipes of a regeneration run.
+   *
+   * @param recipes Valid recipes returned by the webhook.
+   * @returns The first recipe.
+   * @throws Error if the webhook did not return any valid recipe.
+   */
+  private firstRegeneratedRecipe(recipes: GeneratedRecipe[]): GeneratedRecipe {
+    if (!recipes[0]) throw new Error('The webhook did not return a valid replacement recipe.');
+    return recipes[0];
+  }
+
+  /**
+   * Syncs a single kept recipe into Firestore.
+   *
+   * @param recipe Validated recipe.
+   * @returns Observable emitting the recipe with its Firestore identity.
+   */
+  private syncRecipe(recipe: GeneratedRecipe): Observable<GeneratedRecipe> {
+    return from(this.firestore.syncGeneratedRecipes([recipe])).pipe(map(([synced]) => synced));
   }
 
   /**
-   * Syncs generated recipes into Firestore and stores the synced result in state.
+   * Replaces a recipe in the current results and confirms it with a toast.
    *
-   * @param recipes Raw recipes returned by the generation webhook (may be undefined/null).
-   * @returns Observable emitting the synced recipe list.
+   * @param index Position of the recipe to replace.
+   * @param recipe New recipe.
    */
-  private syncAndStoreRecipes(
-    recipes: GeneratedRecipe[],
-  ): Observable<GeneratedRecipe[]> {
-    return from(this.firestore.syncGeneratedRecipes(recipes ?? [])).pipe(
-      tap((synced) => (this.state.generatedRecipes = synced)),
-      map((synced) => synced),
+  private replaceGeneratedRecipe(index: number, recipe: GeneratedRecipe): void {
+    this.state.generatedRecipes = this.state.generatedRecipes.map((current, i) =>
+      i === index ? recipe : current,
     );
+    this.toast.show({
+      title: 'Rezept ersetzt',
+      message: this.buildQuotaMessage(this.state.quota ?? this.quotaService.normalize(undefined)),
+    });
+  }
+
+  /**
+   * Sends the generation request and converts the response into stream messages.
+   *
+   * The request is observed as raw events so partial response text can be parsed while
+   * the webhook is still producing recipes. Streaming is only requested (and progress only
+   * reported) while `environment.streamRecipes` is on.
+   *
+   * @param payload Request body sent to the webhook.
+   * @returns Observable emitting one message per recipe/quota entry of the response.
+   */
+  private requestRecipeStream(payload: GenerateRecipeRequest): Observable<GenerateRecipeStreamMessage> {
+    const run = { received: 0 };
+
+    return defer(() => {
+      const streamRecipes = environment.streamRecipes;
+      const cursor: StreamCursor = {
+        consumed: 0,
+        requested: streamRecipes,
+        streaming: false,
+        eventData: [],
+        itemText: '',
+      };
+
+      return this.http
+        .post(webhookUrl, payload, {
+          headers: new HttpHeaders({ Accept: streamRecipes ? streamAcceptHeader : 'application/json' }),
+          observe: 'events',
+          reportProgress: streamRecipes,
+          responseType: 'text',
+        })
+        .pipe(concatMap((event) => from(this.messagesFromEvent(event, cursor))));
+    }).pipe(
+      tap(() => run.received++),
+      retry({
+        count: this.retryPolicy.policy.maxRetries,
+        delay: (error, retryCount) => this.scheduleRetry(error, retryCount, run.received),
+      }),
+    );
+  }
+
+  /**
+   * Decides whether a failed request is retried and delays the retry accordingly.
+   *
+   * Once the webhook delivered any message, the request is not retried anymore, as
+   * repeating it would duplicate recipes that were already shown.
+   *
+   * @param error Error the request failed with.
+   * @param retryCount 1-based number of the retry about to be performed.
+   * @param received Number of messages received during this run so far.
+   * @returns Observable that triggers the retry, or rethrows the error.
+   */
+  private scheduleRetry(error: unknown, retryCount: number, received: number): Observable<number> {
+    if (received > 0 || !this.retryPolicy.shouldRetry(error, retryCount)) {
+      return throwError(() => error);
+    }
+    this.state.generationAttempt = retryCount + 1;
+    return timer(this.retryPolicy.delayFor(retryCount));
+  }
+
+  /**
+   * Extracts all complete stream messages from a single HTTP event.
+   *
+   * - Header events decide whether the response is streamed: NDJSON and server-sent events
+   *   always are, JSON only if streaming was requested (n8n streams with a JSON content type).
+   * - Progress events yield every fully received line of a streamed body.
+   * - The final response event flushes the remaining text (streamed) or parses the
+   *   whole body as a classic `GenerateRecipeResponse` (fallback).
+   *
+   * @param event Raw HTTP event.
+   * @param cursor Parse position of the current response.
+   * @returns Messages contained in this event (possibly empty).
+   */
+  private messagesFromEvent(
+    event: HttpEvent<string>,
+    cursor: StreamCursor,
+  ): GenerateRecipeStreamMessage[] {
+    switch (event.type) {
+      case HttpEventType.ResponseHeader:
+        cursor.streaming = this.isStreamedResponse(event.headers.get('Content-Type'), cursor);
+        return [];
+      case HttpEventType.DownloadProgress:
+        return cursor.streaming ? this.takeCompleteLines(event.partialText ?? '', cursor) : [];
+      case HttpEventType.Response:
+        return this.messagesFromBody(event.body ?? '', event.headers.get('Content-Type'), cursor);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Determines whether a content type denotes a streamed response.
+   *
+   * @param contentType Value of the `Content-Type` response header.
+   * @returns True for NDJSON and server-sent events.
+   */
+  private isStreamContentType(contentType: string | null): boolean {
+    const type = (contentType ?? '').toLowerCase();
+    return type.includes('ndjson') || type.includes('event-stream') || type.includes('jsonl');
+  }
+
+  /**
+   * Determines whether a response is parsed as a stream.
+   *
+   * @param contentType Value of the `Content-Type` response header.
+   * @param cursor Parse position of the current response.
+   * @returns True for stream content types, and for JSON if streaming was requested.
+   */
+  private isStreamedResponse(contentType: string | null, cursor: StreamCursor): boolean {
+    if (this.isStreamContentType(contentType)) return true;
+    return cursor.requested && (contentType ?? '').toLowerCase().includes('json');
+  }
+
+  /**
+   * Parses all lines of the partial response text that are complete and not yet consumed.
+   *
+   * @param text Response text received so far.
+   * @param cursor Parse position of the current response (advanced in place).
+   * @returns Messages contained in the newly completed lines.
+   */
+  private takeCompleteLines(
+    text: string,
+    cursor: StreamCursor,
+  ): GenerateRecipeStreamMessage[] {
+    const end = text.lastIndexOf('\n') + 1;
+    if (end <= cursor.consumed) return [];
+    const chunk = text.slice(cursor.consumed, end);
+    cursor.consumed = end;
+    return this.parseStreamChunk(chunk, cursor);
+  }
+
+  /**
+   * Converts the final response body into stream messages.
+   *
+   * @param body Complete response body.
+   * @param contentType Value of the `Content-Type` response header.
+   * @param cursor Parse position of the current response.
+   * @returns Remaining streamed messages (including an unterminated last event or n8n
+   *   chunk content), or all messages of a classic JSON response.
+   */
+  private messagesFromBody(
+    body: string,
+    contentType: string | null,
+    cursor: StreamCursor,
+  ): GenerateRecipeStreamMessage[] {
+    if (cursor.streaming || this.isStreamContentType(contentType)) {
+      return [
+        ...this.parseStreamChunk(body.slice(cursor.consumed), cursor),
+        ...this.parseStreamPayload(this.takeEventData(cursor), cursor),
+        ...this.parseStreamPayload(this.takeItemText(cursor), cursor),
+      ];
+    }
+    return this.messagesFromResponse(JSON.parse(body) as GenerateRecipeResponse);
+  }
+
+  /**
+   * Splits a classic (non-streamed) response into the same messages a stream would emit.
+   *
+   * @param res Complete generation response.
+   * @returns One message per recipe, followed by the quota message.
+   */
+  private messagesFromResponse(res: GenerateRecipeResponse): GenerateRecipeStreamMessage[] {
+    const recipes = (res?.recipes ?? []).map(
+      (recipe) => ({ type: 'recipe', recipe }) as GenerateRecipeStreamMessage,
+    );
+    return [...recipes, { type: 'quota', quota: res?.quota }];
+  }
+
+  /**
+   * Parses a chunk of NDJSON or server-sent event lines.
+   *
+   * @param chunk One or more lines; a trailing newline ends the last line.
+   * @param cursor Parse position of the current response (collects pending event data).
+   * @returns Messages contained in the chunk.
+   */
+  private parseStreamChunk(chunk: string, cursor: StreamCursor): GenerateRecipeStreamMessage[] {
+    const lines = chunk.split(/\r?\n/);
+    if (chunk.endsWith('\n')) lines.pop();
+    return lines.flatMap((line) => this.parseStreamPayload(this.readStreamLine(line, cursor), cursor));
+  }
+
+  /**
+   * Reads a single stream line and returns the payload it completes.
+   *
+   * - NDJSON: every non-blank line is a payload of its own.
+   * - Server-sent events: `data:` lines are collected until the blank line ending the event
+   *   and joined, so one JSON value may span several lines; `event:`/`id:`/`retry:` fields and
+   *   comments are ignored.
+   *
+   * @param line Raw line without trailing newline.
+   * @param cursor Parse position of the current response (collects pending event data).
+   * @returns The completed payload text, or an empty string if the line completes none.
+   */
+  private readStreamLine(line: string, cursor: StreamCursor): string {
+    const text = line.trim();
+    if (!text) return this.takeEventData(cursor);
+    if (text.startsWith(':') || /^(event|id|retry):/.test(text)) return '';
+    if (text.startsWith('data:')) {
+      cursor.eventData.push(text.slice(5).trim());
+      return '';
+    }
+    return text;
+  }
+
+  /**
+   * Returns the collected data of the current server-sent event and starts a new one.
+   *
+   * @param cursor Parse position of the current response.
+   * @returns The joined `data:` lines (empty if there are none).
+   */
+  private takeEventData(cursor: StreamCursor): string {
+    const data = cursor.eventData.join('\n');
+    cursor.eventData = [];
+    return data;
+  }
+
+  /**
+   * Returns the incomplete rest of the n8n chunk content and starts over.
+   *
+   * @param cursor Parse position of the current response.
+   * @returns Chunk content not yet ended by a line break (empty if there is none).
+   */
+  private takeItemText(cursor: StreamCursor): string {
+    const text = cursor.itemText;
+    cursor.itemText = '';
+    return text.trim();
+  }
+
+  /**
+   * Parses the JSON payload of a stream line or event.
+   *
+   * Malformed payloads are skipped with a warning, so a single broken line does not abort
+   * the recipes before and after it.
+   *
+   * @param text Payload text.
+   * @param cursor Parse position of the current response (collects n8n chunk content).
+   * @returns The parsed messages; empty for empty, end-of-stream and malformed payloads.
+   */
+  private parseStreamPayload(text: string, cursor: StreamCursor): GenerateRecipeStreamMessage[] {
+    if (!text || text === '[DONE]') return [];
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      console.warn('Skipping malformed message in generation stream.', text);
+      return [];
+    }
+    if (this.isN8nStreamChunk(value)) return this.readN8nStreamChunk(value, cursor);
+    return this.toStreamMessages(value);
+  }
+
+  /**
+   * Determines whether a parsed line is a chunk of n8n's streaming response.
+   *
+   * @param value Parsed JSON value of a line.
+   */
+  private isN8nStreamChunk(value: unknown): value is N8nStreamChunk {
+    const type = (value as { type?: unknown } | null)?.type;
+    return type === 'begin' || type === 'item' || type === 'end' || type === 'error';
+  }
+
+  /**
+   * Applies a chunk of n8n's streaming response.
+   *
+   * The content of `item` chunks is collected and parsed line by line; `end` flushes the
+   * content of the finished node. `error` chunks fail the request.
+   *
+   * @param chunk n8n stream chunk.
+   * @param cursor Parse position of the current response (collects the chunk content).
+   * @returns Messages completed by this chunk.
+   * @throws Error if the workflow reported an error.
+   */
+  private readN8nStreamChunk(chunk: N8nStreamChunk, cursor: StreamCursor): GenerateRecipeStreamMessage[] {
+    if (chunk.type === 'error') throw new Error(chunk.content || 'The recipe workflow failed.');
+    if (chunk.type === 'end') return this.parseStreamPayload(this.takeItemText(cursor), cursor);
+    if (chunk.type !== 'item') return [];
+
+    cursor.itemText += chunk.content ?? '';
+    const end = cursor.itemText.lastIndexOf('\n') + 1;
+    if (end === 0) return [];
+    const lines = cursor.itemText.slice(0, end).split(/\r?\n/);
+    cursor.itemText = cursor.itemText.slice(end);
+    return lines.flatMap((line) => this.parseStreamPayload(line.trim(), cursor));
+  }
+
+  /**
+   * Interprets a parsed stream line as stream messages.
+   *
+   * Bare recipe objects (without a `type` discriminator) are accepted as recipe messages,
+   * a classic `GenerateRecipeResponse` as all of its messages.
+   *
+   * @param value Parsed JSON value of a line.
+   * @returns The stream messages; empty for unknown message types.
+   */
+  private toStreamMessages(value: unknown): GenerateRecipeStreamMessage[] {
+    if (!value || typeof value !== 'object') return [];
+    const message = value as Partial<GenerateRecipeStreamMessage> & { title?: unknown; recipes?: unknown };
+    if (message.type === 'recipe' || message.type === 'quota' || message.type === 'done') {
+      return [message as GenerateRecipeStreamMessage];
+    }
+    if (!message.type && typeof message.title === 'string') {
+      return [{ type: 'recipe', recipe: value as GeneratedRecipe }];
+    }
+    if (!message.type && Array.isArray(message.recipes)) {
+      return this.messagesFromResponse(value as GenerateRecipeResponse);
+    }
+    return [];
+  }
+
+  /**
+   * Applies a single stream message.
+   *
+   * - Recipes are validated, tagged with the requested language and portions (unless the
+   *   workflow already did) and checked against the excluded ingredients; valid ones are
+   *   kept (and appended to `state.streamedRecipes` for full runs), invalid
+   *   ones and ones containing an excluded ingredient are recorded as rejected. Recipes
+   *   taking longer than the time budget are kept but counted for the success toast.
+   * - Quota messages are validated, normalized and stored in state.
+   *
+   * @param message Stream message to apply.
+   * @param run Bookkeeping of the current generation run.
+   * @returns Observable emitting the kept recipe for valid recipe messages, otherwise nothing.
+   */
+  private handleStreamMessage(
+    message: GenerateRecipeStreamMessage,
+    run: GenerationRun,
+  ): Observable<GeneratedRecipe> {
+    if (message.type === 'quota') {
+      this.applyQuota(message.quota);
+      return EMPTY;
+    }
+    if (message.type !== 'recipe') return EMPTY;
+
+    const index = run.recipeIndex++;
+    const path = `recipes[${index}]`;
+    const result = this.validation.validateRecipe(message.recipe, path);
+    if (!result.valid) {
+      this.rejectRecipe(message.recipe, index, result.errors, run, 'invalid');
+      return EMPTY;
+    }
+    const recipe: GeneratedRecipe = {
+      ...result.value,
+      language: result.value.language ?? run.language,
+      portionsAmount: result.value.portionsAmount ?? run.portions,
+    };
+    const violations = this.exclusions.findExcludedIngredients(recipe, run.excluded, path);
+    if (violations.length > 0) {
+      this.rejectRecipe(message.recipe, index, violations, run, 'excludedIngredient');
+      return EMPTY;
+    }
+    if (exceedsCookingTimeBudget(recipe, run.maxCookingMinutes)) run.overTimeBudget++;
+    if (run.exposeInState) this.state.streamedRecipes = [...this.state.streamedRecipes, recipe];
+    return of(recipe);
+  }
+
+  /**
+   * Validates quota information and stores it (state + persisted across reloads).
+   *
+   * @param quota Quota payload from the response.
+   */
+  private applyQuota(quota: unknown): void {
+    const result = this.validation.validateQuota(quota);
+    if (!result.valid) {
+      console.warn('Ignoring invalid quota information.', result.errors);
+      return;
+    }
+    this.quotaService.save(result.value);
+  }
+
+  /**
+   * Records a recipe that failed a check so it is neither persisted nor shown.
+   *
+   * @param recipe Raw recipe payload.
+   * @param index 0-based position of the recipe in the response.
+   * @param errors Issues with their field paths.
+   * @param run Bookkeeping of the current generation run.
+   * @param reason Why the recipe was rejected.
+   */
+  private rejectRecipe(
+    recipe: unknown,
+    index: number,
+    errors: RejectedRecipe['errors'],
+    run: GenerationRun,
+    reason: RejectionReason,
+  ): void {
+    const title = String((recipe as Partial<GeneratedRecipe> | null)?.title ?? '');
+    run.rejected.push({ index, title, reason, errors });
+    console.warn(`Dropping recipe #${index + 1} from generation response (${reason}).`, errors);
+  }
+
+  /**
+   * Applies side effects after the generation response has been fully consumed.
+   *
+   * - Stores the synced recipes as the result of this run
+   * - Shows a success toast with remaining quota info (and notices about dropped recipes and
+   *   recipes over the time budget)
+   * - Snapshots the selected preferences and records the run in the local history
+   * - Resets inputs for the next run
+   *
+   * @param recipes All recipes synced during this run.
+   * @param run Bookkeeping of the current generation run.
+   */
+  private completeGeneration(recipes: GeneratedRecipe[], run: GenerationRun): void {
+    this.state.generatedRecipes = recipes;
+    this.showSuccessToast(this.state.quota ?? this.quotaService.normalize(undefined), run.rejected, run.overTimeBudget);
+    this.state.lastGeneratedRequirements = this.state.snapshotCurrentRequirements();
+    this.state.lastGeneratedIngredients = this.state.snapshotCurrentIngredients();
+    this.recordHistory(recipes);
+    this.state.resetRecipeRequirements();
+  }
+
+  /**
+   * Stores the completed run in the local generation history.
+   *
+   * Runs without any persisted recipe are skipped. Failures are logged only, since the
+   * history is a convenience feature and must not affect the generation result.
+   *
+   * @param recipes All recipes synced during this run.
+   */
+  private recordHistory(recipes: GeneratedRecipe[]): void {
+    const persisted = recipes.filter((recipe) => !!recipe.id);
+    if (!persisted.length || !this.state.lastGeneratedRequirements) return;
+
+    this.history
+      .record({
+        createdAt: Date.now(),
+        requirements: this.state.lastGeneratedRequirements,
+        ingredients: this.state.lastGeneratedIngredients,
+        recipeIds: persisted.map((recipe) => recipe.id!),
+        recipeTitles: persisted.map((recipe) => recipe.title),
+        quota: this.state.quota,
+      })
+      .catch((error) => console.error('Error storing generation history:', error));
   }
 
   /**
@@ -121,7 +744,8 @@ export class GenerateRecipeService {
    *
    * If the request failed due to quota exhaustion (HTTP 429 with a quota body),
    * the quota is normalized and stored and a quota-specific toast is shown.
-   * Otherwise, a generic error toast is shown.
+   * Otherwise, a generic error toast is shown. Recipes already streamed during the failed
+   * run are cleared from the generating screen.
    *
    * The original error is rethrown to keep downstream error handling behavior intact.
    *
@@ -129,6 +753,7 @@ export class GenerateRecipeService {
    * @returns Observable error that rethrows the original error.
    */
   private handleRequestError(err: HttpErrorResponse) {
+    this.state.streamedRecipes = [];
     const body = this.asQuotaError(err.error);
     if (this.isQuotaExceeded(err, body)) this.applyQuotaError(body!);
     else this.showGenericErrorToast();
@@ -156,8 +781,7 @@ export class GenerateRecipeService {
    * @param body The quota error response payload.
    */
   private applyQuotaError(body: QuotaErrorResponse): void {
-    const quota = this.normalizeQuota(body.quota);
-    this.state.quota = quota;
+    this.quotaService.save(body.quota);
     this.showQuotaToast(body.message);
   }
 
@@ -165,14 +789,41 @@ export class GenerateRecipeService {
    * Shows a success toast after recipes were generated successfully.
    *
    * @param quota The normalized quota information to display to the user.
+   * @param rejected Recipes dropped during this run.
+   * @param overTimeBudget Number of kept recipes taking longer than the time budget.
    */
-  private showSuccessToast(quota: QuotaInfo): void {
+  private showSuccessToast(quota: QuotaInfo, rejected: RejectedRecipe[] = [], overTimeBudget = 0): void {
+    const quotaMessage = this.buildQuotaMessage(quota);
+    const notices = this.buildRejectedMessages(rejected);
+    if (overTimeBudget === 1) notices.push('1 Rezept dauert länger als dein Zeitbudget.');
+    else if (overTimeBudget > 1) notices.push(`${overTimeBudget} Rezepte dauern länger als dein Zeitbudget.`);
     this.toast.show({
       title: 'Rezept erstellt',
-      message: this.buildQuotaMessage(quota),
+      message: [quotaMessage, ...notices].join('. '),
+      durationMs: notices.length > 0 ? 6000 : undefined,
     });
   }
 
+  /**
+   * Formats user-facing notices about dropped recipes, one per rejection reason.
+   *
+   * @param rejected Recipes dropped during this run.
+   * @returns Notice texts (empty if nothing was dropped).
+   */
+  private buildRejectedMessages(rejected: RejectedRecipe[]): string[] {
+    const invalid = rejected.filter((entry) => entry.reason === 'invalid').length;
+    const excluded = rejected.filter((entry) => entry.reason === 'excludedIngredient').length;
+    const notices: string[] = [];
+
+    if (invalid === 1) notices.push('1 unvollständiges Rezept wurde verworfen.');
+    else if (invalid > 1) notices.push(`${invalid} unvollständige Rezepte wurden verworfen.`);
+
+    if (excluded === 1) notices.push('1 Rezept mit ausgeschlossenen Zutaten wurde verworfen.');
+    else if (excluded > 1) notices.push(`${excluded} Rezepte mit ausgeschlossenen Zutaten wurden verworfen.`);
+
+    return notices;
+  }
+
   /**
    * Shows a toast indicating the quota limit has been reached.
    *
@@ -209,83 +860,30 @@ export class GenerateRecipeService {
   }
 
   /**
-   * Normalizes quota information into a safe, complete `QuotaInfo` object.
-   *
-   * Ensures:
-   * - missing quota objects fall back to defaults
-   * - all values are finite integers
-   * - remaining values are never negative
-   *
-   * @param input Quota payload from success or error responses.
-   * @returns Normalized quota object.
-   */
-  private normalizeQuota(input: QuotaInfo | null | undefined): QuotaInfo {
-    const fallback = this.defaultQuota();
-    if (!input) return fallback;
-
-    const ip = this.normalizeQuotaBucket(input.ip, fallback.ip);
-    const system = this.normalizeQuotaBucket(input.system, fallback.system);
-
-    return { ip, system };
-  }
-
-  /**
-   * Normalizes a single quota bucket (e.g. `ip` or `system`) to safe integer values.
-   *
-   * Rules:
-   * - `limit`, `used`, `remaining` are converted to integers if possible
-   * - `remaining` defaults to `limit - used` when missing
-   * - `remaining` is clamped to a minimum of 0
-   *
-   * @param bucket Incoming bucket values (possibly undefined or partially missing).
-   * @param fallback Fallback bucket used when values are invalid/missing.
-   * @returns Normalized quota bucket.
-   */
-  private normalizeQuotaBucket(
-    bucket: QuotaInfo['ip'] | undefined,
-    fallback: QuotaInfo['ip'],
-  ): QuotaInfo['ip'] {
-    const limit = this.toInt(bucket?.limit, fallback.limit);
-    const used = this.toInt(bucket?.used, fallback.used);
-    const remaining = this.toInt(bucket?.remaining, Math.max(0, limit - used));
-    return { limit, used, remaining: Math.max(0, remaining) };
-  }
-
-  /**
-   * Provides default quota values used as fallback when the backend does not supply quota data.
+   * Attempts to interpret an unknown error payload as a `QuotaErrorResponse`.
    *
-   * @returns Default quota configuration for both buckets.
-   */
-  private defaultQuota(): QuotaInfo {
-    return {
-      ip: { limit: 3, used: 0, remaining: 3 },
-      system: { limit: 12, used: 0, remaining: 12 },
-    };
-  }
-
-  /**
-   * Converts an arbitrary value to an integer if possible; otherwise returns a fallback.
+   * Text payloads (as delivered for streamed requests) are parsed as JSON first; the
+   * result is validated so only a well-formed quota is kept.
    *
-   * @param value Any value expected to represent a number.
-   * @param fallback Value used when `value` cannot be converted to a finite number.
-   * @returns Truncated integer representation or the fallback.
+   * @param value Error payload to interpret.
+   * @returns A `QuotaErrorResponse` if the payload is object-like, otherwise `undefined`.
    */
-  private toInt(value: unknown, fallback: number): number {
-    const n = Number(value);
-    return Number.isFinite(n) ? Math.trunc(n) : fallback;
+  private asQuotaError(value: unknown): QuotaErrorResponse | undefined {
+    if (typeof value === 'string') value = this.parseJson(value);
+    return this.validation.validateQuotaError(value);
   }
 
   /**
-   * Attempts to interpret an unknown error payload as a `QuotaErrorResponse`.
-   *
-   * This is a lightweight runtime guard that only checks the top-level shape
-   * (object-ness) and then casts.
+   * Parses a JSON string without throwing.
    *
-   * @param value Error payload to interpret.
-   * @returns A `QuotaErrorResponse` if the payload is object-like, otherwise `undefined`.
+   * @param text JSON text.
+   * @returns The parsed value, or `undefined` if the text is not valid JSON.
    */
-  private asQuotaError(value: unknown): QuotaErrorResponse | undefined {
-    if (!value || typeof value !== 'object') return undefined;
-    return value as QuotaErrorResponse;
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
   }
 }
\ No newline at end of file
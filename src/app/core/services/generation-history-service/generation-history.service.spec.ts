@@ -0,0 +1,87 @@
+import { TestBed } from '@angular/core/testing';
+
+import type { GenerationHistoryEntry } from '../../models/history.model';
+import { GenerationHistoryService, MAX_ENTRIES } from './generation-history.service';
+
+describe('GenerationHistoryService', () => {
+  let service: GenerationHistoryService;
+
+  const run = (createdAt: number, title = `Recipe ${createdAt}`): Omit<GenerationHistoryEntry, 'id'> => ({
+    createdAt,
+    requirements: {
+      cookingTime: 'quick',
+      maxCookingMinutes: null,
+      cuisine: 'italian',
+      dietPreferences: ['vegetarian'],
+      portionsAmount: 2,
+      cooksAmount: 1,
+      excludedIngredients: [],
+      recipeCount: 1,
+      language: 'en',
+      equipment: [],
+      budget: 'any',
+    },
+    ingredients: [{ ingredient: 'Pasta', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }],
+    recipeIds: [`id-${createdAt}`],
+    recipeTitles: [title],
+    quota: null,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(GenerationHistoryService);
+  });
+
+  afterEach(async () => {
+    for (const entry of await service.list()) await service.remove(entry.id!);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('records runs and lists them newest first', async () => {
+    await service.record(run(2000));
+    await service.record(run(3000));
+    await service.record(run(1000));
+
+    const entries = await service.list();
+
+    expect(entries.map((entry) => entry.createdAt)).toEqual([3000, 2000, 1000]);
+    expect(entries.every((entry) => typeof entry.id === 'number')).toBeTrue();
+  });
+
+  it('loads and removes single runs', async () => {
+    const id = (await service.record(run(1000, 'Pasta bake')))!;
+
+    expect((await service.get(id))?.recipeTitles).toEqual(['Pasta bake']);
+
+    await service.remove(id);
+
+    expect(await service.get(id)).toBeNull();
+    expect(await service.list()).toEqual([]);
+  });
+
+  it(`keeps only the newest ${MAX_ENTRIES} runs`, async () => {
+    for (let createdAt = 1; createdAt <= MAX_ENTRIES + 2; createdAt++) {
+      await service.record(run(createdAt));
+    }
+
+    const entries = await service.list();
+
+    expect(entries.length).toBe(MAX_ENTRIES);
+    expect(entries[0].createdAt).toBe(MAX_ENTRIES + 2);
+    expect(entries[entries.length - 1].createdAt).toBe(3);
+  });
+
+  it('returns empty results and skips writes without IndexedDB', async () => {
+    spyOnProperty(service, 'isSupported').and.returnValue(false);
+    const open = spyOn(indexedDB, 'open').and.callThrough();
+
+    expect(await service.record(run(1000))).toBeNull();
+    expect(await service.list()).toEqual([]);
+    expect(await service.get(1)).toBeNull();
+    await expectAsync(service.remove(1)).toBeResolved();
+    expect(open).not.toHaveBeenCalled();
+  });
+});
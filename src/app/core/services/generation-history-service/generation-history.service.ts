@@ -0,0 +1,154 @@
+import { Injectable } from '@angular/core';
+
+import type { GenerationHistoryEntry } from '../../models/history.model';
+
+/** Name of the IndexedDB database holding the generation history. */
+const DB_NAME = 'cac_history';
+
+/** Schema version of the history database. */
+const DB_VERSION = 1;
+
+/** Object store containing one record per successful generation run. */
+const STORE_NAME = 'runs';
+
+/** Maximum number of runs kept; older runs are pruned when new ones are recorded. */
+export const MAX_ENTRIES = 50;
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Persists successful generation runs locally in IndexedDB.
+ *
+ * Responsibilities:
+ * - Record a run (requirements snapshot, ingredients, recipe ids, quota, timestamp)
+ * - List recorded runs, newest first
+ * - Load and remove single runs
+ * - Keep the history bounded to `MAX_ENTRIES` runs
+ *
+ * Note:
+ * - Only recipe ids are stored; the recipes themselves are loaded from Firestore on demand.
+ * - If IndexedDB is unavailable (e.g. private mode in some browsers), all reads return
+ *   empty results and writes are skipped.
+ */
+export class GenerationHistoryService {
+  /** Lazily opened database connection, shared by all operations. */
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Indicates whether IndexedDB is available in the current environment.
+   */
+  get isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Stores a successful generation run and prunes the oldest runs beyond the limit.
+   *
+   * @param entry Run to store (without id; the id is assigned by IndexedDB).
+   * @returns The id of the stored run, or `null` if IndexedDB is unavailable.
+   */
+  async record(entry: Omit<GenerationHistoryEntry, 'id'>): Promise<number | null> {
+    if (!this.isSupported) return null;
+    const store = await this.store('readwrite');
+    const id = (await this.request(store.add(entry))) as number;
+    await this.prune();
+    return id;
+  }
+
+  /**
+   * Lists all recorded runs.
+   *
+   * @returns Recorded runs, newest first.
+   */
+  async list(): Promise<GenerationHistoryEntry[]> {
+    if (!this.isSupported) return [];
+    const store = await this.store('readonly');
+    const entries = await this.request<GenerationHistoryEntry[]>(store.getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Loads a single recorded run.
+   *
+   * @param id Id of the run.
+   * @returns The run or `null` if it does not exist.
+   */
+  async get(id: number): Promise<GenerationHistoryEntry | null> {
+    if (!this.isSupported) return null;
+    const store = await this.store('readonly');
+    const entry = await this.request<GenerationHistoryEntry | undefined>(store.get(id));
+    return entry ?? null;
+  }
+
+  /**
+   * Removes a single recorded run.
+   *
+   * @param id Id of the run.
+   */
+  async remove(id: number): Promise<void> {
+    if (!this.isSupported) return;
+    const store = await this.store('readwrite');
+    await this.request(store.delete(id));
+  }
+
+  /**
+   * Deletes the oldest runs so that at most `MAX_ENTRIES` remain.
+   */
+  private async prune(): Promise<void> {
+    const entries = await this.list();
+    const outdated = entries.slice(MAX_ENTRIES);
+    for (const entry of outdated) {
+      if (entry.id !== undefined) await this.remove(entry.id);
+    }
+  }
+
+  /**
+   * Opens a transaction on the history store.
+   *
+   * @param mode Transaction mode.
+   * @returns The object store of the new transaction.
+   */
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * Opens (and on first use creates) the history database.
+   *
+   * The connection is cached; a failed open is not cached so it can be retried.
+   *
+   * @returns The database connection.
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Wraps an IndexedDB request into a promise.
+   *
+   * @param request Pending IndexedDB request.
+   * @returns Promise resolving with the request result.
+   */
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { GenerationRetryService } from './generation-retry.service';
+import type { RetryPolicy } from '../../models/environment.model';
+
+describe('GenerationRetryService', () => {
+  let service: GenerationRetryService;
+
+  const policy: RetryPolicy = {
+    maxRetries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 3000,
+    jitterRatio: 0.5,
+    retryableStatuses: [408, 500, 502, 503, 504],
+  };
+
+  const httpError = (status: number) => new HttpErrorResponse({ status });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(GenerationRetryService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('shouldRetry', () => {
+    const table: { description: string; error: unknown; retryCount: number; expected: boolean }[] = [
+      { description: 'network error', error: httpError(0), retryCount: 1, expected: true },
+      { description: '408 request timeout', error: httpError(408), retryCount: 1, expected: true },
+      { description: '500 server error', error: httpError(500), retryCount: 1, expected: true },
+      { description: '502 bad gateway', error: httpError(502), retryCount: 2, expected: true },
+      { description: '503 unavailable', error: httpError(503), retryCount: 1, expected: true },
+      { description: '504 gateway timeout', error: httpError(504), retryCount: 1, expected: true },
+      { description: '429 quota exceeded', error: httpError(429), retryCount: 1, expected: false },
+      { description: '400 bad request', error: httpError(400), retryCount: 1, expected: false },
+      { description: '404 not found', error: httpError(404), retryCount: 1, expected: false },
+      { description: 'non-HTTP error', error: new SyntaxError('bad json'), retryCount: 1, expected: false },
+      { description: 'retry budget exhausted', error: httpError(502), retryCount: 3, expected: false },
+      { description: 'invalid retry count', error: httpError(502), retryCount: 0, expected: false },
+    ];
+
+    for (const row of table) {
+      it(`${row.expected ? 'retries' : 'does not retry'} on ${row.description}`, () => {
+        expect(service.shouldRetry(row.error, row.retryCount, policy)).toBe(row.expected);
+      });
+    }
+
+    it('never retries 429 even when it is configured as retryable', () => {
+      const permissive = { ...policy, retryableStatuses: [...policy.retryableStatuses, 429] };
+      expect(service.shouldRetry(httpError(429), 1, permissive)).toBeFalse();
+    });
+
+    it('does not retry at all when retries are disabled', () => {
+      expect(service.shouldRetry(httpError(0), 1, { ...policy, maxRetries: 0 })).toBeFalse();
+    });
+  });
+
+  describe('delayFor', () => {
+    it('grows exponentially without jitter', () => {
+      spyOn(Math, 'random').and.returnValue(0);
+      expect(service.delayFor(1, policy)).toBe(1000);
+      expect(service.delayFor(2, policy)).toBe(2000);
+    });
+
+    it('caps the delay at maxDelayMs', () => {
+      spyOn(Math, 'random').and.returnValue(0);
+      expect(service.delayFor(5, policy)).toBe(3000);
+    });
+
+    it('shortens the delay by at most the jitter ratio', () => {
+      spyOn(Math, 'random').and.returnValue(0.999);
+      const delay = service.delayFor(2, policy);
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThan(2000);
+    });
+  });
+});
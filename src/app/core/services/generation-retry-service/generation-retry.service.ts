@@ -0,0 +1,91 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+
+import type { RetryPolicy } from '../../models/environment.model';
+import { environment } from '../../../../environments/environment';
+
+/**
+ * HTTP status used by the webhook to signal an exhausted quota or rate limit.
+ *
+ * Retrying such a response would only consume further quota, so it is never retried.
+ */
+const QUOTA_EXCEEDED_STATUS = 429;
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Decides whether and when a failed generation request is retried.
+ *
+ * Retry rules:
+ * - Network errors (HTTP status `0`, e.g. dropped mobile connections) are retryable.
+ * - HTTP errors are retryable if their status is listed in `retryableStatuses`
+ *   (timeouts and gateway errors of the hosted workflow).
+ * - Quota responses (HTTP 429) are never retried, regardless of configuration.
+ * - Non-HTTP errors (e.g. malformed response bodies) are never retried.
+ * - At most `maxRetries` retries are performed.
+ *
+ * Delays grow exponentially (`baseDelayMs * 2^(retry - 1)`, capped at `maxDelayMs`)
+ * and are randomly shortened by up to `jitterRatio` to avoid synchronized retries.
+ */
+export class GenerationRetryService {
+  /** Retry policy configured for the current environment. */
+  readonly policy: RetryPolicy = environment.generationRetry;
+
+  /**
+   * Total number of attempts (first request plus retries) allowed by the policy.
+   */
+  get maxAttempts(): number {
+    return Math.max(0, this.policy.maxRetries) + 1;
+  }
+
+  /**
+   * Determines whether a failed request should be retried.
+   *
+   * @param error Error the request failed with.
+   * @param retryCount 1-based number of the retry that would be performed next.
+   * @param policy Retry policy to apply (defaults to the environment policy).
+   * @returns True if the request should be retried.
+   */
+  shouldRetry(error: unknown, retryCount: number, policy: RetryPolicy = this.policy): boolean {
+    if (retryCount < 1 || retryCount > policy.maxRetries) return false;
+    return this.isRetryableError(error, policy);
+  }
+
+  /**
+   * Computes the delay before the given retry.
+   *
+   * @param retryCount 1-based number of the retry about to be performed.
+   * @param policy Retry policy to apply (defaults to the environment policy).
+   * @returns Delay in milliseconds.
+   */
+  delayFor(retryCount: number, policy: RetryPolicy = this.policy): number {
+    const exponential = policy.baseDelayMs * 2 ** Math.max(0, retryCount - 1);
+    const capped = Math.min(policy.maxDelayMs, exponential);
+    const jitter = capped * this.clampRatio(policy.jitterRatio) * Math.random();
+    return Math.round(capped - jitter);
+  }
+
+  /**
+   * Determines whether an error is transient according to the policy.
+   *
+   * @param error Error the request failed with.
+   * @param policy Retry policy to apply.
+   * @returns True for network errors and retryable HTTP statuses, never for quota errors.
+   */
+  private isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+    if (!(error instanceof HttpErrorResponse)) return false;
+    if (error.status === QUOTA_EXCEEDED_STATUS) return false;
+    if (error.status === 0) return true;
+    return policy.retryableStatuses.includes(error.status);
+  }
+
+  /**
+   * Clamps the jitter ratio into the range 0..1.
+   *
+   * @param ratio Configured jitter ratio.
+   * @returns Ratio usable for shortening a delay.
+   */
+  private clampRatio(ratio: number): number {
+    if (!Number.isFinite(ratio)) return 0;
+    return Math.min(1, Math.max(0, ratio));
+  }
+}
@@ -1,6 +1,8 @@
-import { TestBed } from '@angular/core/testing';
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Subject } from 'rxjs';
 
-import { IngredientAutocompleteService } from './ingredient-autocomplete.service';
+import type { IngredientSuggestion } from '../../models/ingredient.model';
+import { IngredientAutocompleteService, SUGGESTION_DEBOUNCE_MS } from './ingredient-autocomplete.service';
 
 describe('IngredientAutocompleteService', () => {
   let service: IngredientAutocompleteService;
@@ -13,4 +15,76 @@ describe('IngredientAutocompleteService', () => {
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('keeps returning plain names from search', () => {
+    const names = service.search('red on', 3);
+    expect(names[0]).toBe('Red onion');
+    expect(names.every((name) => typeof name === 'string')).toBeTrue();
+    expect(service.search('   ')).toEqual([]);
+  });
+
+  it('exposes category and default unit in suggestions', () => {
+    const [first] = service.suggest('milk', 1);
+    expect(first).toEqual({
+      id: 'milk',
+      name: 'Milk',
+      category: 'dairy',
+      defaultUnit: { name: 'ml', abbreviation: 'ml' },
+    });
+    expect(service.suggest('milk', 3).map((entry) => entry.name)).toEqual(service.search('milk', 3));
+  });
+
+  it('resolves German aliases to the canonical entry', () => {
+    expect(service.search('Kartoffel', 1)).toEqual(['Potato']);
+    expect(service.search('zwiebel', 1)).toEqual(['Onion']);
+    expect(service.search('Sahne', 1)).toEqual(['Heavy cream']);
+    expect(service.search('möhre', 1)).toEqual(['Carrot']);
+  });
+
+  it('reports the matched alias next to the canonical name', () => {
+    const [first] = service.suggest('Kartoffeln', 1);
+    expect(first.name).toBe('Potato');
+    expect(first.matchedAlias).toBe('Kartoffel');
+    expect(first.defaultUnit.name).toBe('piece');
+  });
+
+  it('prefers the canonical name over aliases and omits the alias then', () => {
+    const [first] = service.suggest('Paprika', 1);
+    expect(first.name).toBe('Paprika');
+    expect(first.matchedAlias).toBeUndefined();
+  });
+
+  it('returns a best match only for close and unambiguous terms', () => {
+    expect(service.bestMatch('Garlic')?.name).toBe('Garlic');
+    expect(service.bestMatch('basmati')?.name).toBe('Basmati rice');
+    expect(service.bestMatch('Hackfleisch')?.matchedAlias).toBe('Hackfleisch');
+    expect(service.bestMatch('rice')).toBeNull();
+    expect(service.bestMatch('chicken')).toBeNull();
+    expect(service.bestMatch('unicorn dust')).toBeNull();
+  });
+
+  it('suggests debounced input once typing pauses', fakeAsync(() => {
+    const input = new Subject<string>();
+    const emitted: IngredientSuggestion[][] = [];
+    const subscription = service.suggestOnInput(input, 1).subscribe((suggestions) => emitted.push(suggestions));
+
+    input.next('t');
+    input.next('tom');
+    tick(SUGGESTION_DEBOUNCE_MS - 1);
+    expect(emitted).toEqual([]);
+    input.next('tomato ');
+    tick(SUGGESTION_DEBOUNCE_MS);
+    expect(emitted.map((suggestions) => suggestions[0].name)).toEqual(['Tomato']);
+
+    input.next('tomato');
+    tick(SUGGESTION_DEBOUNCE_MS);
+    expect(emitted.length).withContext('unchanged term').toBe(1);
+
+    input.next('mil');
+    input.next('');
+    tick(SUGGESTION_DEBOUNCE_MS);
+    expect(emitted.length).withContext('cleared input').toBe(1);
+
+    subscription.unsubscribe();
+  }));
 });
@@ -1,193 +1,143 @@
 import { Injectable } from '@angular/core';
-import { INGREDIENTS } from './../../data/ingredients.data';
+import { Observable } from 'rxjs';
+import { debounceTime, distinctUntilChanged, filter, map } from 'rxjs/operators';
+
+import type { IngredientSuggestion } from '../../models/ingredient.model';
+import { IngredientCatalogService } from '../ingredient-catalog-service/ingredient-catalog.service';
+import { IngredientSearchIndex, ScoredIngredient } from './ingredient-search-index';
 
 /**
- * Internal helper type representing an ingredient candidate with its computed score.
- *
- * Higher `score` means a better match for the user's query.
+ * Minimum score of a `bestMatch` result: at least a word-prefix match; substring and fuzzy
+ * matches alone are too loose to be taken without a choice.
+ */
+const MIN_MATCH_SCORE = 60;
+
+/**
+ * Lead a `bestMatch` result needs over the runner-up. It exceeds the maximum length penalty,
+ * so two matches of the same kind ("rice" → "Rice milk" / "Rice vinegar") count as ambiguous.
  */
-type ScoredItem = { item: string; score: number };
+const MIN_MATCH_LEAD = 15;
+
+/**
+ * Pause after the last keystroke before `suggestOnInput` searches (ms).
+ */
+export const SUGGESTION_DEBOUNCE_MS = 150;
 
 @Injectable({
   providedIn: 'root',
 })
 /**
- * Provides lightweight ingredient autocomplete suggestions based on a static ingredient list.
+ * Provides lightweight ingredient autocomplete suggestions based on the ingredient catalog.
  *
  * Matching strategy:
+ * - Every entry is matched by its name and its English and localized aliases ("Kartoffel"
+ *   finds "Potato"); the best-scoring one counts, ties go to the canonical name.
+ * - Case and accents are ignored.
  * - Exact match and prefix match are rewarded heavily.
  * - Word-prefix and substring matches add additional score.
  * - A small fuzzy match is applied using a Levenshtein distance on a short window.
  * - Longer names receive a small penalty relative to the query length.
  *
  * The result list is sorted by descending score, then alphabetically.
+ *
+ * Matches are looked up in a prebuilt `IngredientSearchIndex` (n-gram index for substring
+ * matches, sorted keys for prefix and fuzzy matches) instead of scoring every entry per
+ * keystroke; the ranking is the same. `suggestOnInput` additionally debounces typed input.
+ *
+ * `search` returns plain canonical names; `suggest` additionally exposes the category, the
+ * default unit and the matched alias of every match. `bestMatch` resolves free text (e.g. a
+ * pasted ingredient list) to a single entry when the match is close enough.
  */
 export class IngredientAutocompleteService {
-  /** Static list of ingredient names used for matching. */
-  private readonly ingredients = INGREDIENTS;
+  /** Search index over the names and aliases of the catalog. */
+  private readonly index: IngredientSearchIndex;
 
   /**
    * Searches for ingredient suggestions matching the given term.
    *
    * @param term Raw user input (will be trimmed and lowercased).
    * @param limit Maximum number of suggestions to return (default: 3).
-   * @returns A list of up to `limit` ingredient strings ordered by best match.
+   * @returns A list of up to `limit` canonical ingredient names ordered by best match.
    */
   search(term: string, limit = 3): string[] {
-    const query = this.normalizeTerm(term);
-    if (!query) return [];
-    const scored = this.buildScoredList(query);
-    if (scored.length === 0) return [];
-    this.sortByScoreThenName(scored);
-    return scored.slice(0, limit).map((entry) => entry.item);
-  }
-
-  /**
-   * Normalizes a user-entered search term.
-   *
-   * @param term Raw user input.
-   * @returns The normalized query string.
-   */
-  private normalizeTerm(term: string): string {
-    return term.trim().toLowerCase();
+    return this.rank(term, limit).map((entry) => entry.item.name);
   }
 
   /**
-   * Builds a scored candidate list for the given query and filters out non-matches.
+   * Searches for ingredient suggestions including their catalog data.
    *
-   * @param query Normalized search query.
-   * @returns Candidates with a positive score.
-   */
-  private buildScoredList(query: string): ScoredItem[] {
-    return this.ingredients
-      .map((item) => ({ item, score: this.scoreIngredient(item, query) }))
-      .filter((entry) => entry.score > 0);
-  }
-
-  /**
-   * Sorts candidates in-place by best score first; ties are sorted alphabetically.
+   * Uses the same matching and order as `search`.
    *
-   * @param scored Array of scored candidates to sort.
-   */
-  private sortByScoreThenName(scored: ScoredItem[]): void {
-    scored.sort((a, b) => {
-      if (b.score !== a.score) return b.score - a.score;
-      return a.item.localeCompare(b.item);
-    });
-  }
-
-  /**
-   * Computes the overall match score for an ingredient name against a query.
-   *
-   * The final score is a sum of multiple heuristics with a small length penalty.
-   *
-   * @param name Ingredient candidate name.
-   * @param query Normalized query string.
-   * @returns A numeric score (higher is better).
-   */
-  private scoreIngredient(name: string, query: string): number {
-    const lower = name.toLowerCase();
-    let score = 0;
-    score += this.scoreExactAndPrefix(lower, query);
-    score += this.scoreWordAndSubstring(lower, query);
-    score += this.scoreFuzzy(lower, query);
-    score -= this.lengthPenalty(lower, query);
-    return score;
-  }
-
-  /**
-   * Scores exact matches and prefix matches.
-   *
-   * @param name Lowercased ingredient name.
-   * @param query Normalized query.
-   * @returns Score contribution for exact/prefix matching.
+   * @param term Raw user input (will be trimmed and lowercased).
+   * @param limit Maximum number of suggestions to return (default: 3).
+   * @returns Up to `limit` suggestions ordered by best match.
    */
-  private scoreExactAndPrefix(name: string, query: string): number {
-    if (name === query) return 120;
-    if (name.startsWith(query)) return 90;
-    return 0;
+  suggest(term: string, limit = 3): IngredientSuggestion[] {
+    return this.rank(term, limit).map((entry) => this.catalog.toSuggestion(entry.item, entry.alias));
   }
 
   /**
-   * Scores word-prefix matches and general substring matches.
+   * Turns typed input into suggestions, searching only once the input pauses.
    *
-   * - If any word in the ingredient starts with the query, it receives a higher score.
-   * - If the query appears anywhere as a substring, it receives a smaller boost.
+   * Empty terms emit nothing but cancel a pending search, so clearing or closing the input
+   * is not followed by stale suggestions. Repeated terms are searched once.
    *
-   * @param name Lowercased ingredient name.
-   * @param query Normalized query.
-   * @returns Score contribution for word/substr matching.
+   * @param terms Input values as typed.
+   * @param limit Maximum number of suggestions per term (default: 3).
+   * @param debounceMs Pause after the last value before searching.
+   * @returns Suggestions for every searched term, ordered by best match.
    */
-  private scoreWordAndSubstring(name: string, query: string): number {
-    if (name.split(/\s+/).some((word) => word.startsWith(query))) return 70;
-    if (name.includes(query)) return 50;
-    return 0;
+  suggestOnInput(
+    terms: Observable<string>,
+    limit = 3,
+    debounceMs = SUGGESTION_DEBOUNCE_MS,
+  ): Observable<IngredientSuggestion[]> {
+    return terms.pipe(
+      debounceTime(debounceMs),
+      map((term) => term.trim()),
+      distinctUntilChanged(),
+      filter((term) => term !== ''),
+      map((term) => this.suggest(term, limit)),
+    );
   }
 
   /**
-   * Applies a small fuzzy match using Levenshtein distance.
+   * Returns the best-matching catalog entry for a term if the match is close and unambiguous:
+   * it scores at least `MIN_MATCH_SCORE` and leads the runner-up by `MIN_MATCH_LEAD`.
    *
-   * The distance is computed between the query and a short window from the start of the name.
-   * Distances above 3 are treated as non-matches; otherwise a score is awarded.
-   *
-   * @param name Lowercased ingredient name.
-   * @param query Normalized query.
-   * @returns Score contribution for fuzzy matching.
+   * @param term Raw user input.
+   * @returns The best suggestion or `null` if nothing matches clearly enough.
    */
-  private scoreFuzzy(name: string, query: string): number {
-    const window = name.slice(0, Math.max(query.length + 2, query.length));
-    const distance = this.levenshtein(query, window);
-    if (distance > 3) return 0;
-    return Math.max(0, 40 - distance * 10);
+  bestMatch(term: string): IngredientSuggestion | null {
+    const [best, runnerUp] = this.rank(term, 2);
+    if (!best || best.score < MIN_MATCH_SCORE) return null;
+    if (runnerUp && best.score - runnerUp.score < MIN_MATCH_LEAD) return null;
+    return this.catalog.toSuggestion(best.item, best.alias);
   }
 
   /**
-   * Penalizes long ingredient names relative to the query length, capped at 10.
-   *
-   * This helps shorter, more direct matches appear earlier when other scores are similar.
+   * Returns the best-matching catalog entries for a term from the search index.
    *
-   * @param name Lowercased ingredient name.
-   * @param query Normalized query.
-   * @returns A non-negative penalty value (to be subtracted from the score).
+   * @param term Raw user input.
+   * @param limit Maximum number of entries to return.
+   * @returns Up to `limit` scored catalog entries ordered by best match.
    */
-  private lengthPenalty(name: string, query: string): number {
-    const diff = Math.max(0, name.length - query.length);
-    return Math.min(10, diff);
+  private rank(term: string, limit: number): ScoredIngredient[] {
+    return this.index.search(term, limit);
   }
 
   /**
-   * Computes the Levenshtein edit distance between two strings.
+   * Creates the service.
    *
-   * This implementation uses a single-row dynamic programming approach.
+   * Builds the search index once; the catalog is static.
    *
-   * @param a First string.
-   * @param b Second string.
-   * @returns The edit distance (0 means identical).
+   * @param catalog Ingredient catalog providing the candidates and their metadata.
    */
-  private levenshtein(a: string, b: string): number {
-    const m = a.length,
-      n = b.length;
-    if (!m) return n;
-    if (!n) return m;
-    const dp = Array.from({ length: n + 1 }, (_, i) => i);
-    for (let i = 1; i <= m; i++) {
-      let prev = dp[0];
-      dp[0] = i;
-      for (let j = 1; j <= n; j++) {
-        const temp = dp[j],
-          cost = a[i - 1] === b[j - 1] ? 0 : 1;
-        dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + cost);
-        prev = temp;
-      }
-    }
-    return dp[n];
+  constructor(private readonly catalog: IngredientCatalogService) {
+    this.index = new IngredientSearchIndex(
+      catalog.entries,
+      (entry) => catalog.aliasesOf(entry),
+      (text) => catalog.fold(text),
+    );
   }
-
-  /**
-   * Creates the service.
-   *
-   * Note: This service currently uses only a static in-memory list and therefore
-   * does not require any injected dependencies.
-   */
-  constructor() {}
 }
\ No newline at end of file
@@ -0,0 +1,155 @@
+import type { CatalogIngredient } from '../../models/ingredient.model';
+import { IngredientCatalogService } from '../ingredient-catalog-service/ingredient-catalog.service';
+import { SUGGESTION_DEBOUNCE_MS } from './ingredient-autocomplete.service';
+import { IngredientSearchIndex, ScoredIngredient } from './ingredient-search-index';
+
+describe('IngredientSearchIndex', () => {
+  const catalog = new IngredientCatalogService();
+  const fold = (text: string) => catalog.fold(text);
+  const catalogAliases = (entry: CatalogIngredient) => catalog.aliasesOf(entry);
+  const ownAliases = (entry: CatalogIngredient) => entry.aliases ?? [];
+
+  /**
+   * Reference ranking: scores every name and alias of every entry.
+   */
+  function scanAll(
+    index: IngredientSearchIndex,
+    entries: readonly CatalogIngredient[],
+    aliasesOf: (entry: CatalogIngredient) => readonly string[],
+    term: string,
+    limit: number,
+  ): ScoredIngredient[] {
+    const query = fold(term);
+    if (!query) return [];
+    const scored = entries.map((item) => {
+      const best: ScoredIngredient = { item, score: index.score(fold(item.name), query) };
+      for (const alias of aliasesOf(item)) {
+        const score = index.score(fold(alias), query);
+        if (score > best.score) {
+          best.score = score;
+          best.alias = alias;
+        }
+      }
+      return best;
+    });
+    return scored
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name))
+      .slice(0, limit);
+  }
+
+  /**
+   * Queries derived from entry names: prefixes, inner fragments and typos.
+   */
+  function queriesFor(entries: readonly CatalogIngredient[], step: number): string[] {
+    const queries: string[] = [];
+    for (let i = 0; i < entries.length; i += step) {
+      const name = entries[i].name;
+      queries.push(name.slice(0, 1), name.slice(0, 3), name.slice(0, 6), name.slice(2, 7));
+      queries.push(name.slice(0, -1) + 'q', name.replace(/[aeiou]/, 'x'));
+    }
+    return [...queries, 'zq', 'x', '  ', 'tomatp', 'chiken brest', 'Möhre'];
+  }
+
+  /**
+   * Deterministic synthetic catalog with made-up names and aliases.
+   */
+  function syntheticCatalog(size: number): CatalogIngredient[] {
+    const syllables = ['ba', 'ri', 'to', 'ma', 'chi', 'ken', 'lo', 'su', 'pe', 'ra', 'mi', 'no', 'ta', 'go', 'le', 'van',
+      'dor', 'sel', 'kar', 'fu', 'zo', 'qua', 'ne', 'tril', 'os', 'me', 'ly', 'pha', 'gu', 'ste'];
+    let seed = 42;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+    const word = () => Array.from({ length: 2 + random(2) }, () => syllables[random(syllables.length)]).join('');
+    const phrase = () => Array.from({ length: 1 + random(3) }, word).join(' ');
+
+    return Array.from({ length: size }, (_, index) => {
+      const name = phrase();
+      return {
+        id: `synthetic-${index}`,
+        name: name[0].toUpperCase() + name.slice(1),
+        category: 'vegetables',
+        aliases: Array.from({ length: random(3) }, phrase),
+        defaultUnit: { name: 'gram', abbreviation: 'g' },
+        diet: [],
+      };
+    });
+  }
+
+  describe('on the ingredient catalog', () => {
+    let index: IngredientSearchIndex;
+
+    beforeAll(() => {
+      index = new IngredientSearchIndex(catalog.entries, catalogAliases, fold);
+    });
+
+    it('ranks exactly like scoring every entry', () => {
+      for (const query of queriesFor(catalog.entries, 7)) {
+        for (const limit of [1, 3, 10]) {
+          const expected = scanAll(index, catalog.entries, catalogAliases, query, limit);
+          expect(index.search(query, limit)).withContext(`${query} / ${limit}`).toEqual(expected);
+        }
+      }
+    });
+
+    it('returns nothing for empty queries and limits', () => {
+      expect(index.search('   ', 3)).toEqual([]);
+      expect(index.search('tomato', 0)).toEqual([]);
+    });
+
+    it('finds substring, alias and fuzzy matches', () => {
+      expect(index.search('red on', 1)[0].item.name).toBe('Red onion');
+      expect(index.search('courgette', 1)[0]).toEqual(jasmine.objectContaining({ alias: 'Courgette' }));
+      expect(index.search('tomatp', 1)[0].item.name).toBe('Tomato');
+    });
+  });
+
+  describe('on a synthetic catalog of thousands of entries', () => {
+    let entries: CatalogIngredient[];
+    let index: IngredientSearchIndex;
+
+    beforeAll(() => {
+      entries = syntheticCatalog(5000);
+      index = new IngredientSearchIndex(entries, ownAliases, fold);
+    });
+
+    it('ranks exactly like scoring every entry', () => {
+      for (const query of queriesFor(entries, 100)) {
+        expect(index.search(query, 3)).withContext(query).toEqual(scanAll(index, entries, ownAliases, query, 3));
+      }
+    });
+  });
+
+  describe('on a synthetic catalog of tens of thousands of entries', () => {
+    let entries: CatalogIngredient[];
+    let index: IngredientSearchIndex;
+    let queries: string[];
+
+    beforeAll(() => {
+      entries = syntheticCatalog(30000);
+      index = new IngredientSearchIndex(entries, ownAliases, fold);
+      queries = queriesFor(entries, 1500);
+    });
+
+    /**
+     * Average milliseconds per query of `search` over `sample`.
+     */
+    function timePerQuery(sample: readonly string[], search: (query: string) => unknown): number {
+      const started = performance.now();
+      for (const query of sample) search(query);
+      return (performance.now() - started) / sample.length;
+    }
+
+    it('answers a keystroke faster than a full scan and well within the suggestion debounce', () => {
+      const perQuery = timePerQuery(queries, (query) => index.search(query, 3));
+      // The full scan is slow by design; a sample keeps the spec fast.
+      const perScan = timePerQuery(queries.slice(0, 20), (query) => scanAll(index, entries, ownAliases, query, 3));
+
+      // Generous bounds: the index is typically orders of magnitude faster than the scan.
+      expect(perQuery).toBeLessThan(perScan / 2);
+      expect(perQuery).toBeLessThan(SUGGESTION_DEBOUNCE_MS);
+    });
+  });
+});
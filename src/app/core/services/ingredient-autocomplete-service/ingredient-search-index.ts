@@ -0,0 +1,407 @@
+import type { CatalogIngredient } from '../../models/ingredient.model';
+
+/**
+ * Catalog entry with its match score for a query.
+ *
+ * Higher `score` means a better match. `alias` is set when an alias scored better than the
+ * canonical name.
+ */
+export type ScoredIngredient = { item: CatalogIngredient; score: number; alias?: string };
+
+/**
+ * Searchable text of an entry: its folded name or one of its folded aliases.
+ *
+ * `alias` keeps the original spelling of an alias; it is unset for the name.
+ */
+type IndexKey = { text: string; entry: number; alias?: string };
+
+/**
+ * Best key of an entry found so far while searching.
+ */
+type EntryMatch = { entry: number; key: number; score: number };
+
+/**
+ * Longest n-grams stored in the substring index. Queries up to this length are looked up
+ * directly, longer ones through their rarest trigram.
+ */
+const MAX_GRAM_LENGTH = 3;
+
+/**
+ * Maximum edit distance still rewarded by the fuzzy heuristic.
+ */
+const MAX_FUZZY_DISTANCE = 3;
+
+/**
+ * Prebuilt search index over the names and aliases of catalog entries.
+ *
+ * Structure:
+ * - Every name and alias is folded once and stored as a key
+ * - An n-gram index (1 to 3 characters) lists the keys containing each n-gram; it yields
+ *   the substring matches of a query without looking at other keys
+ * - The keys sorted by text form an implicit prefix tree; fuzzy matches are found by walking
+ *   it with a Levenshtein row per prefix and pruning prefixes that are already too far off
+ *
+ * Ranking is identical to scoring every key: exact/prefix, word-prefix/substring, fuzzy
+ * (Levenshtein on the first `query.length + 2` characters) and the length penalty are summed,
+ * the best key of an entry counts (ties go to the name, then to the first alias), and entries
+ * are ordered by descending score, then by name. Candidates are collected in tiers and a
+ * tier is only searched when the previous ones matched fewer than `limit` entries, since no
+ * key of a later tier can outscore a key of an earlier one:
+ * - Prefix matches score at least 150 (prefix 90 + substring 50 + fuzzy 20 − penalty 10);
+ *   other matches at most 100 (word prefix 70 + fuzzy 30)
+ * - Substring matches score at least 40 (substring 50 − penalty 10); fuzzy-only matches at
+ *   most 30
+ */
+export class IngredientSearchIndex {
+  /** Folded names and aliases; the name of an entry precedes its aliases. */
+  private readonly keys: IndexKey[] = [];
+
+  /** Key ids ordered by key text (UTF-16 code units). */
+  private readonly sorted: number[];
+
+  /** Key ids by contained n-gram. */
+  private readonly grams = new Map<string, number[]>();
+
+  /**
+   * Builds the index.
+   *
+   * @param entries Entries to index, in catalog order.
+   * @param aliasesOf Returns the aliases of an entry.
+   * @param fold Normalizes names and queries (e.g. lowercase, without accents).
+   */
+  constructor(
+    private readonly entries: readonly CatalogIngredient[],
+    aliasesOf: (entry: CatalogIngredient) => readonly string[],
+    private readonly fold: (text: string) => string,
+  ) {
+    entries.forEach((entry, index) => {
+      this.addKey({ text: fold(entry.name), entry: index });
+      for (const alias of aliasesOf(entry)) this.addKey({ text: fold(alias), entry: index, alias });
+    });
+    this.sorted = this.keys.map((_, id) => id).sort((a, b) => this.compareText(this.keys[a].text, this.keys[b].text));
+  }
+
+  /**
+   * Returns the best-matching entries for a query.
+   *
+   * @param term Raw query; it is folded like the indexed names.
+   * @param limit Maximum number of entries to return.
+   * @returns Up to `limit` entries with a positive score, ordered by best match.
+   */
+  search(term: string, limit: number): ScoredIngredient[] {
+    const query = this.fold(term);
+    if (!query || limit <= 0) return [];
+
+    const matches = new Map<number, EntryMatch>();
+    for (const key of this.prefixKeys(query)) this.consider(matches, key, query);
+    if (matches.size < limit) {
+      for (const key of this.substringKeys(query)) this.consider(matches, key, query);
+    }
+    if (matches.size < limit) {
+      for (const key of this.fuzzyKeys(query)) this.consider(matches, key, query);
+    }
+
+    const top = this.selectTop([...matches.values()].filter((match) => match.score > 0), limit);
+    return top.map((match) => this.toScoredIngredient(match));
+  }
+
+  /**
+   * Computes the match score of a folded name against a folded query.
+   *
+   * @param text Folded name or alias.
+   * @param query Folded query.
+   * @returns A numeric score (higher is better; non-positive means no match).
+   */
+  score(text: string, query: string): number {
+    let score = 0;
+    score += this.scoreExactAndPrefix(text, query);
+    score += this.scoreWordAndSubstring(text, query);
+    score += this.scoreFuzzy(text, query);
+    score -= this.lengthPenalty(text, query);
+    return score;
+  }
+
+  /**
+   * Stores a key and registers its n-grams.
+   *
+   * @param key Key to add.
+   */
+  private addKey(key: IndexKey): void {
+    const id = this.keys.push(key) - 1;
+    const seen = new Set<string>();
+    for (let length = 1; length <= MAX_GRAM_LENGTH; length++) {
+      for (let start = 0; start + length <= key.text.length; start++) {
+        const gram = key.text.slice(start, start + length);
+        if (seen.has(gram)) continue;
+        seen.add(gram);
+        const postings = this.grams.get(gram);
+        if (postings) postings.push(id);
+        else this.grams.set(gram, [id]);
+      }
+    }
+  }
+
+  /**
+   * Returns the keys starting with the query: a contiguous range of the sorted keys.
+   *
+   * @param query Folded query.
+   */
+  private prefixKeys(query: string): number[] {
+    let low = 0;
+    let high = this.sorted.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.compareText(this.textAt(middle), query) < 0) low = middle + 1;
+      else high = middle;
+    }
+    const found: number[] = [];
+    for (let index = low; index < this.sorted.length && this.textAt(index).startsWith(query); index++) {
+      found.push(this.sorted[index]);
+    }
+    return found;
+  }
+
+  /**
+   * Returns the keys containing the query.
+   *
+   * Short queries are n-grams themselves; longer ones are checked against the keys of their
+   * rarest trigram.
+   *
+   * @param query Folded query.
+   */
+  private substringKeys(query: string): readonly number[] {
+    if (query.length <= MAX_GRAM_LENGTH) return this.grams.get(query) ?? [];
+
+    let rarest: readonly number[] | null = null;
+    for (let start = 0; start + MAX_GRAM_LENGTH <= query.length; start++) {
+      const postings = this.grams.get(query.slice(start, start + MAX_GRAM_LENGTH));
+      if (!postings) return [];
+      if (!rarest || postings.length < rarest.length) rarest = postings;
+    }
+    return (rarest ?? []).filter((id) => this.keys[id].text.includes(query));
+  }
+
+  /**
+   * Returns the keys whose first `query.length + 2` characters are within the maximum edit
+   * distance of the query.
+   *
+   * Walks the sorted keys as a prefix tree: every range of keys sharing a prefix is split by
+   * the next character, and the Levenshtein row of the prefix is extended by that character.
+   *
+   * @param query Folded query.
+   */
+  private fuzzyKeys(query: string): number[] {
+    const found: number[] = [];
+    const windowLength = query.length + 2;
+    const firstRow = Array.from({ length: query.length + 1 }, (_, index) => index);
+
+    const visit = (start: number, end: number, depth: number, row: number[]): void => {
+      const withinDistance = row[query.length] <= MAX_FUZZY_DISTANCE;
+      let index = start;
+      while (index < end && this.textAt(index).length === depth) {
+        if (withinDistance) found.push(this.sorted[index]);
+        index++;
+      }
+      if (depth === windowLength) {
+        if (withinDistance) for (; index < end; index++) found.push(this.sorted[index]);
+        return;
+      }
+      while (index < end) {
+        const code = this.textAt(index).charCodeAt(depth);
+        const runEnd = this.runEnd(index, end, depth, code);
+        const next = this.nextRow(row, code, query, depth + 1);
+        if (Math.min(...next) <= MAX_FUZZY_DISTANCE) visit(index, runEnd, depth + 1, next);
+        index = runEnd;
+      }
+    };
+
+    visit(0, this.sorted.length, 0, firstRow);
+    return found;
+  }
+
+  /**
+   * Extends a Levenshtein row (distances of a prefix to every query prefix) by one character.
+   *
+   * @param row Row of the current prefix.
+   * @param code Character code appended to the prefix.
+   * @param query Folded query.
+   * @param length Length of the extended prefix.
+   */
+  private nextRow(row: readonly number[], code: number, query: string, length: number): number[] {
+    const next = [length];
+    for (let j = 1; j <= query.length; j++) {
+      const cost = query.charCodeAt(j - 1) === code ? 0 : 1;
+      next.push(Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost));
+    }
+    return next;
+  }
+
+  /**
+   * Returns the end of the run of sorted keys starting at `start` that have the character
+   * `code` at position `depth`.
+   */
+  private runEnd(start: number, end: number, depth: number, code: number): number {
+    let low = start + 1;
+    let high = end;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.textAt(middle).charCodeAt(depth) === code) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+
+  /**
+   * Scores a key and keeps it if it is the best key of its entry so far.
+   *
+   * Ties go to the lower key id, i.e. to the name, then to the first alias.
+   */
+  private consider(matches: Map<number, EntryMatch>, key: number, query: string): void {
+    const { entry, text } = this.keys[key];
+    const score = this.score(text, query);
+    const current = matches.get(entry);
+    if (!current || score > current.score || (score === current.score && key < current.key)) {
+      matches.set(entry, { entry, key, score });
+    }
+  }
+
+  /**
+   * Picks the `limit` best matches without sorting all of them.
+   *
+   * @param matches Matches with a positive score.
+   * @param limit Maximum number of matches.
+   * @returns The best matches, ordered by descending score, then by name.
+   */
+  private selectTop(matches: EntryMatch[], limit: number): EntryMatch[] {
+    const top: EntryMatch[] = [];
+    for (const match of matches) {
+      if (top.length === limit && this.compareMatches(match, top[top.length - 1]) >= 0) continue;
+      let index = top.length;
+      while (index > 0 && this.compareMatches(match, top[index - 1]) < 0) index--;
+      top.splice(index, 0, match);
+      if (top.length > limit) top.pop();
+    }
+    return top;
+  }
+
+  /**
+   * Orders matches by descending score, then alphabetically by name, then in catalog order.
+   */
+  private compareMatches(a: EntryMatch, b: EntryMatch): number {
+    if (b.score !== a.score) return b.score - a.score;
+    return this.entries[a.entry].name.localeCompare(this.entries[b.entry].name) || a.entry - b.entry;
+  }
+
+  /**
+   * Converts an internal match into the public result.
+   */
+  private toScoredIngredient(match: EntryMatch): ScoredIngredient {
+    const scored: ScoredIngredient = { item: this.entries[match.entry], score: match.score };
+    const alias = this.keys[match.key].alias;
+    if (alias !== undefined) scored.alias = alias;
+    return scored;
+  }
+
+  /**
+   * Returns the text of the key at a position of the sorted order.
+   */
+  private textAt(position: number): string {
+    return this.keys[this.sorted[position]].text;
+  }
+
+  /**
+   * Compares two texts by UTF-16 code units, the order the prefix walk relies on.
+   */
+  private compareText(a: string, b: string): number {
+    if (a === b) return 0;
+    return a < b ? -1 : 1;
+  }
+
+  /**
+   * Scores exact matches and prefix matches.
+   *
+   * @param name Folded ingredient name.
+   * @param query Folded query.
+   * @returns Score contribution for exact/prefix matching.
+   */
+  private scoreExactAndPrefix(name: string, query: string): number {
+    if (name === query) return 120;
+    if (name.startsWith(query)) return 90;
+    return 0;
+  }
+
+  /**
+   * Scores word-prefix matches and general substring matches.
+   *
+   * - If any word in the ingredient starts with the query, it receives a higher score.
+   * - If the query appears anywhere as a substring, it receives a smaller boost.
+   *
+   * @param name Folded ingredient name.
+   * @param query Folded query.
+   * @returns Score contribution for word/substr matching.
+   */
+  private scoreWordAndSubstring(name: string, query: string): number {
+    if (name.split(/\s+/).some((word) => word.startsWith(query))) return 70;
+    if (name.includes(query)) return 50;
+    return 0;
+  }
+
+  /**
+   * Applies a small fuzzy match using Levenshtein distance.
+   *
+   * The distance is computed between the query and a short window from the start of the name.
+   * Distances above 3 are treated as non-matches; otherwise a score is awarded.
+   *
+   * @param name Folded ingredient name.
+   * @param query Folded query.
+   * @returns Score contribution for fuzzy matching.
+   */
+  private scoreFuzzy(name: string, query: string): number {
+    const window = name.slice(0, query.length + 2);
+    const distance = this.levenshtein(query, window);
+    if (distance > MAX_FUZZY_DISTANCE) return 0;
+    return Math.max(0, 40 - distance * 10);
+  }
+
+  /**
+   * Penalizes long ingredient names relative to the query length, capped at 10.
+   *
+   * This helps shorter, more direct matches appear earlier when other scores are similar.
+   *
+   * @param name Folded ingredient name.
+   * @param query Folded query.
+   * @returns A non-negative penalty value (to be subtracted from the score).
+   */
+  private lengthPenalty(name: string, query: string): number {
+    const diff = Math.max(0, name.length - query.length);
+    return Math.min(10, diff);
+  }
+
+  /**
+   * Computes the Levenshtein edit distance between two strings.
+   *
+   * This implementation uses a single-row dynamic programming approach.
+   *
+   * @param a First string.
+   * @param b Second string.
+   * @returns The edit distance (0 means identical).
+   */
+  private levenshtein(a: string, b: string): number {
+    const m = a.length,
+      n = b.length;
+    if (!m) return n;
+    if (!n) return m;
+    const dp = Array.from({ length: n + 1 }, (_, i) => i);
+    for (let i = 1; i <= m; i++) {
+      let prev = dp[0];
+      dp[0] = i;
+      for (let j = 1; j <= n; j++) {
+        const temp = dp[j],
+          cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + cost);
+        prev = temp;
+      }
+    }
+    return dp[n];
+  }
+}
@@ -0,0 +1,100 @@
+import { TestBed } from '@angular/core/testing';
+
+import { IngredientCatalogService } from './ingredient-catalog.service';
+import { INGREDIENTS } from '../../data/ingredients.data';
+import { LOCALIZED_INGREDIENT_ALIASES } from '../../data/ingredient-aliases.data';
+import { INGREDIENT_GROUPS } from '../../data/ingredient-groups.data';
+
+describe('IngredientCatalogService', () => {
+  let service: IngredientCatalogService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IngredientCatalogService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('has unique ids, names and aliases', () => {
+    const ids = service.entries.map((entry) => entry.id);
+    const keys = service.entries.flatMap((entry) =>
+      [entry.name, ...service.aliasesOf(entry)].map((name) => service.fold(name)),
+    );
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('keeps the flat name list in sync with the catalog', () => {
+    expect(INGREDIENTS.length).toBe(service.entries.length);
+    expect(INGREDIENTS).toContain('Red onion');
+  });
+
+  it('finds entries by name and alias, ignoring case, accents and whitespace', () => {
+    expect(service.find('  red   ONION ')?.id).toBe('red-onion');
+    expect(service.find('jalapeno')?.name).toBe('Jalapeño');
+    expect(service.find('Courgette')?.name).toBe('Zucchini');
+    expect(service.find('Unicorn dust')).toBeNull();
+  });
+
+  it('resolves localized aliases', () => {
+    expect(service.find('Kartoffel')?.name).toBe('Potato');
+    expect(service.find('SAHNE')?.name).toBe('Heavy cream');
+    expect(service.find('Mohre')?.name).toBe('Carrot');
+    expect(service.aliasesOf(service.getById('zucchini')!)).toEqual(['Courgette', 'Zucchino']);
+  });
+
+  it('only lists localized aliases for known catalog ids', () => {
+    for (const aliases of Object.values(LOCALIZED_INGREDIENT_ALIASES)) {
+      for (const id of Object.keys(aliases)) expect(service.getById(id)).withContext(id).not.toBeNull();
+    }
+  });
+
+  it('exposes category, default unit, density and diet flags', () => {
+    const milk = service.getById('milk')!;
+    expect(milk.category).toBe('dairy');
+    expect(milk.defaultUnit).toEqual({ name: 'ml', abbreviation: 'ml' });
+    expect(milk.density).toBeGreaterThan(1);
+    expect(milk.diet).toContain('vegetarian');
+    expect(milk.diet).not.toContain('vegan');
+    expect(service.find('Egg')?.defaultUnit.name).toBe('piece');
+  });
+
+  it('lists categories in catalog order and labels them', () => {
+    const fish = service.listByCategory('fish');
+    expect(fish.length).toBeGreaterThan(0);
+    expect(fish.every((entry) => entry.diet.includes('pescatarian'))).toBeTrue();
+    expect(service.categoryLabel('fish')).toBe('Fish & seafood');
+  });
+
+  it('expands names into the names and aliases of the ingredients they stand for', () => {
+    expect(service.expand(' Erdnuss ')).toEqual(['Erdnuss', 'Peanuts', 'Erdnüsse']);
+    expect(service.expand('Unicorn dust')).toEqual(['Unicorn dust']);
+
+    const shellfish = service.expand('SHELLFISH');
+    expect(shellfish).toContain('Schalentiere');
+    expect(shellfish).toContain('King prawns');
+    expect(shellfish).not.toContain('Salmon fillet');
+    expect(service.expand('Meeresfrüchte')).toContain('Salmon fillet');
+  });
+
+  it('only lists known catalog ids and unused names in ingredient groups', () => {
+    for (const group of INGREDIENT_GROUPS) {
+      for (const id of group.ids ?? []) expect(service.getById(id)).withContext(id).not.toBeNull();
+      for (const name of group.names) expect(service.find(name)).withContext(name).toBeNull();
+      expect(service.membersOf(group).length).withContext(group.id).toBeGreaterThan(0);
+    }
+  });
+
+  it('converts entries into suggestions with a copied default unit', () => {
+    expect(service.getById('flour')).toBeNull();
+    const suggestion = service.toSuggestion(service.getById('all-purpose-flour')!);
+    expect(suggestion).toEqual({
+      id: 'all-purpose-flour',
+      name: 'All-purpose flour',
+      category: 'baking',
+      defaultUnit: { name: 'gram', abbreviation: 'g' },
+    });
+  });
+});
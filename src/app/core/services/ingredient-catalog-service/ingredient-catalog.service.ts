@@ -0,0 +1,176 @@
+import { Injectable } from '@angular/core';
+
+import type {
+  CatalogIngredient,
+  IngredientCategory,
+  IngredientGroup,
+  IngredientSuggestion,
+} from '../../models/ingredient.model';
+import { INGREDIENT_CATALOG, INGREDIENT_CATEGORY_LABELS } from '../../data/ingredients.data';
+import { LOCALIZED_INGREDIENT_ALIASES } from '../../data/ingredient-aliases.data';
+import { INGREDIENT_GROUPS } from '../../data/ingredient-groups.data';
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Read-only access to the ingredient catalog (`INGREDIENT_CATALOG`).
+ *
+ * Lookup rules:
+ * - Names, English aliases and localized aliases (`LOCALIZED_INGREDIENT_ALIASES`) are
+ *   matched case-insensitively, ignoring accents and surrounding or repeated whitespace
+ *   (`' jalapeno '` ~ "Jalapeño", `'Möhre'` ~ "Carrot")
+ * - Catalog names take precedence over aliases
+ * - Ids are matched exactly
+ * - Group names (`INGREDIENT_GROUPS`) are matched like names, but only by `expand`
+ */
+export class IngredientCatalogService {
+  /** All catalog entries in catalog order. */
+  readonly entries: readonly CatalogIngredient[] = INGREDIENT_CATALOG;
+
+  /** Entries by normalized name and alias. */
+  private readonly byKey = new Map<string, CatalogIngredient>();
+
+  /** Entries by id. */
+  private readonly byId = new Map<string, CatalogIngredient>();
+
+  /** English and localized aliases by entry id. */
+  private readonly aliasesById = new Map<string, string[]>();
+
+  /** Ingredient groups by normalized group name. */
+  private readonly groupsByKey = new Map<string, IngredientGroup>();
+
+  /**
+   * Creates the service and indexes the catalog.
+   *
+   * Note: This service has no dependencies; the catalog is static.
+   */
+  constructor() {
+    for (const entry of this.entries) {
+      this.byId.set(entry.id, entry);
+      this.byKey.set(this.fold(entry.name), entry);
+      this.aliasesById.set(entry.id, [...(entry.aliases ?? [])]);
+    }
+    for (const aliases of Object.values(LOCALIZED_INGREDIENT_ALIASES)) {
+      for (const [id, names] of Object.entries(aliases)) this.aliasesById.get(id)?.push(...names);
+    }
+    for (const entry of this.entries) {
+      for (const alias of this.aliasesOf(entry)) {
+        const key = this.fold(alias);
+        if (!this.byKey.has(key)) this.byKey.set(key, entry);
+      }
+    }
+    for (const group of INGREDIENT_GROUPS) {
+      for (const name of group.names) this.groupsByKey.set(this.fold(name), group);
+    }
+  }
+
+  /**
+   * Finds the catalog entry for an ingredient name or alias.
+   *
+   * @param name Ingredient name as typed or returned by the LLM.
+   * @returns The entry or `null` if the name is not in the catalog.
+   */
+  find(name: string): CatalogIngredient | null {
+    return this.byKey.get(this.fold(name)) ?? null;
+  }
+
+  /**
+   * Returns the catalog entry with the given id.
+   *
+   * @param id Catalog id (e.g. `'red-onion'`).
+   * @returns The entry or `null` for unknown ids.
+   */
+  getById(id: string): CatalogIngredient | null {
+    return this.byId.get(id) ?? null;
+  }
+
+  /**
+   * Returns the English and localized aliases of an entry.
+   *
+   * @param entry Catalog entry.
+   */
+  aliasesOf(entry: CatalogIngredient): readonly string[] {
+    return this.aliasesById.get(entry.id) ?? [];
+  }
+
+  /**
+   * Expands a name into all names of the ingredients it stands for.
+   *
+   * - A catalog name or alias expands into the entry's name and aliases
+   *   (`'Erdnuss'` → "Peanuts", "Erdnuss", "Erdnüsse")
+   * - A group name expands into the group's names and the names and aliases of its members
+   *   (`'shellfish'` → "Shellfish", "Prawns", "King prawns", …)
+   *
+   * @param name Ingredient or group name, e.g. an excluded ingredient.
+   * @returns The trimmed name followed by its expansions, without duplicates.
+   */
+  expand(name: string): string[] {
+    const entry = this.find(name);
+    const group = entry ? null : this.groupsByKey.get(this.fold(name));
+    const members = entry ? [entry] : group ? this.membersOf(group) : [];
+    const names = [
+      name.trim(),
+      ...(group?.names ?? []),
+      ...members.flatMap((member) => [member.name, ...this.aliasesOf(member)]),
+    ];
+    return [...new Set(names)];
+  }
+
+  /**
+   * Returns all entries of a category in catalog order.
+   *
+   * @param category Category to list.
+   */
+  listByCategory(category: IngredientCategory): CatalogIngredient[] {
+    return this.entries.filter((entry) => entry.category === category);
+  }
+
+  /**
+   * Returns the members of an ingredient group in catalog order.
+   *
+   * @param group Ingredient group.
+   */
+  membersOf(group: IngredientGroup): CatalogIngredient[] {
+    return this.entries.filter((entry) => entry.category === group.category || group.ids?.includes(entry.id));
+  }
+
+  /**
+   * Returns the display label of a category (e.g. "Fish & seafood").
+   *
+   * @param category Category to label.
+   */
+  categoryLabel(category: IngredientCategory): string {
+    return INGREDIENT_CATEGORY_LABELS[category];
+  }
+
+  /**
+   * Converts a catalog entry into an autocomplete suggestion.
+   *
+   * @param entry Catalog entry.
+   * @param matchedAlias Alias the user typed, if the entry was found through one.
+   */
+  toSuggestion(entry: CatalogIngredient, matchedAlias?: string): IngredientSuggestion {
+    const suggestion: IngredientSuggestion = {
+      id: entry.id,
+      name: entry.name,
+      category: entry.category,
+      defaultUnit: { ...entry.defaultUnit },
+    };
+    if (matchedAlias) suggestion.matchedAlias = matchedAlias;
+    return suggestion;
+  }
+
+
+  /**
+   * Folds a name for matching and lookups (lowercase, no accents, single spaces).
+   *
+   * @param name Name or search term.
+   */
+  fold(name: string): string {
+    return name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, ' ');
+  }
+}
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+
+import { IngredientExclusionService } from './ingredient-exclusion.service';
+import { GeneratedRecipe } from '../../models/recipe.model';
+
+describe('IngredientExclusionService', () => {
+  let service: IngredientExclusionService;
+
+  const recipeWithExtras = (...names: string[]) =>
+    ({
+      ingredients: {
+        yourIngredients: [],
+        extraIngredients: names.map((ingredient) => ({
+          ingredient,
+          servingSize: 1,
+          unit: { name: 'piece', abbreviation: '' },
+        })),
+      },
+    }) as unknown as GeneratedRecipe;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IngredientExclusionService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('reports extra ingredients that contain an excluded ingredient with their path', () => {
+    const issues = service.findExcludedIngredients(
+      recipeWithExtras('Salt', 'Roasted peanuts', 'Fresh Coriander'),
+      ['peanut', 'coriander'],
+      'recipes[0]',
+    );
+
+    expect(issues).toEqual([
+      { path: 'recipes[0].ingredients.extraIngredients[1].ingredient', message: 'contains excluded ingredient "peanut"' },
+      { path: 'recipes[0].ingredients.extraIngredients[2].ingredient', message: 'contains excluded ingredient "coriander"' },
+    ]);
+  });
+
+  it('matches whole words and multi-word exclusions only', () => {
+    expect(service.isExcluded('Nutmeg', ['nut'])).toBeFalse();
+    expect(service.isExcluded('Dark soy sauce', ['Soy sauce'])).toBeTrue();
+    expect(service.isExcluded('Tomatoes', ['tomato'])).toBeTrue();
+    expect(service.isExcluded('Crème fraîche', ['creme fraiche'])).toBeTrue();
+  });
+
+  it('matches the canonical name and aliases of a catalog ingredient', () => {
+    expect(service.isExcluded('Roasted peanuts', ['Erdnuss'])).toBeTrue();
+    expect(service.isExcluded('Erdnüsse', ['Peanuts'])).toBeTrue();
+    expect(service.isExcluded('Grated zucchini', ['Courgette'])).toBeTrue();
+    expect(service.isExcluded('Peanut butter', ['Erdnuss'])).toBeTrue();
+  });
+
+  it('matches the members of an ingredient group', () => {
+    const issues = service.findExcludedIngredients(
+      recipeWithExtras('Tiger prawns', 'Salmon fillet', 'Garnelen', 'Lemon'),
+      ['shellfish'],
+    );
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'recipe.ingredients.extraIngredients[0].ingredient',
+      'recipe.ingredients.extraIngredients[2].ingredient',
+    ]);
+    expect(issues[0].message).toBe('contains excluded ingredient "shellfish"');
+    expect(service.isExcluded('Toasted walnuts', ['Nüsse'])).toBeTrue();
+    expect(service.isExcluded('Sesame seeds', ['nuts'])).toBeFalse();
+  });
+
+  it('accepts recipes when nothing is excluded', () => {
+    expect(service.findExcludedIngredients(recipeWithExtras('Peanuts'), [])).toEqual([]);
+    expect(service.findExcludedIngredients(recipeWithExtras('Peanuts'), ['  '])).toEqual([]);
+  });
+});
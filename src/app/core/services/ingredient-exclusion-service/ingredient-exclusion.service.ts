@@ -0,0 +1,93 @@
+import { Injectable } from '@angular/core';
+
+import type { GeneratedRecipe } from '../../models/recipe.model';
+import type { ValidationIssue } from '../../models/validation.model';
+import { containsWords, toNameStems } from '../../mappers/ingredient-name.mapper';
+import { IngredientCatalogService } from '../ingredient-catalog-service/ingredient-catalog.service';
+
+/**
+ * Excluded ingredient prepared for matching: the stems of each name it expands into.
+ */
+type ExclusionTerm = { name: string; stems: string[][] };
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Checks generated recipes against the ingredients the user excluded (allergies, dislikes).
+ *
+ * The LLM is told about the exclusions, but cannot be trusted to respect them. This service
+ * is the client-side safety net that runs before a recipe is persisted.
+ *
+ * Matching rules:
+ * - Each exclusion is expanded through the ingredient catalog into its canonical name,
+ *   its aliases and, for groups, the group members ("Erdnuss" ~ "Peanuts",
+ *   "shellfish" ~ "Prawns"); unknown names are matched as typed
+ * - Case, accents and punctuation are ignored
+ * - Whole words are compared, singular and plural forms match ("peanut" ~ "Peanuts")
+ * - Multi-word exclusions must appear as consecutive words ("soy sauce" ~ "Dark soy sauce")
+ * - Partial words never match ("nut" does not match "Nutmeg")
+ */
+export class IngredientExclusionService {
+  /**
+   * Creates the ingredient exclusion service.
+   *
+   * @param catalog Ingredient catalog expanding exclusions into names, aliases and group members.
+   */
+  constructor(private readonly catalog: IngredientCatalogService) {}
+
+  /**
+   * Finds extra ingredients of a recipe that match an excluded ingredient.
+   *
+   * @param recipe Validated recipe.
+   * @param excluded Names of excluded ingredients.
+   * @param path Path of the recipe used as prefix for reported issues.
+   * @returns One issue per offending ingredient (empty if the recipe is fine).
+   */
+  findExcludedIngredients(
+    recipe: GeneratedRecipe,
+    excluded: readonly string[],
+    path = 'recipe',
+  ): ValidationIssue[] {
+    const terms = this.toTerms(excluded);
+    if (!terms.length) return [];
+
+    return recipe.ingredients.extraIngredients.flatMap((item, index) => {
+      const match = this.findMatch(item.ingredient, terms);
+      if (!match) return [];
+      return [{
+        path: `${path}.ingredients.extraIngredients[${index}].ingredient`,
+        message: `contains excluded ingredient "${match}"`,
+      }];
+    });
+  }
+
+  /**
+   * Checks whether an ingredient name matches any excluded ingredient.
+   *
+   * @param name Ingredient name.
+   * @param excluded Names of excluded ingredients.
+   * @returns True if the ingredient is excluded.
+   */
+  isExcluded(name: string, excluded: readonly string[]): boolean {
+    return this.findMatch(name, this.toTerms(excluded)) !== null;
+  }
+
+  /**
+   * Prepares excluded names for matching; blank names are skipped.
+   */
+  private toTerms(excluded: readonly string[]): ExclusionTerm[] {
+    return excluded
+      .map((name) => ({
+        name: name.trim(),
+        stems: this.catalog.expand(name).map(toNameStems).filter((stems) => stems.length > 0),
+      }))
+      .filter((term) => term.stems.length > 0);
+  }
+
+  /**
+   * Returns the first excluded name with an expansion whose words appear in the ingredient name.
+   */
+  private findMatch(name: string, terms: ExclusionTerm[]): string | null {
+    const words = toNameStems(name);
+    return terms.find((term) => term.stems.some((stems) => containsWords(words, stems)))?.name ?? null;
+  }
+}
@@ -0,0 +1,84 @@
+import { TestBed } from '@angular/core/testing';
+
+import { IngredientListParserService } from './ingredient-list-parser.service';
+
+describe('IngredientListParserService', () => {
+  let service: IngredientListParserService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IngredientListParserService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('parses a pasted list into catalog ingredients', () => {
+    expect(service.parse('200g chicken breast, 2 onions, 1 cup basmati')).toEqual([
+      {
+        source: '200g chicken breast',
+        name: 'Chicken breast',
+        amount: 200,
+        unit: { name: 'gram', abbreviation: 'g' },
+        matched: true,
+      },
+      {
+        source: '2 onions',
+        name: 'Onion',
+        amount: 2,
+        unit: { name: 'piece', abbreviation: '' },
+        matched: true,
+      },
+      {
+        source: '1 cup basmati',
+        name: 'Basmati rice',
+        amount: 1,
+        unit: { name: 'cup', abbreviation: 'cup' },
+        matched: true,
+      },
+    ]);
+  });
+
+  it('resolves plurals and localized aliases', () => {
+    const names = service
+      .parse('3 tomatoes\n2 limes\n2 pork bellies\n4 Kartoffeln\n1 Zwiebel')
+      .map((entry) => entry.name);
+    expect(names).toEqual(['Tomato', 'Lime', 'Pork belly', 'Potato', 'Onion']);
+  });
+
+  it('uses the default unit of the matched entry for lines without unit', () => {
+    const [milk, eggs] = service.parse('Milch 500\n6 eggs');
+    expect(milk.unit).toEqual({ name: 'ml', abbreviation: 'ml' });
+    expect(milk.amount).toBe(500);
+    expect(eggs.unit.name).toBe('piece');
+  });
+
+  it('keeps unknown and ambiguous names as typed', () => {
+    const [unknown, ambiguous] = service.parse('2 unicorn steaks, 1 kg rice');
+    expect(unknown).toEqual({
+      source: '2 unicorn steaks',
+      name: 'unicorn steaks',
+      amount: 2,
+      unit: { name: 'piece', abbreviation: '' },
+      matched: false,
+    });
+    expect(ambiguous.name).toBe('rice');
+    expect(ambiguous.matched).toBeFalse();
+  });
+
+  it('resolves unit spellings to canonical units', () => {
+    const units = service.parse('2 Tbsp. olive oil\n3 Zehen Knoblauch\n1 1/2 litres milk').map((entry) => entry.unit);
+    expect(units).toEqual([
+      { name: 'tablespoon', abbreviation: 'tbsp' },
+      { name: 'clove', abbreviation: '' },
+      { name: 'liter', abbreviation: 'l' },
+    ]);
+  });
+
+  it('leaves the amount open for lines without quantity', () => {
+    const [salt] = service.parse('- Salt');
+    expect(salt.amount).toBeNull();
+    expect(salt.name).toBe('Salt');
+  });
+});
@@ -0,0 +1,120 @@
+import { Injectable } from '@angular/core';
+
+import type { UnitOfMeasurement } from '../../models/recipe.model';
+import type { CatalogIngredient, ParsedIngredientLine, PastedIngredient } from '../../models/ingredient.model';
+import { parseIngredientList } from '../../mappers/ingredient-list.mapper';
+import { IngredientCatalogService } from '../ingredient-catalog-service/ingredient-catalog.service';
+import { IngredientAutocompleteService } from '../ingredient-autocomplete-service/ingredient-autocomplete.service';
+import { UnitRegistryService } from '../unit-registry-service/unit-registry.service';
+
+/**
+ * Plural endings tried when a pasted name is not in the catalog as typed
+ * ("onions" → "onion", "pork bellies" → "pork belly", "Kartoffeln" → "Kartoffel").
+ */
+const PLURAL_ENDINGS: readonly { suffix: string; replacement: string }[] = [
+  { suffix: 'ies', replacement: 'y' },
+  { suffix: 'es', replacement: '' },
+  { suffix: 's', replacement: '' },
+  { suffix: 'en', replacement: '' },
+  { suffix: 'n', replacement: '' },
+];
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Turns a pasted ingredient list ("200g chicken breast, 2 onions, 1 cup rice") into
+ * ingredients for the preview of the ingredient form.
+ *
+ * Matching rules for every parsed name:
+ * - Catalog names and aliases are looked up as typed, then with common plural endings removed
+ * - Otherwise the autocomplete scorer's best match is used if it is close and unambiguous
+ * - Names without match are kept as typed
+ *
+ * Unit words are resolved by the unit registry; lines without unit get the default unit
+ * of the matched entry (or "piece").
+ */
+export class IngredientListParserService {
+  /**
+   * Parses a pasted ingredient list.
+   *
+   * @param text Pasted text.
+   * @returns One preview entry per ingredient line, in pasted order.
+   */
+  parse(text: string): PastedIngredient[] {
+    return parseIngredientList(text, (word) => this.findUnit(word)).map((line) => this.toPastedIngredient(line));
+  }
+
+  /**
+   * Looks up a unit word in the unit registry.
+   *
+   * @param word Unit word as pasted.
+   * @returns The canonical unit or `null` for unknown words.
+   */
+  private findUnit(word: string): UnitOfMeasurement | null {
+    const unit = this.unitRegistry.find(word);
+    return unit ? this.unitRegistry.toUnitOfMeasurement(unit) : null;
+  }
+
+  /**
+   * Matches a parsed line against the catalog.
+   *
+   * @param line Parsed line.
+   */
+  private toPastedIngredient(line: ParsedIngredientLine): PastedIngredient {
+    const match = this.match(line.name);
+    return {
+      source: line.source,
+      name: match?.name ?? line.name,
+      amount: line.amount,
+      unit: line.unit ?? this.defaultUnit(match),
+      matched: match !== null,
+    };
+  }
+
+  /**
+   * Finds the catalog entry for a typed name.
+   *
+   * @param name Ingredient name as typed.
+   * @returns The matching entry or `null`.
+   */
+  private match(name: string): Pick<CatalogIngredient, 'name' | 'defaultUnit'> | null {
+    for (const candidate of [name, ...this.singularForms(name)]) {
+      const entry = this.catalog.find(candidate);
+      if (entry) return entry;
+    }
+    return this.ingredientAutocomplete.bestMatch(name);
+  }
+
+  /**
+   * Returns the name with each known plural ending removed.
+   *
+   * @param name Ingredient name as typed.
+   */
+  private singularForms(name: string): string[] {
+    const lower = name.toLowerCase();
+    return PLURAL_ENDINGS.filter(({ suffix }) => lower.endsWith(suffix) && lower.length > suffix.length + 2).map(
+      ({ suffix, replacement }) => name.slice(0, -suffix.length) + replacement,
+    );
+  }
+
+  /**
+   * Returns a copy of the default unit of a matched entry, "piece" without match.
+   *
+   * @param match Matched catalog entry.
+   */
+  private defaultUnit(match: Pick<CatalogIngredient, 'defaultUnit'> | null): UnitOfMeasurement {
+    return match ? { ...match.defaultUnit } : this.unitRegistry.normalize(null);
+  }
+
+  /**
+   * Creates the service.
+   *
+   * @param catalog Ingredient catalog used for exact name and alias lookups.
+   * @param ingredientAutocomplete Autocomplete scorer used for approximate matches.
+   * @param unitRegistry Registry resolving pasted unit words.
+   */
+  constructor(
+    private readonly catalog: IngredientCatalogService,
+    private readonly ingredientAutocomplete: IngredientAutocompleteService,
+    private readonly unitRegistry: UnitRegistryService,
+  ) {}
+}
@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+
+import type { UiIngredient } from '../../models/recipe.model';
+import { IngredientMergeService } from './ingredient-merge.service';
+
+describe('IngredientMergeService', () => {
+  let service: IngredientMergeService;
+
+  const row = (ingredient: string, servingSize: number, name: string, abbreviation = ''): UiIngredient => ({
+    ingredient,
+    servingSize,
+    unit: { name, abbreviation },
+    isEditMode: false,
+    isUnitDropdownOpen: false,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IngredientMergeService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('returns null for unique ingredients', () => {
+    const added = row('Onion', 1, 'piece');
+    expect(service.findDuplicate(added, [added, row('Garlic', 2, 'clove'), row('Red onion', 1, 'piece')])).toBeNull();
+  });
+
+  it('merges the same unit', () => {
+    const existing = row('Onion', 1, 'piece');
+    const added = row('Onion', 1, 'piece');
+    expect(service.findDuplicate(added, [added, existing])).toEqual({ added, existing, merged: 2 });
+  });
+
+  it('merges convertible units into the unit of the existing row', () => {
+    const existing = row('Milk', 200, 'ml', 'ml');
+    const added = row('milk', 0.3, 'liter', 'l');
+    expect(service.findDuplicate(added, [added, existing])?.merged).toBe(500);
+  });
+
+  it('uses the catalog density for weights and volumes', () => {
+    const existing = row('Milk', 1, 'liter', 'l');
+    const added = row('Milk', 103, 'gram', 'g');
+    expect(service.findDuplicate(added, [existing, added])?.merged).toBe(1.1);
+  });
+
+  it('identifies ingredients by catalog aliases and by name outside the catalog', () => {
+    const onion = row('Onion', 1, 'piece');
+    const zwiebel = row('Zwiebel', 2, 'piece');
+    expect(service.findDuplicate(zwiebel, [zwiebel, onion])?.existing).toBe(onion);
+
+    const custom = row('Grandma’s spice mix', 1, 'teaspoon', 'tsp');
+    const again = row(' grandma’s spice mix ', 1, 'tablespoon', 'tbsp');
+    expect(service.findDuplicate(again, [again, custom])?.merged).toBe(4);
+  });
+
+  it('reports incompatible units without merged amount', () => {
+    const existing = row('Milk', 200, 'ml', 'ml');
+    const added = row('Milk', 2, 'piece');
+    expect(service.findDuplicate(added, [added, existing])).toEqual({ added, existing, merged: null });
+    expect(service.findDuplicate(row('Garlic', 1, 'clove'), [row('Garlic', 10, 'gram', 'g')])?.merged).toBeNull();
+  });
+});
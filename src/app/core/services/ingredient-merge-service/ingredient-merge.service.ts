@@ -0,0 +1,73 @@
+import { Injectable } from '@angular/core';
+
+import type { UiIngredient } from '../../models/recipe.model';
+import type { IngredientDuplicate } from '../../models/ingredient.model';
+import { IngredientCatalogService } from '../ingredient-catalog-service/ingredient-catalog.service';
+import { UnitRegistryService } from '../unit-registry-service/unit-registry.service';
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Detects duplicate rows in the ingredient list of the form and combines their amounts.
+ *
+ * Rules:
+ * - Two rows are the same ingredient if they resolve to the same catalog entry (names and
+ *   aliases, case-insensitive: "Onion" ~ "onion", "Zwiebel" ~ "Onion"); names outside the
+ *   catalog have to match case-insensitively
+ * - Amounts are combined in the unit of the existing row, converting the added amount via
+ *   the unit registry (including the catalog density for g ↔ ml)
+ * - Counted units only combine with the same unit; incompatible units are not merged
+ */
+export class IngredientMergeService {
+  /**
+   * Finds an existing row for the same ingredient.
+   *
+   * @param added Row that was just added or edited.
+   * @param ingredients Current ingredient list (may contain `added`).
+   * @returns The duplicate with its merged amount, or `null` if the ingredient is unique.
+   */
+  findDuplicate(added: UiIngredient, ingredients: readonly UiIngredient[]): IngredientDuplicate | null {
+    const key = this.keyOf(added.ingredient);
+    const existing = ingredients.find((other) => other !== added && this.keyOf(other.ingredient) === key);
+    if (!existing) return null;
+    return { added, existing, merged: this.mergedAmount(existing, added) };
+  }
+
+  /**
+   * Adds the amount of `added` to the amount of `existing`.
+   *
+   * @param existing Row whose unit is kept.
+   * @param added Row whose amount is added.
+   * @returns The combined amount rounded to 2 decimals, or `null` if the units are incompatible.
+   */
+  private mergedAmount(existing: UiIngredient, added: UiIngredient): number | null {
+    const converted = this.unitRegistry.convertIngredient(
+      Number(added.servingSize),
+      added.unit,
+      existing.unit,
+      existing.ingredient,
+    );
+    if (converted === null) return null;
+    return Math.round((Number(existing.servingSize) + converted) * 100) / 100;
+  }
+
+  /**
+   * Returns the key identifying an ingredient: its catalog id, or the lowercase name.
+   *
+   * @param name Ingredient name as stored in the list.
+   */
+  private keyOf(name: string): string {
+    const entry = this.catalog.find(name);
+    return entry ? `catalog:${entry.id}` : name.trim().toLowerCase();
+  }
+
+  /**
+   * Creates the service.
+   *
+   * @param catalog Ingredient catalog used to identify ingredients across spellings.
+   * @param unitRegistry Registry converting amounts between units.
+   */
+  constructor(
+    private readonly catalog: IngredientCatalogService,
+    private readonly unitRegistry: UnitRegistryService,
+  ) {}
+}
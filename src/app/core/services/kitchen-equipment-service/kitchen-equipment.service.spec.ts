@@ -0,0 +1,40 @@
+import { TestBed } from '@angular/core/testing';
+
+import { KitchenEquipmentService } from './kitchen-equipment.service';
+import { StateService } from '../state-service/state.service';
+
+describe('KitchenEquipmentService', () => {
+  let service: KitchenEquipmentService;
+  let state: StateService;
+
+  beforeEach(() => {
+    localStorage.removeItem('cac_equipment');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(KitchenEquipmentService);
+    state = TestBed.inject(StateService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('cac_equipment');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('toggles equipment in the requirements in option order', () => {
+    service.toggle('microwave');
+    service.toggle('oven');
+    expect(state.recipeRequirements.equipment).toEqual(['oven', 'microwave']);
+
+    service.toggle('oven');
+    expect(state.recipeRequirements.equipment).toEqual(['microwave']);
+  });
+
+  it('restores the persisted selection and drops unknown values', () => {
+    localStorage.setItem('cac_equipment', JSON.stringify(['hob', 'teleporter']));
+    const restoredState = new StateService();
+    new KitchenEquipmentService(restoredState);
+    expect(restoredState.recipeRequirements.equipment).toEqual(['hob']);
+  });
+});
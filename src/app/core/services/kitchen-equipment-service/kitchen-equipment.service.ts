@@ -0,0 +1,89 @@
+import { Injectable } from '@angular/core';
+
+import type { KitchenEquipment } from '../../models/recipe.model';
+import { StateService } from '../state-service/state.service';
+
+/**
+ * localStorage key under which the selected kitchen equipment is persisted.
+ */
+const STORAGE_KEY = 'cac_equipment';
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Keeps the kitchen equipment available on this device.
+ *
+ * Responsibilities:
+ * - Restore the persisted selection into `state.recipeRequirements.equipment`
+ * - Toggle equipment in the current requirements and persist the selection (localStorage)
+ *
+ * An empty selection means "no constraints" (a fully equipped kitchen).
+ */
+export class KitchenEquipmentService {
+  /**
+   * Creates the service and restores the persisted selection into state.
+   *
+   * @param state Application state container holding the current requirements.
+   */
+  constructor(private readonly state: StateService) {
+    this.restore();
+  }
+
+  /**
+   * Returns all equipment the user can choose from.
+   */
+  get options(): readonly KitchenEquipment[] {
+    return this.state.preferencesOptions.equipment.map((option) => option.value);
+  }
+
+  /**
+   * Checks whether a piece of equipment is selected.
+   *
+   * @param item Equipment to check.
+   */
+  isSelected(item: KitchenEquipment): boolean {
+    return this.state.recipeRequirements.equipment.includes(item);
+  }
+
+  /**
+   * Selects or deselects a piece of equipment and persists the selection.
+   *
+   * The selection is kept in the order of the options.
+   *
+   * @param item Equipment to toggle.
+   */
+  toggle(item: KitchenEquipment): void {
+    const selected = new Set(this.state.recipeRequirements.equipment);
+    if (selected.has(item)) selected.delete(item);
+    else selected.add(item);
+
+    this.state.recipeRequirements.equipment = this.options.filter((option) => selected.has(option));
+    this.persist();
+  }
+
+  /**
+   * Restores the persisted selection into the current requirements.
+   *
+   * Unknown values (e.g. from an older version) are dropped.
+   */
+  private restore(): void {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+      if (!Array.isArray(parsed)) return;
+      this.state.recipeRequirements.equipment = this.options.filter((option) => parsed.includes(option));
+    } catch {
+      // Ignore unreadable entries; the selection simply starts empty.
+    }
+  }
+
+  /**
+   * Writes the current selection to localStorage.
+   */
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state.recipeRequirements.equipment));
+    } catch {
+      // Storage may be unavailable (private mode, quota); the in-memory state still applies.
+    }
+  }
+}
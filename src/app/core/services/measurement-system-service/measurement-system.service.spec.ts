@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+
+import type { RecipeIngredient } from '../../models/recipe.model';
+import { MeasurementSystemService } from './measurement-system.service';
+import { UnitRegistryService } from '../unit-registry-service/unit-registry.service';
+
+describe('MeasurementSystemService', () => {
+  let service: MeasurementSystemService;
+
+  const item = (servingSize: number, name: string, abbreviation: string, ingredient = 'Flour'): RecipeIngredient => ({
+    ingredient,
+    servingSize,
+    unit: { name, abbreviation },
+  });
+
+  beforeEach(() => {
+    localStorage.removeItem('cac_measurement_system');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(MeasurementSystemService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('defaults to metric and persists the selected system', () => {
+    expect(service.system).toBe('metric');
+    service.setSystem('us');
+    expect(service.system).toBe('us');
+    expect(localStorage.getItem('cac_measurement_system')).toBe('us');
+  });
+
+  it('falls back to metric and keeps the selection when storage is unavailable', () => {
+    spyOn(Storage.prototype, 'getItem').and.throwError('SecurityError');
+    spyOn(Storage.prototype, 'setItem').and.throwError('QuotaExceededError');
+
+    const isolated = new MeasurementSystemService(TestBed.inject(UnitRegistryService));
+    expect(isolated.system).toBe('metric');
+    isolated.setSystem('us');
+    expect(isolated.system).toBe('us');
+  });
+
+  describe('metric', () => {
+    it('keeps metric, kitchen and counted units as stored', () => {
+      expect(service.formatAmount(item(250, 'gram', 'g'))).toBe('250g');
+      expect(service.formatAmount(item(0.5, 'liter', 'l'))).toBe('0.5l');
+      expect(service.formatAmount(item(2, 'tablespoon', 'tbsp'))).toBe('2tbsp');
+      expect(service.formatAmount(item(2, 'piece', ''))).toBe('2 piece');
+      expect(service.formatAmount(item(1, 'splash', ''))).toBe('1 splash');
+    });
+
+    it('converts imperial units with sensible rounding', () => {
+      expect(service.formatAmount(item(8, 'ounce', 'oz'))).toBe('225g');
+      expect(service.formatAmount(item(0.25, 'ounce', 'oz'))).toBe('7.1g');
+      expect(service.formatAmount(item(3, 'pound', 'lb'))).toBe('1.36kg');
+      expect(service.formatAmount(item(2, 'fluid ounce', 'fl oz'))).toBe('59ml');
+      expect(service.formatAmount(item(1, 'gallon', 'gal'))).toBe('3.79l');
+    });
+  });
+
+  describe('us', () => {
+    beforeEach(() => service.setSystem('us'));
+
+    it('converts metric weights into ounces and pounds', () => {
+      expect(service.formatAmount(item(250, 'gram', 'g'))).toBe('8¾ oz');
+      expect(service.formatAmount(item(500, 'gram', 'g'))).toBe('1⅛ lb');
+      expect(service.formatAmount(item(1.5, 'kilogram', 'kg'))).toBe('3⅓ lb');
+    });
+
+    it('converts metric volumes into spoons, cups and quarts', () => {
+      expect(service.formatAmount(item(5, 'ml', 'ml'))).toBe('1 tsp');
+      expect(service.formatAmount(item(30, 'ml', 'ml'))).toBe('2 tbsp');
+      expect(service.formatAmount(item(120, 'ml', 'ml'))).toBe('½ cup');
+      expect(service.formatAmount(item(480, 'ml', 'ml'))).toBe('2 cups');
+      expect(service.formatAmount(item(1.9, 'liter', 'l'))).toBe('2 qt');
+    });
+
+    it('shows tiny weights of ingredients with known density in spoons', () => {
+      expect(service.formatAmount(item(10, 'gram', 'g', 'Butter'))).toBe('2¼ tsp');
+      expect(service.formatAmount(item(5, 'gram', 'g', 'Unicorn dust'))).toBe('⅛ oz');
+    });
+
+    it('writes kitchen and imperial units with fractions', () => {
+      expect(service.formatAmount(item(0.33, 'cup', 'cup'))).toBe('⅓ cup');
+      expect(service.formatAmount(item(1.5, 'cup', 'cup'))).toBe('1½ cups');
+      expect(service.formatAmount(item(0.5, 'tablespoon', 'tbsp'))).toBe('½ tbsp');
+      expect(service.formatAmount(item(2, 'pinch', ''))).toBe('2 pinches');
+      expect(service.formatAmount(item(12.4, 'ounce', 'oz'))).toBe('12 oz');
+    });
+
+    it('keeps counted and unknown units as stored', () => {
+      expect(service.formatAmount(item(2, 'cloves', ''))).toBe('2 cloves');
+      expect(service.formatAmount(item(1, 'splash', ''))).toBe('1 splash');
+    });
+  });
+
+  it('does not change the ingredient', () => {
+    service.setSystem('us');
+    const ingredient = item(250, 'gram', 'g');
+    service.formatAmount(ingredient);
+    expect(ingredient).toEqual(item(250, 'gram', 'g'));
+  });
+});
@@ -0,0 +1,233 @@
+import { Injectable } from '@angular/core';
+
+import type { RecipeIngredient, UnitOfMeasurement } from '../../models/recipe.model';
+import type { MeasurementSystem, UnitDefinition } from '../../models/unit.model';
+import { UnitRegistryService } from '../unit-registry-service/unit-registry.service';
+
+/**
+ * localStorage key under which the measurement system is persisted.
+ */
+const STORAGE_KEY = 'cac_measurement_system';
+
+/**
+ * Fractions US amounts are rounded to, with their display symbol.
+ */
+const FRACTIONS: readonly { value: number; symbol: string }[] = [
+  { value: 0, symbol: '' },
+  { value: 1 / 8, symbol: '⅛' },
+  { value: 1 / 4, symbol: '¼' },
+  { value: 1 / 3, symbol: '⅓' },
+  { value: 1 / 2, symbol: '½' },
+  { value: 2 / 3, symbol: '⅔' },
+  { value: 3 / 4, symbol: '¾' },
+  { value: 1, symbol: '' },
+];
+
+/**
+ * Upper bounds (exclusive, in ml) of the US volume units, smallest first.
+ */
+const US_VOLUME_UNITS: readonly { id: string; below: number }[] = [
+  { id: 'teaspoon', below: 15 },
+  { id: 'tablespoon', below: 60 },
+  { id: 'cup', below: 946.4 },
+  { id: 'quart', below: Infinity },
+];
+
+/**
+ * Grams below which a metric weight is shown in spoons if the ingredient's density is known.
+ */
+const SPOON_MAX_GRAMS = 14;
+
+/**
+ * Amount prepared for display: the converted value and the unit to show it in.
+ */
+type DisplayAmount = { value: number; unit: UnitDefinition };
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Manages the measurement system recipe amounts are displayed in and formats amounts for it.
+ *
+ * Responsibilities:
+ * - Persist the chosen system per device (localStorage), metric by default
+ * - Format ingredient amounts in that system without changing the recipe itself
+ *
+ * Display rules:
+ * - Metric: imperial weights and volumes become g/kg and ml/l, rounded to sensible steps
+ *   (1 decimal below 10, whole numbers below 100, steps of 5 above)
+ * - US: metric weights become oz/lb (tiny weights of ingredients with known density become
+ *   spoons), metric volumes become tsp, tbsp, cups or quarts; amounts are shown as fractions
+ *   (`'½ cup'`, `'1¼ lb'`)
+ * - Kitchen units (spoons, cups, pinches) are used by both systems and are not converted;
+ *   counted and unknown units are always shown as stored
+ */
+export class MeasurementSystemService {
+  /** Currently selected measurement system. */
+  private current: MeasurementSystem;
+
+  /**
+   * Creates the service and restores the persisted measurement system.
+   *
+   * @param unitRegistry Registry resolving and converting the units of recipe ingredients.
+   */
+  constructor(private readonly unitRegistry: UnitRegistryService) {
+    this.current = this.restore();
+  }
+
+  /**
+   * Returns the selected measurement system.
+   */
+  get system(): MeasurementSystem {
+    return this.current;
+  }
+
+  /**
+   * Selects and persists a measurement system.
+   *
+   * @param system Measurement system to display amounts in.
+   */
+  setSystem(system: MeasurementSystem): void {
+    this.current = system;
+    try {
+      localStorage.setItem(STORAGE_KEY, system);
+    } catch {
+      // Storage may be unavailable (private mode, quota); the selection still applies for this session.
+    }
+  }
+
+  /**
+   * Formats the amount of an ingredient in the selected measurement system.
+   *
+   * Amounts that need no conversion keep the established format:
+   * `{amount}{abbreviation}` (`'250g'`), `{amount} {name}` (`'2 piece'`) or `{amount}`.
+   *
+   * @param ingredient Ingredient to format; it is not modified.
+   * @returns Formatted amount string.
+   */
+  formatAmount(ingredient: RecipeIngredient): string {
+    const amount = Number(ingredient.servingSize);
+    const unit = this.unitRegistry.resolve(ingredient.unit);
+    if (!unit || !Number.isFinite(amount) || amount <= 0) return this.formatStored(ingredient);
+
+    if (this.current === 'metric') {
+      if (unit.system !== 'imperial') return this.formatStored(ingredient);
+      const metric = this.toMetric(amount, unit);
+      return `${this.roundMetric(metric)}${metric.unit.abbreviation}`;
+    }
+
+    if (unit.system === 'universal') return this.formatStored(ingredient);
+    const us = unit.system === 'metric' ? this.toUs(amount, unit, ingredient.ingredient) : { value: amount, unit };
+    return this.formatUs(us);
+  }
+
+  /**
+   * Formats an amount as stored with the recipe.
+   *
+   * @param ingredient Ingredient to format.
+   */
+  private formatStored(ingredient: RecipeIngredient): string {
+    const amount = ingredient.servingSize;
+    const unit: UnitOfMeasurement | undefined = ingredient.unit;
+    if (!unit) return `${amount}`;
+    if (unit.abbreviation) return `${amount}${unit.abbreviation}`;
+    if (unit.name) return `${amount} ${unit.name}`;
+    return `${amount}`;
+  }
+
+  /**
+   * Converts an imperial amount into grams/kilograms or milliliters/liters.
+   *
+   * @param amount Amount in `unit`.
+   * @param unit Imperial unit.
+   */
+  private toMetric(amount: number, unit: UnitDefinition): DisplayAmount {
+    const base = amount * unit.toBase;
+    const [small, large] = unit.dimension === 'mass' ? ['gram', 'kilogram'] : ['milliliter', 'liter'];
+    const target = this.unitRegistry.getById(base >= 1000 ? large : small)!;
+    return { value: base / target.toBase, unit: target };
+  }
+
+  /**
+   * Converts a metric amount into the US unit that reads best.
+   *
+   * @param amount Amount in `unit`.
+   * @param unit Metric unit.
+   * @param ingredient Ingredient name, used to look up its density.
+   */
+  private toUs(amount: number, unit: UnitDefinition, ingredient: string): DisplayAmount {
+    const base = amount * unit.toBase;
+    if (unit.dimension === 'volume') return this.toUsVolume(base);
+
+    if (base < SPOON_MAX_GRAMS) {
+      const milliliters = this.unitRegistry.convertIngredient(base, 'g', 'ml', ingredient);
+      if (milliliters !== null) return this.toUsVolume(milliliters);
+    }
+    const target = this.unitRegistry.getById(base < 453.6 ? 'ounce' : 'pound')!;
+    return { value: base / target.toBase, unit: target };
+  }
+
+  /**
+   * Picks the US volume unit for an amount of milliliters.
+   *
+   * @param milliliters Volume in ml.
+   */
+  private toUsVolume(milliliters: number): DisplayAmount {
+    const { id } = US_VOLUME_UNITS.find(({ below }) => milliliters < below)!;
+    const target = this.unitRegistry.getById(id)!;
+    return { value: milliliters / target.toBase, unit: target };
+  }
+
+  /**
+   * Formats a US amount as fraction with a spaced unit (`'1½ cups'`, `'8 oz'`, `'2 pinches'`).
+   *
+   * @param amount Amount and unit to display.
+   */
+  private formatUs({ value, unit }: DisplayAmount): string {
+    const amount = this.toFraction(value);
+    if (unit.abbreviation && unit.abbreviation !== unit.name) return `${amount} ${unit.abbreviation}`;
+    return `${amount} ${Math.round(value * 8) > 8 ? unit.plural : unit.name}`;
+  }
+
+  /**
+   * Rounds a metric amount: kilograms and liters to 2 decimals, grams and milliliters to
+   * 1 decimal below 10, whole numbers below 100 and steps of 5 above.
+   *
+   * @param amount Converted amount.
+   */
+  private roundMetric({ value, unit }: DisplayAmount): number {
+    if (unit.toBase >= 1000) return Math.round(value * 100) / 100;
+    if (value < 10) return Math.round(value * 10) / 10;
+    if (value < 100) return Math.round(value);
+    return Math.round(value / 5) * 5;
+  }
+
+  /**
+   * Writes an amount as whole number and common fraction (`1.5` → `'1½'`, `0.33` → `'⅓'`).
+   *
+   * Amounts from 10 are rounded to whole numbers; tiny amounts are shown as `'⅛'`.
+   *
+   * @param value Positive amount.
+   */
+  private toFraction(value: number): string {
+    if (value >= 10) return `${Math.round(value)}`;
+
+    let whole = Math.floor(value);
+    const rest = value - whole;
+    const nearest = FRACTIONS.reduce((best, fraction) =>
+      Math.abs(rest - fraction.value) < Math.abs(rest - best.value) ? fraction : best,
+    );
+    if (nearest.value === 1) whole += 1;
+    if (whole === 0 && !nearest.symbol) return '⅛';
+    return `${whole || ''}${nearest.symbol}`;
+  }
+
+  /**
+   * Loads the persisted measurement system; falls back to metric.
+   */
+  private restore(): MeasurementSystem {
+    try {
+      return localStorage.getItem(STORAGE_KEY) === 'us' ? 'us' : 'metric';
+    } catch {
+      return 'metric';
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PantryService } from './pantry.service';
+
+describe('PantryService', () => {
+  let service: PantryService;
+
+  const unit = { name: 'gram', abbreviation: 'g' };
+
+  beforeEach(() => {
+    localStorage.removeItem('cac_pantry');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PantryService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('cac_pantry');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('starts with the default staples', () => {
+    expect(service.staples).toEqual(['Salt', 'Black pepper', 'Olive oil', 'Vegetable oil', 'Water']);
+  });
+
+  it('only accepts ingredients from the catalog in their canonical spelling', () => {
+    expect(service.add(' unsalted butter ')).toBeTrue();
+    expect(service.add('Unsalted butter')).toBeFalse();
+    expect(service.add('Unicorn dust')).toBeFalse();
+    expect(service.staples).toContain('Unsalted butter');
+  });
+
+  it('persists changes across instances', () => {
+    service.remove('Water');
+    service.add('Brown sugar');
+    const restored = new PantryService();
+    expect(restored.staples).not.toContain('Water');
+    expect(restored.staples).toContain('Brown sugar');
+  });
+
+  it('keeps an intentionally empty list', () => {
+    for (const staple of [...service.staples]) service.remove(staple);
+    expect(new PantryService().staples).toEqual([]);
+  });
+
+  it('keeps working when storage is unavailable', () => {
+    spyOn(Storage.prototype, 'getItem').and.throwError('SecurityError');
+    spyOn(Storage.prototype, 'setItem').and.throwError('QuotaExceededError');
+
+    const isolated = new PantryService();
+    expect(isolated.staples).toContain('Salt');
+    expect(isolated.add('Brown sugar')).toBeTrue();
+    expect(isolated.staples).toContain('Brown sugar');
+  });
+
+  it('matches staples at the end of ingredient names', () => {
+    expect(service.isStaple('Sea salt')).toBeTrue();
+    expect(service.isStaple('Extra virgin olive oil')).toBeTrue();
+    expect(service.isStaple('Freshly ground black pepper')).toBeTrue();
+    expect(service.isStaple('Salt, to taste')).toBeTrue();
+    expect(service.isStaple('Water (lukewarm)')).toBeTrue();
+    expect(service.isStaple('Water chestnuts')).toBeFalse();
+    expect(service.isStaple('Unsalted butter')).toBeFalse();
+    expect(service.isStaple('Bell pepper')).toBeFalse();
+  });
+
+  it('splits extra ingredients into staples and missing ingredients', () => {
+    const split = service.splitExtras([
+      { ingredient: 'Salt', servingSize: 1, unit },
+      { ingredient: 'Parmesan', servingSize: 50, unit },
+      { ingredient: 'Olive oil', servingSize: 2, unit },
+    ]);
+    expect(split.staples.map((item) => item.ingredient)).toEqual(['Salt', 'Olive oil']);
+    expect(split.missing.map((item) => item.ingredient)).toEqual(['Parmesan']);
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable } from '@angular/core';
+
+import type { RecipeIngredient } from '../../models/recipe.model';
+import { INGREDIENTS } from '../../data/ingredients.data';
+import { endsWithWords, stripIngredientNotes, toNameWords } from '../../mappers/ingredient-name.mapper';
+
+/**
+ * localStorage key under which the pantry staples are persisted.
+ */
+const STORAGE_KEY = 'cac_pantry';
+
+/**
+ * Staples assumed to be available until the user changes the list.
+ */
+const DEFAULT_STAPLES: readonly string[] = ['Salt', 'Black pepper', 'Olive oil', 'Vegetable oil', 'Water'];
+
+/**
+ * Extra ingredients of a recipe split into staples and genuinely missing ingredients.
+ */
+export type PantrySplit = { missing: RecipeIngredient[]; staples: RecipeIngredient[] };
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Manages the pantry staples that are always assumed to be available (salt, pepper, oil, …).
+ *
+ * Responsibilities:
+ * - Persist the staples per device (localStorage); only names from `INGREDIENTS` are accepted
+ * - Tell whether a recipe ingredient is covered by a staple
+ * - Split the extra ingredients of a recipe into staples and missing ingredients
+ *
+ * Matching rules:
+ * - Case, accents and punctuation are ignored
+ * - The staple must form the end of the ingredient name ("Sea salt" ~ "Salt",
+ *   "Extra virgin olive oil" ~ "Olive oil", but "Water chestnuts" is not "Water")
+ * - Notes in parentheses and after a comma are ignored ("Salt, to taste")
+ */
+export class PantryService {
+  /** Current staples in canonical `INGREDIENTS` spelling. */
+  private items: string[];
+
+  /**
+   * Creates the service and restores the persisted staples.
+   */
+  constructor() {
+    this.items = this.restore();
+  }
+
+  /**
+   * Returns the current pantry staples.
+   */
+  get staples(): readonly string[] {
+    return this.items;
+  }
+
+  /**
+   * Adds a staple.
+   *
+   * The name is resolved case-insensitively against `INGREDIENTS`; unknown names and
+   * duplicates are ignored.
+   *
+   * @param name Ingredient name.
+   * @returns True if the staple was added.
+   */
+  add(name: string): boolean {
+    const canonical = this.toCanonical(name);
+    if (!canonical || this.items.includes(canonical)) return false;
+    this.items = [...this.items, canonical];
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Removes a staple.
+   *
+   * @param name Staple to remove.
+   */
+  remove(name: string): void {
+    this.items = this.items.filter((item) => item !== name);
+    this.persist();
+  }
+
+  /**
+   * Restores the default staples.
+   */
+  reset(): void {
+    this.items = [...DEFAULT_STAPLES];
+    this.persist();
+  }
+
+  /**
+   * Checks whether an ingredient is covered by one of the staples.
+   *
+   * @param name Ingredient name as returned by the LLM.
+   * @returns True if the ingredient is a staple.
+   */
+  isStaple(name: string): boolean {
+    const words = toNameWords(stripIngredientNotes(name));
+    return this.items.some((staple) => endsWithWords(words, toNameWords(staple)));
+  }
+
+  /**
+   * Splits extra ingredients into staples and genuinely missing ingredients.
+   *
+   * @param extras Extra ingredients of a recipe.
+   * @returns Both groups in their original order.
+   */
+  splitExtras(extras: readonly RecipeIngredient[]): PantrySplit {
+    const split: PantrySplit = { missing: [], staples: [] };
+    for (const item of extras) {
+      (this.isStaple(item.ingredient) ? split.staples : split.missing).push(item);
+    }
+    return split;
+  }
+
+  /**
+   * Resolves a name to its `INGREDIENTS` spelling.
+   *
+   * @returns The canonical name or `null` if the ingredient is unknown.
+   */
+  private toCanonical(name: string): string | null {
+    const key = name.trim().toLowerCase();
+    return INGREDIENTS.find((item) => item.toLowerCase() === key) ?? null;
+  }
+
+  /**
+   * Loads the persisted staples; falls back to the defaults if nothing valid is stored.
+   */
+  private restore(): string[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw === null) return [...DEFAULT_STAPLES];
+      const parsed = JSON.parse(raw) as unknown;
+      if (!Array.isArray(parsed)) return [...DEFAULT_STAPLES];
+      const names = parsed.map((name) => this.toCanonical(String(name))).filter((name) => name !== null);
+      return [...new Set(names)];
+    } catch {
+      return [...DEFAULT_STAPLES];
+    }
+  }
+
+  /**
+   * Writes the staples to localStorage.
+   */
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.items));
+    } catch {
+      // Storage may be unavailable (private mode, quota); the in-memory staples still apply.
+    }
+  }
+}
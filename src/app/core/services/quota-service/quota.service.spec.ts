@@ -0,0 +1,82 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { QuotaService } from './quota.service';
+import { StateService } from '../state-service/state.service';
+
+describe('QuotaService', () => {
+  let service: QuotaService;
+  let state: StateService;
+
+  const savedAt = Date.UTC(2026, 0, 1, 22, 30, 15);
+
+  beforeEach(() => {
+    localStorage.removeItem('cac_quota');
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(QuotaService);
+    state = TestBed.inject(StateService);
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(savedAt));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+    localStorage.removeItem('cac_quota');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('allows generating while the quota is unknown', () => {
+    const status = service.status(savedAt);
+    expect(status.known).toBeFalse();
+    expect(status.canGenerate).toBeTrue();
+  });
+
+  it('blocks generating when the IP bucket is exhausted until UTC midnight', () => {
+    service.save({ ip: { limit: 3, used: 3, remaining: 0 }, system: { limit: 12, used: 5, remaining: 7 } });
+
+    const blocked = service.status(savedAt + 60_000);
+    expect(blocked.blockedBy).toBe('ip');
+    expect(blocked.resetAt).toBe(Date.UTC(2026, 0, 2));
+
+    const afterReset = service.status(Date.UTC(2026, 0, 2, 0, 0, 1));
+    expect(afterReset.canGenerate).toBeTrue();
+    expect(afterReset.quota.ip.remaining).toBe(3);
+  });
+
+  it('blocks generating for the rest of the minute when the rate limit is reached', () => {
+    service.save({
+      ip: { limit: 3, used: 1, remaining: 2 },
+      system: { limit: 12, used: 5, remaining: 7 },
+      rate: { limit: 5, used: 5, remaining: 0 },
+    });
+
+    expect(service.status(savedAt + 10_000).blockedBy).toBe('rate');
+    expect(service.status(savedAt + 45_000).canGenerate).toBeTrue();
+  });
+
+  it('blocks generating more recipes than are left for today', () => {
+    service.save({ ip: { limit: 9, used: 7, remaining: 2 }, system: { limit: 36, used: 5, remaining: 31 } });
+
+    expect(service.status(savedAt, 2).canGenerate).toBeTrue();
+    expect(service.status(savedAt, 3).blockedBy).toBe('ip');
+  });
+
+  it('persists the quota across reloads', () => {
+    service.save({ ip: { limit: 3, used: 2, remaining: 1 }, system: { limit: 12, used: 5, remaining: 7 } });
+    state.quota = null;
+
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    const restored = TestBed.inject(QuotaService);
+
+    expect(restored.status(savedAt).quota.ip.remaining).toBe(1);
+  });
+});
@@ -0,0 +1,315 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+
+import type { QuotaInfo, QuotaStatus } from '../../models/recipe.model';
+import { environment } from '../../../../environments/environment';
+import { StateService } from '../state-service/state.service';
+import { RecipeValidationService } from '../recipe-validation-service/recipe-validation.service';
+
+/**
+ * Endpoint reporting the current quota without consuming it.
+ */
+const quotaStatusUrl = environment.quotaStatusUrl;
+
+/**
+ * localStorage key under which the last known quota is persisted.
+ */
+const STORAGE_KEY = 'cac_quota';
+
+/**
+ * Shape of the persisted quota entry.
+ *
+ * `savedAt` is needed to decide which buckets have been reset in the meantime.
+ */
+type PersistedQuota = { quota: QuotaInfo; savedAt: number };
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Keeps track of the generation quota enforced by the n8n workflow.
+ *
+ * Responsibilities:
+ * - Normalize quota information from generation, error and status responses
+ * - Persist the last known quota across reloads (localStorage) and mirror it into state
+ * - Load the current quota from the quota-status endpoint (pre-flight check)
+ * - Derive whether a generation is currently possible and when the buckets reset
+ *
+ * The daily buckets are counted in recipes (a run of three recipes uses three units),
+ * the rate bucket is counted in requests.
+ *
+ * Reset rules (mirroring the Redis keys of the workflow):
+ * - IP and system buckets are counted per UTC day and reset at UTC midnight
+ * - The rate bucket is counted per minute and resets at the start of the next minute
+ */
+export class QuotaService {
+  /** Timestamp (epoch ms) at which the quota in state was received. */
+  private savedAt = 0;
+
+  /**
+   * Creates the service and restores the persisted quota into state.
+   *
+   * @param http Angular `HttpClient` used for the quota-status request.
+   * @param state Application state container holding the current quota.
+   * @param validation Service validating quota payloads.
+   */
+  constructor(
+    private readonly http: HttpClient,
+    private readonly state: StateService,
+    private readonly validation: RecipeValidationService,
+  ) {
+    this.restore();
+  }
+
+  /**
+   * Loads the current quota from the quota-status endpoint and stores it.
+   *
+   * Failures are logged only; the last known quota stays in place.
+   *
+   * @returns Observable emitting the stored quota (or `null` if none is known).
+   */
+  refresh(): Observable<QuotaInfo | null> {
+    return this.http.get<unknown>(quotaStatusUrl).pipe(
+      map((body) => this.validation.validateQuota(this.asObject(body)?.['quota'] ?? body)),
+      tap((result) => {
+        if (result.valid) this.save(result.value);
+        else console.warn('Ignoring invalid quota status.', result.errors);
+      }),
+      map(() => this.state.quota),
+      catchError((error) => {
+        console.error('Error loading quota status:', error);
+        return of(this.state.quota);
+      }),
+    );
+  }
+
+  /**
+   * Normalizes and stores quota information in state and localStorage.
+   *
+   * @param quota Quota payload from a generation, error or status response.
+   * @returns The normalized quota.
+   */
+  save(quota: QuotaInfo | null | undefined): QuotaInfo {
+    const normalized = this.normalize(quota);
+    this.savedAt = Date.now();
+    this.state.quota = normalized;
+    this.persist({ quota: normalized, savedAt: this.savedAt });
+    return normalized;
+  }
+
+  /**
+   * Derives the quota status at a given point in time.
+   *
+   * Buckets whose reset time has passed since the quota was stored are treated as reset,
+   * so the UI does not stay blocked after midnight or after the rate window.
+   *
+   * @param now Reference time (epoch ms).
+   * @param recipes Number of recipes the next generation asks for.
+   * @returns Current quota status.
+   */
+  status(now = Date.now(), recipes = 1): QuotaStatus {
+    const stored = this.state.quota;
+    const quota = this.normalize(stored);
+    const resetAt = this.resetAt(quota, now);
+    const rateResetAt = this.rateResetAt(quota, now);
+
+    if (stored && now >= resetAt) {
+      quota.ip = this.resetBucket(quota.ip);
+      quota.system = this.resetBucket(quota.system);
+    }
+    if (stored && quota.rate && now >= rateResetAt) quota.rate = this.resetBucket(quota.rate);
+
+    const blockedBy = this.blockedBy(quota, recipes);
+    return {
+      quota,
+      known: !!stored,
+      canGenerate: blockedBy === null,
+      blockedBy,
+      resetAt: now >= resetAt ? this.nextUtcMidnight(now) : resetAt,
+      rateResetAt: now >= rateResetAt ? this.nextMinute(now) : rateResetAt,
+    };
+  }
+
+  /**
+   * Normalizes quota information into a safe, complete `QuotaInfo` object.
+   *
+   * Ensures:
+   * - missing quota objects fall back to defaults
+   * - all values are finite integers
+   * - remaining values are never negative
+   * - valid reset timestamps are kept
+   *
+   * @param input Quota payload from success or error responses.
+   * @returns Normalized quota object.
+   */
+  normalize(input: QuotaInfo | null | undefined): QuotaInfo {
+    const fallback = this.defaultQuota();
+    if (!input) return fallback;
+
+    const quota: QuotaInfo = {
+      ip: this.normalizeQuotaBucket(input.ip, fallback.ip),
+      system: this.normalizeQuotaBucket(input.system, fallback.system),
+      rate: this.normalizeQuotaBucket(input.rate, fallback.rate!),
+    };
+    if (this.isTimestamp(input.resetAt)) quota.resetAt = input.resetAt;
+    if (this.isTimestamp(input.rateResetAt)) quota.rateResetAt = input.rateResetAt;
+    return quota;
+  }
+
+  /**
+   * Restores the persisted quota into state.
+   */
+  private restore(): void {
+    const persisted = this.readPersisted();
+    if (!persisted) return;
+    this.savedAt = persisted.savedAt;
+    this.state.quota = this.normalize(persisted.quota);
+  }
+
+  /**
+   * Determines which bucket (if any) prevents a generation.
+   *
+   * @param quota Normalized quota with resets already applied.
+   * @param recipes Number of recipes the next generation asks for.
+   * @returns The bucket without enough units left, or `null` if a generation is possible.
+   */
+  private blockedBy(quota: QuotaInfo, recipes: number): QuotaStatus['blockedBy'] {
+    if (quota.ip.remaining < recipes) return 'ip';
+    if (quota.system.remaining < recipes) return 'system';
+    if (quota.rate && quota.rate.remaining <= 0) return 'rate';
+    return null;
+  }
+
+  /**
+   * Returns the daily reset time of the stored quota.
+   *
+   * Uses the server-provided `resetAt` and falls back to the UTC midnight after `savedAt`.
+   */
+  private resetAt(quota: QuotaInfo, now: number): number {
+    if (quota.resetAt) return Date.parse(quota.resetAt);
+    return this.nextUtcMidnight(this.savedAt || now);
+  }
+
+  /**
+   * Returns the end of the per-minute rate window of the stored quota.
+   *
+   * Uses the server-provided `rateResetAt` and falls back to the minute after `savedAt`.
+   */
+  private rateResetAt(quota: QuotaInfo, now: number): number {
+    if (quota.rateResetAt) return Date.parse(quota.rateResetAt);
+    return this.nextMinute(this.savedAt || now);
+  }
+
+  /**
+   * Returns the next UTC midnight after the given time (epoch ms).
+   */
+  private nextUtcMidnight(time: number): number {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  }
+
+  /**
+   * Returns the start of the minute following the given time (epoch ms).
+   */
+  private nextMinute(time: number): number {
+    return (Math.floor(time / 60_000) + 1) * 60_000;
+  }
+
+  /**
+   * Returns a copy of a bucket with nothing used.
+   */
+  private resetBucket(bucket: QuotaInfo['ip']): QuotaInfo['ip'] {
+    return { limit: bucket.limit, used: 0, remaining: bucket.limit };
+  }
+
+  /**
+   * Normalizes a single quota bucket (e.g. `ip` or `system`) to safe integer values.
+   *
+   * Rules:
+   * - `limit`, `used`, `remaining` are converted to integers if possible
+   * - `remaining` defaults to `limit - used` when missing
+   * - `remaining` is clamped to a minimum of 0
+   *
+   * @param bucket Incoming bucket values (possibly undefined or partially missing).
+   * @param fallback Fallback bucket used when values are invalid/missing.
+   * @returns Normalized quota bucket.
+   */
+  private normalizeQuotaBucket(
+    bucket: QuotaInfo['ip'] | undefined,
+    fallback: QuotaInfo['ip'],
+  ): QuotaInfo['ip'] {
+    const limit = this.toInt(bucket?.limit, fallback.limit);
+    const used = this.toInt(bucket?.used, fallback.used);
+    const remaining = this.toInt(bucket?.remaining, Math.max(0, limit - used));
+    return { limit, used, remaining: Math.max(0, remaining) };
+  }
+
+  /**
+   * Provides default quota values used as fallback when the backend does not supply quota data.
+   *
+   * The values mirror the limits configured in the n8n workflow.
+   *
+   * @returns Default quota configuration for all buckets.
+   */
+  private defaultQuota(): QuotaInfo {
+    return {
+      ip: { limit: 9, used: 0, remaining: 9 },
+      system: { limit: 36, used: 0, remaining: 36 },
+      rate: { limit: 5, used: 0, remaining: 5 },
+    };
+  }
+
+  /**
+   * Converts an arbitrary value to an integer if possible; otherwise returns a fallback.
+   *
+   * @param value Any value expected to represent a number.
+   * @param fallback Value used when `value` cannot be converted to a finite number.
+   * @returns Truncated integer representation or the fallback.
+   */
+  private toInt(value: unknown, fallback: number): number {
+    const n = Number(value);
+    return Number.isFinite(n) ? Math.trunc(n) : fallback;
+  }
+
+  /**
+   * Checks whether a value is a parseable timestamp string.
+   */
+  private isTimestamp(value: unknown): value is string {
+    return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+  }
+
+  /**
+   * Returns the value as a plain object, or `null` for non-objects.
+   */
+  private asObject(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Reads the persisted quota from localStorage.
+   *
+   * @returns The persisted entry, or `null` if missing or unreadable.
+   */
+  private readPersisted(): PersistedQuota | null {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? (JSON.parse(raw) as PersistedQuota) : null;
+      if (!parsed?.quota || !Number.isFinite(parsed.savedAt)) return null;
+      const result = this.validation.validateQuota(parsed.quota);
+      return result.valid ? { quota: result.value, savedAt: parsed.savedAt } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Writes the quota to localStorage.
+   */
+  private persist(entry: PersistedQuota): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entry));
+    } catch {
+      // Storage may be unavailable (private mode, quota); the in-memory state still applies.
+    }
+  }
+}
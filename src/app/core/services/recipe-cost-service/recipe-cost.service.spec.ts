@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+
+import type { GeneratedRecipe, RecipeIngredient } from '../../models/recipe.model';
+import { INGREDIENTS } from '../../data/ingredients.data';
+import { INGREDIENT_PRICES } from '../../data/ingredient-prices.data';
+import { RecipeCostService } from './recipe-cost.service';
+
+describe('RecipeCostService', () => {
+  let service: RecipeCostService;
+
+  const item = (ingredient: string, servingSize: number, name = 'gram', abbreviation = 'g'): RecipeIngredient => ({
+    ingredient,
+    servingSize,
+    unit: { name, abbreviation },
+  });
+
+  const recipe = (extraIngredients: RecipeIngredient[], portionsAmount?: number): GeneratedRecipe => ({
+    title: 'Test',
+    cookingTimeText: '20 minutes',
+    nutritionalInformation: { calories: 0, proteins: 0, fats: 0, carbs: 0 },
+    preferences: { cookingTime: 'quick', cuisine: 'italian', dietPreferences: [] },
+    cooksAmount: 1,
+    ingredients: { yourIngredients: [item('Tomato', 200)], extraIngredients },
+    directions: [],
+    likes: 0,
+    recipeSignature: '',
+    portionsAmount,
+    createdAt: null,
+    isSeedRecipe: false,
+  });
+
+  beforeEach(() => {
+    localStorage.removeItem('cac_pantry');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(RecipeCostService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('only prices ingredients from the catalog', () => {
+    const unknown = Object.keys(INGREDIENT_PRICES).filter((name) => !INGREDIENTS.includes(name));
+    expect(unknown).toEqual([]);
+  });
+
+  it('estimates the total and per-portion cost of the extra ingredients', () => {
+    const estimate = service.estimate(recipe([item('Spaghetti', 500), item('Heavy cream', 200, 'ml', 'ml')], 4));
+    expect(estimate).toEqual({ total: 1.8, perPortion: 0.45, portions: 4, unpriced: [] });
+  });
+
+  it('ignores your own ingredients and pantry staples', () => {
+    const estimate = service.estimate(recipe([item('Olive oil', 2, 'tablespoon', 'tbsp'), item('Sea salt', 5)], 2));
+    expect(estimate.total).toBe(0);
+    expect(estimate.unpriced).toEqual([]);
+  });
+
+  it('converts pieces, spoons and weights to the price basis', () => {
+    const estimate = service.estimate(recipe([
+      item('Eggs', 2, 'piece', ''),
+      item('Garlic', 2, 'cloves', ''),
+      item('Lemons', 1, 'piece', ''),
+      item('Soy sauce', 2, 'tablespoon', 'tbsp'),
+    ]));
+    // 2 × 0.30 + 10 g × 6 €/kg + 1 lemon × 0.50 + 30 ml × 8 €/l
+    expect(estimate.total).toBe(1.4);
+  });
+
+  it('understands unit spellings of the unit registry', () => {
+    const estimate = service.estimate(recipe([
+      item('Spaghetti', 1, 'Pounds', 'lbs.'),
+      item('Soy sauce', 1, 'fluid ounce', 'fl oz'),
+    ]));
+    // 453.6 g × 2 €/kg + 29.57 ml × 8 €/l
+    expect(estimate.total).toBe(1.14);
+  });
+
+  it('converts between volume and weight with the density of the ingredient', () => {
+    // 100 ml honey × 1.42 g/ml = 142 g × 10 €/kg
+    expect(service.estimate(recipe([item('Honey', 100, 'ml', 'ml')])).total).toBe(1.42);
+
+    const estimate = service.estimate(recipe([item('Spaghetti', 1, 'cup', 'cup')]));
+    expect(estimate.total).toBe(0);
+    expect(estimate.unpriced).toEqual(['Spaghetti']);
+  });
+
+  it('matches names with notes, plurals and qualifiers to the longest catalog name', () => {
+    expect(service.findPrice('Fresh basil leaves, torn')).toBeNull();
+    expect(service.findPrice('Fresh basil (optional)')).toBe(INGREDIENT_PRICES['Basil']);
+    expect(service.findPrice('Chopped red onions')).toBe(INGREDIENT_PRICES['Red onion']);
+    expect(service.findPrice('Yellow onion')).toBe(INGREDIENT_PRICES['Onion']);
+    expect(service.findPrice('Crème fraîche')).toBeNull();
+  });
+
+  it('reports ingredients it cannot price instead of guessing', () => {
+    const estimate = service.estimate(recipe([
+      item('Saffron threads', 1),
+      item('Heavy cream', 1, 'splash', ''),
+      item('Cucumber', 2, 'piece', ''),
+    ], 2));
+    expect(estimate.total).toBe(1.6);
+    expect(estimate.unpriced).toEqual(['Saffron threads', 'Heavy cream']);
+  });
+
+  it('leaves the per-portion cost open for recipes without portions', () => {
+    const estimate = service.estimate(recipe([item('Cucumber', 1, 'piece', '')]));
+    expect(estimate.perPortion).toBeNull();
+    expect(estimate.portions).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable } from '@angular/core';
+
+import type { GeneratedRecipe, RecipeIngredient } from '../../models/recipe.model';
+import type { IngredientPrice, RecipeCostEstimate } from '../../models/price.model';
+import { INGREDIENT_PRICES } from '../../data/ingredient-prices.data';
+import { endsWithWords, stripIngredientNotes, toNameStems } from '../../mappers/ingredient-name.mapper';
+import { PantryService } from '../pantry-service/pantry.service';
+import { UnitRegistryService } from '../unit-registry-service/unit-registry.service';
+
+/**
+ * Price table entry together with the catalog name it is listed under.
+ */
+type PriceMatch = { name: string; price: IngredientPrice };
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Estimates what the missing ingredients of a recipe cost, based on `INGREDIENT_PRICES`.
+ *
+ * Rules:
+ * - Only extra ingredients count; pantry staples are assumed to be at home
+ * - Ingredient names are matched against the price table like pantry staples: case,
+ *   accents, plural endings and notes ("(optional)", ", chopped") are ignored and the
+ *   longest catalog name forming the end of the ingredient name wins
+ *   ("Fresh basil" ~ "Basil", "Red onion" ~ "Red onion" rather than "Onion")
+ * - Weights and volumes are converted with the density of the catalog ingredient
+ *   (`UnitRegistryService.convertIngredient`), pieces via `gramsPerPiece`; amounts that
+ *   cannot be converted are unpriced
+ * - Amounts are priced proportionally, the estimate ignores package sizes
+ */
+export class RecipeCostService {
+  /**
+   * Creates the recipe cost service.
+   *
+   * @param pantry Service telling which extra ingredients are pantry staples.
+   * @param unitRegistry Registry converting amounts into the unit a price refers to.
+   */
+  constructor(
+    private readonly pantry: PantryService,
+    private readonly unitRegistry: UnitRegistryService,
+  ) {}
+
+  /**
+   * Estimates the shopping cost of a recipe.
+   *
+   * @param recipe Recipe to estimate.
+   * @returns Total and per-portion cost in euros (rounded to cents) and the unpriced ingredients.
+   */
+  estimate(recipe: GeneratedRecipe): RecipeCostEstimate {
+    const { missing } = this.pantry.splitExtras(recipe.ingredients.extraIngredients);
+    const unpriced: string[] = [];
+    let total = 0;
+
+    for (const item of missing) {
+      const cost = this.costOf(item);
+      if (cost === null) unpriced.push(item.ingredient);
+      else total += cost;
+    }
+
+    const portions = recipe.portionsAmount && recipe.portionsAmount > 0 ? recipe.portionsAmount : null;
+    return {
+      total: this.roundCents(total),
+      perPortion: portions === null ? null : this.roundCents(total / portions),
+      portions,
+      unpriced,
+    };
+  }
+
+  /**
+   * Looks up the catalog price of an ingredient.
+   *
+   * @param name Ingredient name as returned by the LLM.
+   * @returns The price entry or `null` if the ingredient is not in the price table.
+   */
+  findPrice(name: string): IngredientPrice | null {
+    return this.findPriceMatch(name)?.price ?? null;
+  }
+
+  /**
+   * Finds the price table entry whose name forms the longest end of the ingredient name.
+   */
+  private findPriceMatch(name: string): PriceMatch | null {
+    const words = toNameStems(stripIngredientNotes(name));
+    let best: (PriceMatch & { length: number }) | null = null;
+
+    for (const [key, price] of Object.entries(INGREDIENT_PRICES)) {
+      const tail = toNameStems(key);
+      if ((!best || tail.length > best.length) && endsWithWords(words, tail)) {
+        best = { name: key, price, length: tail.length };
+      }
+    }
+    return best && { name: best.name, price: best.price };
+  }
+
+  /**
+   * Prices a single ingredient.
+   *
+   * @returns The cost in euros or `null` if name or unit cannot be priced.
+   */
+  private costOf(item: RecipeIngredient): number | null {
+    const match = this.findPriceMatch(item.ingredient);
+    if (!match) return null;
+
+    const quantity = this.toPriceQuantity(item, match);
+    return quantity === null ? null : quantity * match.price.price;
+  }
+
+  /**
+   * Converts a serving size into the quantity the price refers to (kg, l or pieces).
+   *
+   * A unit without name and abbreviation counts as pieces.
+   *
+   * @returns The quantity or `null` for unknown units, invalid sizes and missing densities.
+   */
+  private toPriceQuantity(item: RecipeIngredient, { name, price }: PriceMatch): number | null {
+    const value = Number(item.servingSize);
+    const unit = this.unitRegistry.resolve(item.unit);
+    if (!unit || !Number.isFinite(value) || value < 0) return null;
+
+    if (unit.dimension === 'count') {
+      if (price.per === 'piece') return value;
+      if (!price.gramsPerPiece) return null;
+      return this.unitRegistry.convertIngredient(value * price.gramsPerPiece, 'g', price.per, name);
+    }
+
+    if (price.per !== 'piece') return this.unitRegistry.convertIngredient(value, item.unit, price.per, name);
+    if (!price.gramsPerPiece) return null;
+    const grams = this.unitRegistry.convertIngredient(value, item.unit, 'g', name);
+    return grams === null ? null : grams / price.gramsPerPiece;
+  }
+
+  /**
+   * Rounds an amount of euros to whole cents.
+   */
+  private roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
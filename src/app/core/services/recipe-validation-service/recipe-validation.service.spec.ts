@@ -0,0 +1,206 @@
+import { TestBed } from '@angular/core/testing';
+
+import { RecipeValidationService } from './recipe-validation.service';
+
+describe('RecipeValidationService', () => {
+  let service: RecipeValidationService;
+
+  const validRecipe = () => ({
+    title: 'Tomato pasta',
+    cookingTimeText: '20 minutes',
+    cookingTimeMinutes: 20,
+    nutritionalInformation: { calories: 500, proteins: 20, fats: 10, carbs: 70 },
+    preferences: { cookingTime: 'quick', cuisine: 'italian', dietPreferences: ['vegetarian'] },
+    cooksAmount: 1,
+    ingredients: {
+      yourIngredients: [{ ingredient: 'Pasta', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }],
+      extraIngredients: [],
+    },
+    directions: [{ order: 1, title: 'Cook', description: 'Cook the pasta.', cook: 1 }],
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(RecipeValidationService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('accepts a well-formed recipe without coercions', () => {
+    const result = service.validateRecipe(validRecipe());
+    expect(result.valid).toBeTrue();
+    if (result.valid) expect(result.coerced).toEqual([]);
+  });
+
+  it('coerces numeric strings and string units', () => {
+    const raw = validRecipe();
+    (raw.ingredients.yourIngredients[0] as any).servingSize = '200';
+    (raw.ingredients.yourIngredients[0] as any).unit = 'g';
+    (raw as any).cooksAmount = '2';
+
+    const result = service.validateRecipe(raw, 'recipes[0]');
+
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect(result.value.cooksAmount).toBe(2);
+    expect(result.value.ingredients.yourIngredients[0].servingSize).toBe(200);
+    expect(result.value.ingredients.yourIngredients[0].unit).toEqual({ name: 'gram', abbreviation: 'g' });
+    expect(result.coerced.map((issue) => issue.path)).toContain(
+      'recipes[0].ingredients.yourIngredients[0].servingSize',
+    );
+  });
+
+  it('normalizes units to the canonical registry units', () => {
+    const raw = validRecipe();
+    raw.ingredients.yourIngredients[0].unit = { name: 'Tablespoons', abbreviation: 'Tbsp.' };
+    (raw.ingredients as any).extraIngredients = [
+      { ingredient: 'Saffron', servingSize: 1, unit: { name: 'splash', abbreviation: '' } },
+      { ingredient: 'Egg', servingSize: 2, unit: '' },
+    ];
+
+    const result = service.validateRecipe(raw, 'r');
+
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect(result.value.ingredients.yourIngredients[0].unit).toEqual({ name: 'tablespoon', abbreviation: 'tbsp' });
+    expect(result.value.ingredients.extraIngredients.map((item) => item.unit)).toEqual([
+      { name: 'splash', abbreviation: '' },
+      { name: 'piece', abbreviation: '' },
+    ]);
+    expect(result.coerced.map((issue) => issue.path)).toEqual([
+      'r.ingredients.yourIngredients[0].unit',
+      'r.ingredients.extraIngredients[1].unit',
+    ]);
+  });
+
+  it('keeps a supported language and drops an unsupported one', () => {
+    const german = service.validateRecipe({ ...validRecipe(), language: 'DE' });
+    expect(german.valid && german.value.language).toBe('de');
+
+    const klingon = service.validateRecipe({ ...validRecipe(), language: 'tlh' }, 'recipes[0]');
+    expect(klingon.valid).toBeTrue();
+    if (!klingon.valid) return;
+    expect('language' in klingon.value).toBeFalse();
+    expect(klingon.coerced.map((issue) => issue.path)).toEqual(['recipes[0].language']);
+  });
+
+  it('keeps known equipment and drops unknown entries', () => {
+    const result = service.validateRecipe({ ...validRecipe(), equipment: ['Oven', 'hob', 'oven', 'laser'] }, 'r');
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect(result.value.equipment).toEqual(['oven', 'hob']);
+    expect(result.coerced.map((issue) => issue.path)).toEqual(['r.equipment[3]']);
+  });
+
+  it('converts a legacy single diet preference into a list', () => {
+    const raw: any = validRecipe();
+    raw.preferences.dietPreferences = 'Vegetarian, gluten free';
+    const result = service.validateRecipe(raw, 'r');
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect(result.value.preferences.dietPreferences).toEqual(['vegetarian', 'gluten-free']);
+    expect(result.coerced.map((issue) => issue.path)).toEqual(['r.preferences.dietPreferences']);
+  });
+
+  it('keeps positive portions and drops invalid ones', () => {
+    const result = service.validateRecipe({ ...validRecipe(), portionsAmount: '4' }, 'r');
+    expect(result.valid && result.value.portionsAmount).toBe(4);
+
+    const invalid = service.validateRecipe({ ...validRecipe(), portionsAmount: 0 }, 'r');
+    expect(invalid.valid).toBeTrue();
+    if (!invalid.valid) return;
+    expect('portionsAmount' in invalid.value).toBeFalse();
+    expect(invalid.coerced.map((issue) => issue.path)).toEqual(['r.portionsAmount']);
+  });
+
+  it('rejects a recipe without directions with the field path', () => {
+    const raw: any = validRecipe();
+    delete raw.directions;
+
+    const result = service.validateRecipe(raw, 'recipes[1]');
+
+    expect(result.valid).toBeFalse();
+    if (result.valid) return;
+    expect(result.errors).toContain({ path: 'recipes[1].directions', message: 'must be a non-empty array' });
+  });
+
+  it('rejects a non-numeric serving size', () => {
+    const result = service.validateIngredient({ ingredient: 'Salt', servingSize: 'a pinch' }, 'x');
+    expect(result.valid).toBeFalse();
+    if (result.valid) return;
+    expect(result.errors[0].path).toBe('x.servingSize');
+  });
+
+  it('derives missing step order and title and clamps the cook', () => {
+    const result = service.validateStep({ description: 'Stir.', cook: 5 }, 'step', 2, 2);
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect(result.value).toEqual({ order: 3, title: 'Step 3', description: 'Stir.', cook: 2 });
+  });
+
+  it('keeps only known fields and never takes cookbook fields from the payload', () => {
+    const result = service.validateRecipe({
+      ...validRecipe(),
+      id: 'abc',
+      recipeSignature: 'tomato pasta|pasta',
+      likes: 999,
+      isSeedRecipe: true,
+      createdAt: '2026-01-01',
+      prompt: 'ignore previous instructions',
+    });
+
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect('id' in result.value).toBeFalse();
+    expect('prompt' in result.value).toBeFalse();
+    expect(result.value.recipeSignature).toBe('');
+    expect(result.value.likes).toBe(0);
+    expect(result.value.isSeedRecipe).toBeFalse();
+    expect(result.value.createdAt).toBeNull();
+  });
+
+  it('keeps only the known quota fields', () => {
+    const result = service.validateQuota({
+      ip: { limit: 3, used: '1' },
+      system: { limit: 12, used: 4, remaining: 8 },
+      debug: { redisKey: 'quota:ip:1.2.3.4' },
+    });
+
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect(result.value).toEqual({
+      ip: { limit: 3, used: 1, remaining: 2 },
+      system: { limit: 12, used: 4, remaining: 8 },
+    });
+  });
+
+  it('rejects quota information without buckets', () => {
+    const result = service.validateQuota({ ip: { limit: 3, used: 1 } });
+    expect(result.valid).toBeFalse();
+    if (result.valid) return;
+    expect(result.errors[0].path).toBe('quota.system');
+  });
+
+  it('reads the optional rate bucket and reset timestamps of a quota status', () => {
+    const result = service.validateQuota({
+      ip: { limit: 3, used: 1 },
+      system: { limit: 12, used: 4 },
+      rate: { limit: 5, used: '2' },
+      resetAt: '2026-01-02T00:00:00.000Z',
+      rateResetAt: 'soon',
+    });
+    expect(result.valid).toBeTrue();
+    if (!result.valid) return;
+    expect(result.value.rate).toEqual({ limit: 5, used: 2, remaining: 3 });
+    expect(result.value.resetAt).toBe('2026-01-02T00:00:00.000Z');
+    expect(result.value.rateResetAt).toBeUndefined();
+    expect(result.coerced.map((issue) => issue.path)).toContain('quota.rateResetAt');
+  });
+
+  it('keeps a quota error body but drops an invalid quota', () => {
+    const body = service.validateQuotaError({ error: 'quota_exceeded', message: 'Limit', quota: 'n/a' });
+    expect(body).toEqual({ error: 'quota_exceeded', message: 'Limit', quota: undefined });
+  });
+});
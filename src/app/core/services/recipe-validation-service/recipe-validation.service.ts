@@ -0,0 +1,577 @@
+import { Injectable } from '@angular/core';
+
+import type {
+  DietPreference,
+  GeneratedRecipe,
+  KitchenEquipment,
+  NutritionalInformation,
+  QuotaErrorResponse,
+  QuotaInfo,
+  RecipeIngredient,
+  RecipeLanguage,
+  RecipePreferences,
+  RecipeStep,
+  UnitOfMeasurement,
+} from '../../models/recipe.model';
+import type { ValidationIssue, ValidationResult } from '../../models/validation.model';
+import { toDietPreferences } from '../../mappers/diet-preferences.mapper';
+import { UnitRegistryService } from '../unit-registry-service/unit-registry.service';
+
+/**
+ * Issues collected while validating a single value.
+ *
+ * - `errors` make the value invalid.
+ * - `coerced` document values that were repaired (e.g. numeric strings, missing defaults).
+ */
+type Issues = { errors: ValidationIssue[]; coerced: ValidationIssue[] };
+
+/**
+ * Loosely typed view on an unknown JSON object.
+ */
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Options for reading numeric fields.
+ */
+type NumberOptions = { required?: boolean; fallback?: number; integer?: boolean; min?: number };
+
+/**
+ * Languages recipes can be generated in.
+ */
+const RECIPE_LANGUAGES: readonly RecipeLanguage[] = ['en', 'de'];
+
+/**
+ * Kitchen equipment recipes may list as required.
+ */
+const KITCHEN_EQUIPMENT: readonly KitchenEquipment[] = [
+  'oven',
+  'hob',
+  'microwave',
+  'air fryer',
+  'blender',
+  'grill',
+  'food processor',
+  'slow cooker',
+];
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Runtime validation for data returned by the recipe generation webhook.
+ *
+ * The workflow output is produced by an LLM and therefore cannot be trusted to match the
+ * TypeScript types. This service checks `GeneratedRecipe`, `RecipeIngredient`, `RecipeStep`
+ * and `QuotaInfo` payloads (including quota status responses) field by field.
+ *
+ * Rules:
+ * - Values that can be repaired safely are coerced (numeric strings, unit strings,
+ *   missing optional fields) and reported as `coerced` issues.
+ * - Units are normalized to the canonical units of the unit registry
+ *   (`'Tbsp.'` → `{ name: 'tablespoon', abbreviation: 'tbsp' }`); unknown units are kept.
+ * - Values that cannot be repaired are reported as errors with a JSON-like path
+ *   (e.g. `recipes[1].directions[0].description`) and make the value invalid.
+ * - Results are built from the known fields only; unknown fields and fields owned by the
+ *   cookbook (`id`, `recipeSignature`, `likes`, ...) are never taken from the payload.
+ * - Recipes are validated one by one, so an invalid recipe can be dropped instead of
+ *   failing the whole response.
+ */
+export class RecipeValidationService {
+  /**
+   * Creates the recipe validation service.
+   *
+   * @param unitRegistry Registry normalizing the units returned by the LLM.
+   */
+  constructor(private readonly unitRegistry: UnitRegistryService) {}
+
+  /**
+   * Validates a single generated recipe.
+   *
+   * Required: a non-empty `title`, an `ingredients` object and at least one valid step
+   * in `directions`. Everything else is coerced or defaulted. Cookbook fields start empty:
+   * `id` and `createdAt` are assigned and `recipeSignature` is computed when the recipe is
+   * synced, `likes` start at 0.
+   *
+   * @param value Candidate recipe.
+   * @param path Path used as prefix for reported issues.
+   * @returns Validation result containing the normalized recipe.
+   */
+  validateRecipe(value: unknown, path = 'recipe'): ValidationResult<GeneratedRecipe> {
+    const source = this.asObject(value);
+    if (!source) return this.invalid(path, 'must be an object');
+
+    const issues = this.emptyIssues();
+    const cooksAmount = this.readNumber(source, 'cooksAmount', path, issues, {
+      fallback: 1,
+      integer: true,
+      min: 1,
+    });
+    const cookingTimeMinutes = this.readOptionalMinutes(source, path, issues);
+
+    const recipe: GeneratedRecipe = {
+      title: this.readString(source, 'title', path, issues, { required: true }),
+      cookingTimeText: this.readCookingTimeText(source, cookingTimeMinutes, path, issues),
+      cookingTimeMinutes,
+      nutritionalInformation: this.readNutrition(source['nutritionalInformation'], `${path}.nutritionalInformation`, issues),
+      preferences: this.readPreferences(source['preferences'], `${path}.preferences`, issues),
+      cooksAmount,
+      ingredients: this.readIngredientGroups(source['ingredients'], `${path}.ingredients`, issues),
+      directions: this.readDirections(source['directions'], `${path}.directions`, cooksAmount, issues),
+      likes: 0,
+      recipeSignature: '',
+      createdAt: null,
+      isSeedRecipe: false,
+    };
+
+    const language = this.readOptionalLanguage(source, path, issues);
+    if (language) recipe.language = language;
+
+    const equipment = this.readOptionalEquipment(source, path, issues);
+    if (equipment) recipe.equipment = equipment;
+
+    const portionsAmount = this.readOptionalPortions(source, path, issues);
+    if (portionsAmount) recipe.portionsAmount = portionsAmount;
+
+    return this.result(recipe, issues);
+  }
+
+  /**
+   * Validates a single recipe ingredient.
+   *
+   * Required: a non-empty `ingredient` name and a numeric `servingSize`.
+   * Unit strings are converted into unit objects; a missing unit defaults to "piece".
+   *
+   * @param value Candidate ingredient.
+   * @param path Path used as prefix for reported issues.
+   * @returns Validation result containing the normalized ingredient.
+   */
+  validateIngredient(value: unknown, path = 'ingredient'): ValidationResult<RecipeIngredient> {
+    const source = this.asObject(value);
+    if (!source) return this.invalid(path, 'must be an object');
+
+    const issues = this.emptyIssues();
+    const ingredient: RecipeIngredient = {
+      ingredient: this.readString(source, 'ingredient', path, issues, { required: true }),
+      servingSize: this.readNumber(source, 'servingSize', path, issues, { required: true, min: 0 }),
+      unit: this.readUnit(source['unit'], `${path}.unit`, issues),
+    };
+    return this.result(ingredient, issues);
+  }
+
+  /**
+   * Validates a single direction step.
+   *
+   * Required: a non-empty `description`. A missing `title` or `order` is derived,
+   * `cook` is clamped to `1..cooksAmount`.
+   *
+   * @param value Candidate step.
+   * @param path Path used as prefix for reported issues.
+   * @param index 0-based position of the step (used for defaults).
+   * @param cooksAmount Number of cooks of the recipe.
+   * @returns Validation result containing the normalized step.
+   */
+  validateStep(value: unknown, path = 'step', index = 0, cooksAmount = 1): ValidationResult<RecipeStep> {
+    const source = this.asObject(value);
+    if (!source) return this.invalid(path, 'must be an object');
+
+    const issues = this.emptyIssues();
+    const cook = this.readNumber(source, 'cook', path, issues, { fallback: 1, integer: true, min: 1 });
+    const step: RecipeStep = {
+      order: this.readNumber(source, 'order', path, issues, { fallback: index + 1, integer: true, min: 1 }),
+      title: this.readString(source, 'title', path, issues, { fallback: `Step ${index + 1}` }),
+      description: this.readString(source, 'description', path, issues, { required: true }),
+      cook: Math.min(cook, Math.max(1, cooksAmount)),
+    };
+    if (step.cook !== cook) this.coerce(issues, `${path}.cook`, `clamped to ${step.cook}`);
+    return this.result(step, issues);
+  }
+
+  /**
+   * Validates quota information with its `ip` and `system` buckets.
+   *
+   * @param value Candidate quota object.
+   * @param path Path used as prefix for reported issues.
+   * @returns Validation result containing the normalized quota.
+   */
+  validateQuota(value: unknown, path = 'quota'): ValidationResult<QuotaInfo> {
+    const source = this.asObject(value);
+    if (!source) return this.invalid(path, 'must be an object');
+
+    const issues = this.emptyIssues();
+    const { rate, resetAt, rateResetAt } = source as Partial<QuotaInfo>;
+    const quota: QuotaInfo = {
+      ip: this.readQuotaBucket(source['ip'], `${path}.ip`, issues),
+      system: this.readQuotaBucket(source['system'], `${path}.system`, issues),
+    };
+    if (rate != null) quota.rate = this.readQuotaBucket(rate, `${path}.rate`, issues);
+    const reset = this.readOptionalTimestamp(resetAt, `${path}.resetAt`, issues);
+    if (reset) quota.resetAt = reset;
+    const rateReset = this.readOptionalTimestamp(rateResetAt, `${path}.rateResetAt`, issues);
+    if (rateReset) quota.rateResetAt = rateReset;
+    return this.result(quota, issues);
+  }
+
+  /**
+   * Interprets an error payload as a `QuotaErrorResponse`.
+   *
+   * The quota is only kept if it is valid; `error` and `message` are coerced to strings.
+   *
+   * @param value Error payload returned by the webhook.
+   * @returns The quota error response, or `undefined` if the payload is not an object.
+   */
+  validateQuotaError(value: unknown): QuotaErrorResponse | undefined {
+    const source = this.asObject(value);
+    if (!source) return undefined;
+
+    const quota = this.validateQuota(source['quota']);
+    return {
+      error: this.toText(source['error']),
+      message: this.toText(source['message']),
+      quota: quota.valid ? quota.value : undefined,
+    };
+  }
+
+  /**
+   * Reads the `ingredients` object with its `yourIngredients` and `extraIngredients` lists.
+   *
+   * Invalid single ingredients are reported as errors, a missing list defaults to empty.
+   */
+  private readIngredientGroups(value: unknown, path: string, issues: Issues): GeneratedRecipe['ingredients'] {
+    const source = this.asObject(value);
+    if (!source) {
+      this.error(issues, path, 'must be an object');
+      return { yourIngredients: [], extraIngredients: [] };
+    }
+    return {
+      yourIngredients: this.readIngredientList(source['yourIngredients'], `${path}.yourIngredients`, issues),
+      extraIngredients: this.readIngredientList(source['extraIngredients'], `${path}.extraIngredients`, issues),
+    };
+  }
+
+  /**
+   * Reads a list of ingredients.
+   */
+  private readIngredientList(value: unknown, path: string, issues: Issues): RecipeIngredient[] {
+    if (value == null) {
+      this.coerce(issues, path, 'missing, defaulted to an empty list');
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      this.error(issues, path, 'must be an array');
+      return [];
+    }
+    return value
+      .map((item, index) => this.merge(issues, this.validateIngredient(item, `${path}[${index}]`)))
+      .filter((item): item is RecipeIngredient => item !== null);
+  }
+
+  /**
+   * Reads the list of direction steps; at least one step is required.
+   */
+  private readDirections(value: unknown, path: string, cooksAmount: number, issues: Issues): RecipeStep[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.error(issues, path, 'must be a non-empty array');
+      return [];
+    }
+    return value
+      .map((item, index) => this.merge(issues, this.validateStep(item, `${path}[${index}]`, index, cooksAmount)))
+      .filter((item): item is RecipeStep => item !== null);
+  }
+
+  /**
+   * Reads nutritional information; missing values default to 0.
+   */
+  private readNutrition(value: unknown, path: string, issues: Issues): NutritionalInformation {
+    const source = this.asObject(value);
+    if (!source) this.coerce(issues, path, 'missing, defaulted to zero values');
+    const read = (key: string) => this.readNumber(source ?? {}, key, path, issues, { fallback: 0, min: 0 });
+    return { calories: read('calories'), proteins: read('proteins'), fats: read('fats'), carbs: read('carbs') };
+  }
+
+  /**
+   * Reads the preferences of a recipe.
+   *
+   * Cooking time and cuisine are only coerced to strings here; canonicalization against
+   * the allowed option sets happens when recipes are persisted. Diet preferences are
+   * normalized into a canonical list; a single string is converted (coerced).
+   */
+  private readPreferences(value: unknown, path: string, issues: Issues): RecipePreferences {
+    const source = this.asObject(value);
+    if (!source) this.coerce(issues, path, 'missing, defaulted to empty preferences');
+    const read = (key: string) => this.readString(source ?? {}, key, path, issues, { fallback: '' });
+    return {
+      cookingTime: read('cookingTime'),
+      cuisine: read('cuisine'),
+      dietPreferences: this.readDietPreferences(source ?? {}, path, issues),
+    } as RecipePreferences;
+  }
+
+  /**
+   * Reads the diet preferences of a recipe into a canonical list.
+   */
+  private readDietPreferences(source: JsonObject, path: string, issues: Issues): DietPreference[] {
+    const value = source['dietPreferences'];
+    if (typeof value === 'string' && value.trim()) this.coerce(issues, `${path}.dietPreferences`, 'converted from string');
+    return toDietPreferences(value);
+  }
+
+  /**
+   * Reads a unit of measurement and normalizes it via the unit registry; plain strings
+   * become `{ name, abbreviation }`.
+   */
+  private readUnit(value: unknown, path: string, issues: Issues): UnitOfMeasurement {
+    if (typeof value === 'string') {
+      this.coerce(issues, path, 'converted from string');
+      return this.unitRegistry.normalize(value.trim() || null);
+    }
+    const source = this.asObject(value);
+    if (!source || typeof source['name'] !== 'string') {
+      this.coerce(issues, path, 'missing, defaulted to piece');
+      return this.unitRegistry.normalize(null);
+    }
+    const unit = { name: source['name'], abbreviation: this.toText(source['abbreviation']) };
+    const normalized = this.unitRegistry.normalize(unit);
+    if (normalized.name !== unit.name || normalized.abbreviation !== unit.abbreviation) {
+      this.coerce(issues, path, `normalized to ${normalized.name}`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Reads a single quota bucket; `remaining` defaults to `limit - used`.
+   */
+  private readQuotaBucket(value: unknown, path: string, issues: Issues): QuotaInfo['ip'] {
+    const source = this.asObject(value);
+    if (!source) {
+      this.error(issues, path, 'must be an object');
+      return { limit: 0, used: 0, remaining: 0 };
+    }
+    const limit = this.readNumber(source, 'limit', path, issues, { required: true, integer: true, min: 0 });
+    const used = this.readNumber(source, 'used', path, issues, { required: true, integer: true, min: 0 });
+    const remaining = this.readNumber(source, 'remaining', path, issues, {
+      fallback: Math.max(0, limit - used),
+      integer: true,
+      min: 0,
+    });
+    return { limit, used, remaining };
+  }
+
+  /**
+   * Reads an optional ISO timestamp; unparseable values are dropped (coerced).
+   */
+  private readOptionalTimestamp(value: unknown, path: string, issues: Issues): string | undefined {
+    if (value == null) return undefined;
+    if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+    this.coerce(issues, path, 'invalid timestamp, dropped');
+    return undefined;
+  }
+
+  /**
+   * Reads `cookingTimeMinutes`, which is optional but must be numeric when present.
+   */
+  private readOptionalMinutes(source: JsonObject, path: string, issues: Issues): number | undefined {
+    if (source['cookingTimeMinutes'] == null) return undefined;
+    return this.readNumber(source, 'cookingTimeMinutes', path, issues, { integer: true, min: 0 });
+  }
+
+  /**
+   * Reads the optional `portionsAmount`; values that are not a positive number are dropped (coerced).
+   */
+  private readOptionalPortions(source: JsonObject, path: string, issues: Issues): number | undefined {
+    if (source['portionsAmount'] == null) return undefined;
+    const portions = this.parseNumber(source['portionsAmount']);
+    if (portions !== null && portions >= 1) return Math.trunc(portions);
+    this.coerce(issues, `${path}.portionsAmount`, 'invalid, dropped');
+    return undefined;
+  }
+
+  /**
+   * Reads the optional `language`; unsupported values are dropped (coerced).
+   */
+  private readOptionalLanguage(source: JsonObject, path: string, issues: Issues): RecipeLanguage | undefined {
+    const value = source['language'];
+    if (value == null) return undefined;
+
+    const language = String(value).trim().toLowerCase() as RecipeLanguage;
+    if (RECIPE_LANGUAGES.includes(language)) return language;
+    this.coerce(issues, `${path}.language`, 'unsupported language, dropped');
+    return undefined;
+  }
+
+  /**
+   * Reads the optional `equipment` list; unknown entries and duplicates are dropped (coerced).
+   */
+  private readOptionalEquipment(source: JsonObject, path: string, issues: Issues): KitchenEquipment[] | undefined {
+    const value = source['equipment'];
+    if (value == null) return undefined;
+    if (!Array.isArray(value)) {
+      this.coerce(issues, `${path}.equipment`, 'must be an array, dropped');
+      return undefined;
+    }
+
+    const equipment: KitchenEquipment[] = [];
+    value.forEach((entry, index) => {
+      const item = String(entry ?? '').trim().toLowerCase() as KitchenEquipment;
+      if (!KITCHEN_EQUIPMENT.includes(item)) this.coerce(issues, `${path}.equipment[${index}]`, 'unknown equipment, dropped');
+      else if (!equipment.includes(item)) equipment.push(item);
+    });
+    return equipment;
+  }
+
+  /**
+   * Reads `cookingTimeText`, deriving it from the minutes when missing.
+   */
+  private readCookingTimeText(
+    source: JsonObject,
+    minutes: number | undefined,
+    path: string,
+    issues: Issues,
+  ): string {
+    const fallback = minutes != null ? `${minutes} minutes` : '';
+    return this.readString(source, 'cookingTimeText', path, issues, { fallback });
+  }
+
+  /**
+   * Reads a string field.
+   *
+   * - Numbers are converted to strings (coerced)
+   * - Required fields must be non-empty after trimming
+   * - Optional fields fall back to `fallback`
+   */
+  private readString(
+    source: JsonObject,
+    key: string,
+    path: string,
+    issues: Issues,
+    options: { required?: boolean; fallback?: string },
+  ): string {
+    const value = source[key];
+    const fieldPath = `${path}.${key}`;
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      this.coerce(issues, fieldPath, 'converted from number');
+      return String(value);
+    }
+    if (options.required) {
+      this.error(issues, fieldPath, value == null ? 'is required' : 'must be a non-empty string');
+      return '';
+    }
+    if (value != null && value !== '') this.coerce(issues, fieldPath, 'invalid, replaced by default');
+    return options.fallback ?? '';
+  }
+
+  /**
+   * Reads a numeric field.
+   *
+   * - Numeric strings (`"200"`, `"1,5"`, `"45 minutes"`) are parsed (coerced)
+   * - Integers are truncated when `integer` is set
+   * - Values below `min` are errors for required fields and replaced otherwise
+   * - Missing or unparseable optional values fall back to `fallback`
+   */
+  private readNumber(
+    source: JsonObject,
+    key: string,
+    path: string,
+    issues: Issues,
+    options: NumberOptions,
+  ): number {
+    const fieldPath = `${path}.${key}`;
+    const raw = source[key];
+    let value = this.parseNumber(raw);
+
+    if (value !== null && options.integer) value = Math.trunc(value);
+    if (value !== null && options.min != null && value < options.min) value = null;
+    if (value === null) return this.numberFallback(raw, fieldPath, issues, options);
+
+    if (typeof raw !== 'number') this.coerce(issues, fieldPath, 'converted from string');
+    return value;
+  }
+
+  /**
+   * Resolves the value of a numeric field that is missing or invalid.
+   */
+  private numberFallback(raw: unknown, fieldPath: string, issues: Issues, options: NumberOptions): number {
+    if (options.required || options.fallback == null) {
+      this.error(issues, fieldPath, raw == null ? 'is required' : 'must be a valid number');
+      return 0;
+    }
+    if (raw != null) this.coerce(issues, fieldPath, `invalid, defaulted to ${options.fallback}`);
+    return options.fallback;
+  }
+
+  /**
+   * Parses a number from a number or a string starting with a number.
+   *
+   * @returns The parsed finite number, or `null`.
+   */
+  private parseNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(/^-?\d+([.,]\d+)?/);
+    return match ? parseFloat(match[0].replace(',', '.')) : null;
+  }
+
+  /**
+   * Merges the issues of a nested validation into the parent issues.
+   *
+   * @returns The nested value if valid, otherwise `null`.
+   */
+  private merge<T>(issues: Issues, result: ValidationResult<T>): T | null {
+    if (!result.valid) {
+      issues.errors.push(...result.errors);
+      return null;
+    }
+    issues.coerced.push(...result.coerced);
+    return result.value;
+  }
+
+  /**
+   * Builds the validation result from collected issues.
+   */
+  private result<T>(value: T, issues: Issues): ValidationResult<T> {
+    if (issues.errors.length > 0) return { valid: false, errors: issues.errors };
+    return { valid: true, value, coerced: issues.coerced };
+  }
+
+  /**
+   * Builds an invalid result with a single error.
+   */
+  private invalid<T>(path: string, message: string): ValidationResult<T> {
+    return { valid: false, errors: [{ path, message }] };
+  }
+
+  /**
+   * Creates an empty issue collection.
+   */
+  private emptyIssues(): Issues {
+    return { errors: [], coerced: [] };
+  }
+
+  /**
+   * Records a validation error.
+   */
+  private error(issues: Issues, path: string, message: string): void {
+    issues.errors.push({ path, message });
+  }
+
+  /**
+   * Records a coercion.
+   */
+  private coerce(issues: Issues, path: string, message: string): void {
+    issues.coerced.push({ path, message });
+  }
+
+  /**
+   * Returns the value as a plain object, or `null` for non-objects and arrays.
+   */
+  private asObject(value: unknown): JsonObject | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    return value as JsonObject;
+  }
+
+  /**
+   * Converts an unknown value into a trimmed string (`''` for null/undefined).
+   */
+  private toText(value: unknown): string {
+    if (value == null) return '';
+    return String(value).trim();
+  }
+}
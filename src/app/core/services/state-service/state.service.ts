@@ -1,21 +1,16 @@
 import { Injectable } from '@angular/core';
 import {
   GeneratedRecipe,
+  RecipeIngredient,
   RecipeRequirements,
+  RecipeLanguage,
+  KitchenEquipment,
+  BuiltInCuisine,
+  RecipeBudget,
   QuotaInfo,
+  RecipeRequirementsSnapshot,
 } from '../../models/recipe.model';
-
-/**
- * Snapshot type representing the minimal set of recipe requirements
- * needed for displaying tags and metadata in the results UI.
- *
- * This intentionally excludes ingredients so UI tags remain stable
- * even after inputs are reset.
- */
-type RecipeRequirementsSnapshot = Pick<
-  RecipeRequirements,
-  'cookingTime' | 'cuisine' | 'dietPreferences' | 'portionsAmount' | 'cooksAmount'
->;
+import { DIET_PREFERENCES } from '../../mappers/diet-preferences.mapper';
 
 @Injectable({ providedIn: 'root' })
 /**
@@ -27,6 +22,7 @@ type RecipeRequirementsSnapshot = Pick<
  * Responsibilities:
  * - Hold the current recipe input requirements
  * - Store generated recipes from the latest generation run
+ * - Expose recipes of a running generation as they are streamed in
  * - Cache all cookbook recipes loaded from Firestore
  * - Preserve a snapshot of the last successful generation inputs
  * - Store quota information returned by the backend
@@ -45,8 +41,14 @@ export class StateService {
     portionsAmount: 2,
     cooksAmount: 1,
     cookingTime: 'quick',
+    maxCookingMinutes: 20,
     cuisine: '',
-    dietPreferences: '',
+    dietPreferences: [],
+    excludedIngredients: [],
+    recipeCount: 3,
+    language: 'en',
+    equipment: [],
+    budget: 'any',
   };
 
   /**
@@ -54,6 +56,21 @@ export class StateService {
    */
   generatedRecipes: GeneratedRecipe[] = [];
 
+  /**
+   * Recipes of the generation run currently in progress, in arrival order.
+   *
+   * Filled recipe by recipe while a streamed response is consumed so the generating
+   * screen can show results before the run has finished.
+   */
+  streamedRecipes: GeneratedRecipe[] = [];
+
+  /**
+   * 1-based attempt number of the generation request currently in progress.
+   *
+   * Values above 1 indicate that transient failures are being retried.
+   */
+  generationAttempt = 1;
+
   /**
    * All recipes loaded from Firestore (cookbook view).
    */
@@ -67,15 +84,29 @@ export class StateService {
    */
   lastGeneratedRequirements: RecipeRequirementsSnapshot | null = null;
 
+  /**
+   * Ingredients used for the last successful generation.
+   *
+   * Kept separately from `lastGeneratedRequirements` so single recipes can be
+   * regenerated from the results page after the inputs were reset.
+   */
+  lastGeneratedIngredients: RecipeIngredient[] = [];
+
   /**
    * Static configuration used to render preference selection UI.
    *
    * Includes:
    * - Cooking time options
-   * - Cuisine metadata (images + emojis)
+   * - Cuisine metadata (images + emojis) and the fallback for free-text cuisines
    * - Diet preference options
+   * - Budget options
+   * - Kitchen equipment options
    */
   preferencesOptions = {
+    languages: [
+      { value: 'en', label: 'English' },
+      { value: 'de', label: 'Deutsch' },
+    ] as { value: RecipeLanguage; label: string }[],
     times: [
       { value: 'quick', label: 'Quick', description: 'up to 20min' },
       { value: 'medium', label: 'Medium', description: '25–40min' },
@@ -118,8 +149,27 @@ export class StateService {
         header_img: 'img/fusion_header.png',
         emoji: '🍢',
       },
-    ],
-    dietPreferences: ['vegetarian', 'vegan', 'keto', 'no preferences'],
+    ] as { name: BuiltInCuisine; thumbnail_img: string; header_img: string; emoji: string }[],
+    customCuisine: {
+      header_img: 'img/cuisine_header.svg',
+      emoji: '🍽️',
+    },
+    dietPreferences: DIET_PREFERENCES,
+    budgets: [
+      { value: 'low', label: 'Low', description: 'budget-friendly' },
+      { value: 'medium', label: 'Medium', description: 'everyday' },
+      { value: 'any', label: 'Any', description: 'no limit' },
+    ] as { value: RecipeBudget; label: string; description: string }[],
+    equipment: [
+      { value: 'oven', label: 'Oven', emoji: '🔥' },
+      { value: 'hob', label: 'Hob', emoji: '🍳' },
+      { value: 'microwave', label: 'Microwave', emoji: '📡' },
+      { value: 'air fryer', label: 'Air fryer', emoji: '🌬️' },
+      { value: 'blender', label: 'Blender', emoji: '🥤' },
+      { value: 'grill', label: 'Grill', emoji: '🍖' },
+      { value: 'food processor', label: 'Food processor', emoji: '🔪' },
+      { value: 'slow cooker', label: 'Slow cooker', emoji: '🍲' },
+    ] as { value: KitchenEquipment; label: string; emoji: string }[],
   };
 
   /**
@@ -143,13 +193,35 @@ export class StateService {
     const r = this.recipeRequirements;
     return {
       cookingTime: r.cookingTime,
+      maxCookingMinutes: r.maxCookingMinutes,
       cuisine: r.cuisine,
-      dietPreferences: r.dietPreferences,
+      dietPreferences: [...r.dietPreferences],
       portionsAmount: r.portionsAmount,
       cooksAmount: r.cooksAmount,
+      excludedIngredients: [...r.excludedIngredients],
+      recipeCount: r.recipeCount,
+      language: r.language,
+      equipment: [...r.equipment],
+      budget: r.budget,
     };
   }
 
+  /**
+   * Creates a snapshot of the currently entered ingredients without UI-only flags.
+   *
+   * Intended usage: store the result in `lastGeneratedIngredients` together with
+   * `lastGeneratedRequirements`, before inputs are reset.
+   *
+   * @returns Plain copies of the current ingredients.
+   */
+  snapshotCurrentIngredients(): RecipeIngredient[] {
+    return this.recipeRequirements.ingredients.map(({ ingredient, servingSize, unit }) => ({
+      ingredient,
+      servingSize,
+      unit,
+    }));
+  }
+
   /**
    * Resets recipe input requirements to their default values.
    *
@@ -157,6 +229,8 @@ export class StateService {
    * - Call this ONLY after a fully successful generation and persistence step.
    * - Do not call before storing `lastGeneratedRequirements`,
    *   otherwise result UI tags will be lost.
+   * - Excluded ingredients (allergies, dislikes), the recipe count, the language and the
+   *   kitchen equipment are kept for the next run.
    */
   resetRecipeRequirements(): void {
     this.recipeRequirements = {
@@ -164,8 +238,14 @@ export class StateService {
       portionsAmount: 2,
       cooksAmount: 1,
       cookingTime: 'quick',
+      maxCookingMinutes: 20,
       cuisine: '',
-      dietPreferences: '',
+      dietPreferences: [],
+      excludedIngredients: this.recipeRequirements.excludedIngredients,
+      recipeCount: this.recipeRequirements.recipeCount,
+      language: this.recipeRequirements.language,
+      equipment: this.recipeRequirements.equipment,
+      budget: 'any',
     };
   }
 
@@ -0,0 +1,151 @@
+import { TestBed } from '@angular/core/testing';
+
+import { UnitRegistryService } from './unit-registry.service';
+
+describe('UnitRegistryService', () => {
+  let service: UnitRegistryService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(UnitRegistryService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('registry', () => {
+    it('has unique ids and lookup keys', () => {
+      const ids = service.units.map((unit) => unit.id);
+      const keysPerUnit = service.units.map(
+        (unit) => new Set([unit.name, unit.plural, unit.abbreviation, ...unit.aliases].filter(Boolean).map((key) => key.toLowerCase())),
+      );
+      const allKeys = new Set(keysPerUnit.flatMap((keys) => [...keys]));
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(allKeys.size).toBe(keysPerUnit.reduce((sum, keys) => sum + keys.size, 0));
+    });
+
+    it('resolves every unit by its own name, plural and abbreviation', () => {
+      for (const unit of service.units) {
+        for (const key of [unit.name, unit.plural, unit.abbreviation].filter(Boolean)) {
+          expect(service.find(key)?.id).withContext(key).toBe(unit.id);
+        }
+      }
+    });
+
+    it('uses positive base factors and covers metric, imperial and kitchen units', () => {
+      expect(service.units.every((unit) => unit.toBase > 0)).toBeTrue();
+      const systems = new Set(service.units.map((unit) => unit.system));
+      expect([...systems].sort()).toEqual(['imperial', 'kitchen', 'metric', 'universal']);
+    });
+
+    it('offers the form units with the names stored by earlier versions first', () => {
+      expect(service.formUnits.slice(0, 3)).toEqual([
+        { name: 'gram', abbreviation: 'g' },
+        { name: 'kilogram', abbreviation: 'kg' },
+        { name: 'ml', abbreviation: 'ml' },
+      ]);
+      expect(service.formUnits).toContain({ name: 'piece', abbreviation: '' });
+      expect(service.formUnits).toContain({ name: 'tablespoon', abbreviation: 'tbsp' });
+    });
+  });
+
+  describe('find', () => {
+    it('ignores case, whitespace and a trailing dot', () => {
+      expect(service.find('Tbsp.')?.id).toBe('tablespoon');
+      expect(service.find('  CUPS ')?.id).toBe('cup');
+      expect(service.find('fl  oz')?.id).toBe('fluid-ounce');
+    });
+
+    it('knows plurals, spellings and German names', () => {
+      expect(service.find('litres')?.id).toBe('liter');
+      expect(service.find('milliliters')?.id).toBe('milliliter');
+      expect(service.find('EL')?.id).toBe('tablespoon');
+      expect(service.find('TL')?.id).toBe('teaspoon');
+      expect(service.find('Zehen')?.id).toBe('clove');
+      expect(service.find('Stück')?.id).toBe('piece');
+    });
+
+    it('returns null for unknown words', () => {
+      expect(service.find('splash')).toBeNull();
+      expect(service.find('')).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    it('prefers the abbreviation and falls back to the name', () => {
+      expect(service.resolve({ name: 'tablespoons', abbreviation: 'Tbsp' })?.id).toBe('tablespoon');
+      expect(service.resolve({ name: 'cloves', abbreviation: '' })?.id).toBe('clove');
+      expect(service.resolve({ name: 'gram', abbreviation: 'grams' })?.id).toBe('gram');
+    });
+
+    it('treats empty units as pieces and unknown units as null', () => {
+      expect(service.resolve({ name: '', abbreviation: '' })?.id).toBe('piece');
+      expect(service.resolve(null)?.id).toBe('piece');
+      expect(service.resolve({ name: 'splash', abbreviation: '' })).toBeNull();
+    });
+  });
+
+  describe('normalize', () => {
+    it('returns the canonical unit for known LLM spellings', () => {
+      expect(service.normalize({ name: 'Tablespoons', abbreviation: 'Tbsp.' })).toEqual({
+        name: 'tablespoon',
+        abbreviation: 'tbsp',
+      });
+      expect(service.normalize({ name: 'cups', abbreviation: 'c' })).toEqual({ name: 'cup', abbreviation: 'cup' });
+      expect(service.normalize('g')).toEqual({ name: 'gram', abbreviation: 'g' });
+      expect(service.normalize({ name: 'Milliliter', abbreviation: 'mL' })).toEqual({ name: 'ml', abbreviation: 'ml' });
+      expect(service.normalize({ name: 'piece', abbreviation: '' })).toEqual({ name: 'piece', abbreviation: '' });
+    });
+
+    it('keeps unknown units trimmed', () => {
+      expect(service.normalize({ name: ' splash ', abbreviation: '' })).toEqual({ name: 'splash', abbreviation: '' });
+      expect(service.normalize('dash')).toEqual({ name: 'dash', abbreviation: 'dash' });
+    });
+  });
+
+  describe('convert', () => {
+    it('converts within mass and volume', () => {
+      expect(service.convert(1.5, 'kg', 'g')).toBe(1500);
+      expect(service.convert(250, 'g', 'kg')).toBe(0.25);
+      expect(service.convert(1, 'lb', 'oz')).toBeCloseTo(16, 1);
+      expect(service.convert(2, 'tbsp', 'tsp')).toBe(6);
+      expect(service.convert(1, 'cup', 'ml')).toBe(240);
+      expect(service.convert(1, 'l', 'cup')).toBeCloseTo(4.17, 2);
+      expect(service.convert(1, 'gallon', 'l')).toBeCloseTo(3.785, 3);
+    });
+
+    it('accepts stored units and returns the same amount for the same unit', () => {
+      expect(service.convert(3, { name: 'tablespoon', abbreviation: 'tbsp' }, { name: 'ml', abbreviation: 'ml' })).toBe(45);
+      expect(service.convert(7, 'cloves', 'clove')).toBe(7);
+    });
+
+    it('converts between mass and volume only with a density', () => {
+      expect(service.convert(100, 'ml', 'g')).toBeNull();
+      expect(service.convert(100, 'ml', 'g', 0.92)).toBeCloseTo(92, 5);
+      expect(service.convert(92, 'g', 'ml', 0.92)).toBeCloseTo(100, 5);
+      expect(service.convert(1, 'cup', 'g', 0.53)).toBeCloseTo(127.2, 5);
+      expect(service.convert(1, 'kg', 'l', 0)).toBeNull();
+    });
+
+    it('does not convert counted, unknown or incompatible units', () => {
+      expect(service.convert(2, 'clove', 'piece')).toBeNull();
+      expect(service.convert(2, 'piece', 'g', 1)).toBeNull();
+      expect(service.convert(2, 'splash', 'ml')).toBeNull();
+      expect(service.convert(Number.NaN, 'g', 'kg')).toBeNull();
+    });
+  });
+
+  describe('convertIngredient', () => {
+    it('uses the density of the catalog entry', () => {
+      expect(service.convertIngredient(1, 'cup', 'g', 'Milk')).toBeCloseTo(247.2, 5);
+      expect(service.convertIngredient(100, 'g', 'ml', 'Mehl')).toBeCloseTo(188.68, 2);
+      expect(service.convertIngredient(2, 'tbsp', 'g', 'Honey')).toBeCloseTo(42.6, 5);
+    });
+
+    it('returns null without density', () => {
+      expect(service.convertIngredient(1, 'cup', 'g', 'Unicorn dust')).toBeNull();
+      expect(service.convertIngredient(200, 'g', 'kg', 'Unicorn dust')).toBe(0.2);
+    });
+  });
+});
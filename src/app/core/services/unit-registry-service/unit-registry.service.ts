@@ -0,0 +1,166 @@
+import { Injectable } from '@angular/core';
+
+import type { UnitOfMeasurement } from '../../models/recipe.model';
+import type { UnitDefinition } from '../../models/unit.model';
+import { FORM_UNIT_IDS, UNIT_DEFINITIONS } from '../../data/units.data';
+import { IngredientCatalogService } from '../ingredient-catalog-service/ingredient-catalog.service';
+
+/**
+ * Unit as stored with ingredients, a plain unit word, or nothing.
+ */
+type UnitInput = UnitOfMeasurement | string | null | undefined;
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Registry of the units of measurement (`UNIT_DEFINITIONS`) and conversion engine.
+ *
+ * Lookup rules:
+ * - Names, plurals, abbreviations and aliases are matched case-insensitively, ignoring
+ *   surrounding whitespace and a trailing dot (`'Tbsp.'`, `'tablespoons'`, `'EL'` ~ tablespoon)
+ * - A `UnitOfMeasurement` is resolved by its abbreviation first, then by its name
+ * - A unit without name and abbreviation counts as pieces
+ *
+ * Conversion rules:
+ * - Mass and volume units convert within their dimension
+ * - Mass and volume convert into each other only with a density (g/ml), taken from the
+ *   ingredient catalog by `convertIngredient`
+ * - Counted units (piece, clove, can, …) only "convert" into themselves
+ */
+export class UnitRegistryService {
+  /** All units in registry order. */
+  readonly units: readonly UnitDefinition[] = UNIT_DEFINITIONS;
+
+  /** Units offered by the ingredient form, as canonical `UnitOfMeasurement` objects. */
+  readonly formUnits: readonly UnitOfMeasurement[];
+
+  /** Units by normalized name, plural, abbreviation and alias. */
+  private readonly byKey = new Map<string, UnitDefinition>();
+
+  /** Units by id. */
+  private readonly byId = new Map<string, UnitDefinition>();
+
+  /**
+   * Creates the service and indexes the registry.
+   *
+   * @param catalog Ingredient catalog providing densities for mass/volume conversions.
+   */
+  constructor(private readonly catalog: IngredientCatalogService) {
+    for (const unit of this.units) {
+      this.byId.set(unit.id, unit);
+      for (const key of [unit.name, unit.plural, unit.abbreviation, ...unit.aliases]) {
+        const folded = this.fold(key);
+        if (folded && !this.byKey.has(folded)) this.byKey.set(folded, unit);
+      }
+    }
+    this.formUnits = FORM_UNIT_IDS.map((id) => this.toUnitOfMeasurement(this.byId.get(id)!));
+  }
+
+  /**
+   * Finds a unit by name, plural, abbreviation or alias.
+   *
+   * @param word Unit word as typed or returned by the LLM.
+   * @returns The unit or `null` for unknown words.
+   */
+  find(word: string): UnitDefinition | null {
+    return this.byKey.get(this.fold(word)) ?? null;
+  }
+
+  /**
+   * Returns the unit with the given id.
+   *
+   * @param id Unit id (e.g. `'tablespoon'`).
+   * @returns The unit or `null` for unknown ids.
+   */
+  getById(id: string): UnitDefinition | null {
+    return this.byId.get(id) ?? null;
+  }
+
+  /**
+   * Resolves a stored unit or unit word to its registry entry.
+   *
+   * @param unit Unit of an ingredient, unit word or nothing.
+   * @returns The unit, pieces for empty units, or `null` for unknown units.
+   */
+  resolve(unit: UnitInput): UnitDefinition | null {
+    const keys = typeof unit === 'string' ? [unit] : [unit?.abbreviation ?? '', unit?.name ?? ''];
+    const words = keys.map((key) => key.trim()).filter(Boolean);
+    if (words.length === 0) return this.byId.get('piece')!;
+    for (const word of words) {
+      const found = this.find(word);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Normalizes a unit into its canonical `UnitOfMeasurement`
+   * (`{ name: 'tablespoons', abbreviation: 'Tbsp' }` → `{ name: 'tablespoon', abbreviation: 'tbsp' }`).
+   *
+   * Unknown units are kept with trimmed name and abbreviation; unit words become the name.
+   *
+   * @param unit Unit of an ingredient, unit word or nothing.
+   */
+  normalize(unit: UnitInput): UnitOfMeasurement {
+    const found = this.resolve(unit);
+    if (found) return this.toUnitOfMeasurement(found);
+    if (typeof unit === 'string') return { name: unit.trim(), abbreviation: unit.trim() };
+    return { name: unit?.name.trim() ?? '', abbreviation: unit?.abbreviation.trim() ?? '' };
+  }
+
+  /**
+   * Converts a registry entry into the `UnitOfMeasurement` stored with ingredients.
+   *
+   * @param unit Registry entry.
+   */
+  toUnitOfMeasurement(unit: UnitDefinition): UnitOfMeasurement {
+    return { name: unit.name, abbreviation: unit.abbreviation };
+  }
+
+  /**
+   * Converts an amount between two units.
+   *
+   * @param amount Amount in `from`.
+   * @param from Source unit.
+   * @param to Target unit.
+   * @param density Density in g/ml, required to convert between mass and volume.
+   * @returns The unrounded amount in `to`, or `null` if the units are unknown or incompatible.
+   */
+  convert(amount: number, from: UnitInput, to: UnitInput, density?: number | null): number | null {
+    const source = this.resolve(from);
+    const target = this.resolve(to);
+    if (!source || !target || !Number.isFinite(amount)) return null;
+    if (source.id === target.id) return amount;
+
+    const base = amount * source.toBase;
+    if (source.dimension === target.dimension) {
+      return source.dimension === 'count' ? null : base / target.toBase;
+    }
+    if (!density || density <= 0) return null;
+    if (source.dimension === 'volume' && target.dimension === 'mass') return (base * density) / target.toBase;
+    if (source.dimension === 'mass' && target.dimension === 'volume') return base / density / target.toBase;
+    return null;
+  }
+
+  /**
+   * Converts an amount of an ingredient between two units, using the density of the
+   * ingredient's catalog entry for mass/volume conversions (`'Milk'`: 1 cup → 247 g).
+   *
+   * @param amount Amount in `from`.
+   * @param from Source unit.
+   * @param to Target unit.
+   * @param ingredient Ingredient name or alias.
+   * @returns The unrounded amount in `to`, or `null` if it cannot be converted.
+   */
+  convertIngredient(amount: number, from: UnitInput, to: UnitInput, ingredient: string): number | null {
+    return this.convert(amount, from, to, this.catalog.find(ingredient)?.density);
+  }
+
+  /**
+   * Normalizes a unit word for lookups (lowercase, trimmed, single spaces, no trailing dot).
+   *
+   * @param word Unit word.
+   */
+  private fold(word: string): string {
+    return word.trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+  }
+}
@@ -5,6 +5,12 @@ import { RouterModule, Router } from '@angular/router';
 import { GeneratedRecipe } from '../../core/models/recipe.model';
 import { StateService } from '../../core/services/state-service/state.service';
 import { FirestoreRecipeService } from '../../core/services/firebase-recipe-service/firebase-recipe.service';
+import { isBuiltInCuisine, toCuisineLabel } from '../../core/mappers/cuisine.mapper';
+
+/**
+ * Free-text cuisine found in the cookbook, with the number of recipes it has.
+ */
+type OtherCuisine = { slug: string; label: string; count: number };
 
 @Component({
   selector: 'app-cookbook',
@@ -19,6 +25,7 @@ import { FirestoreRecipeService } from '../../core/services/firebase-recipe-serv
  * Responsibilities:
  * - Load all recipes from persistence and derive the most liked ones
  * - Display top-liked recipes and cuisine categories
+ * - Group free-text cuisines of stored recipes into an "Other cuisines" section
  * - Provide navigation to recipe detail and cuisine-filtered views
  * - Expose simple UI helpers for likes and conditional rendering
  */
@@ -29,6 +36,9 @@ export class CookbookComponent implements OnInit {
   /** Indicates whether the top-liked recipes are currently being loaded. */
   isLoadingTopRecipes = false;
 
+  /** Free-text cuisines of stored recipes, most recipes first. */
+  otherCuisines: OtherCuisine[] = [];
+
   /** Maximum number of top-liked recipes to display. */
   private readonly NUMBER_OF_TOP_RECIPES = 3;
 
@@ -54,6 +64,13 @@ export class CookbookComponent implements OnInit {
     return this.state.preferencesOptions.cuisine;
   }
 
+  /**
+   * Returns the emoji shown next to free-text cuisines.
+   */
+  get otherCuisineEmoji(): string {
+    return this.state.preferencesOptions.customCuisine.emoji;
+  }
+
   /**
    * Indicates whether at least one top-liked recipe is available.
    */
@@ -64,7 +81,7 @@ export class CookbookComponent implements OnInit {
   /**
    * Angular lifecycle hook.
    *
-   * Loads the most liked recipes when the component is initialized.
+   * Loads the most liked recipes and the free-text cuisines when the component is initialized.
    */
   ngOnInit(): void {
     this.loadTopLikedRecipes();
@@ -104,7 +121,7 @@ export class CookbookComponent implements OnInit {
   }
 
   /**
-   * Loads all recipes and derives the top-liked subset.
+   * Loads all recipes and derives the top-liked subset and the free-text cuisines.
    *
    * Sets a loading flag while fetching data and ensures the flag
    * is reset on both success and error.
@@ -115,6 +132,7 @@ export class CookbookComponent implements OnInit {
     this.firestoreRecipeService.loadCookbook().subscribe({
       next: (recipes) => {
         this.topLikedRecipes = this.pickTopLiked(recipes);
+        this.otherCuisines = this.collectOtherCuisines(recipes);
         this.isLoadingTopRecipes = false;
       },
       error: (error) => {
@@ -137,6 +155,25 @@ export class CookbookComponent implements OnInit {
     return sorted.slice(0, this.NUMBER_OF_TOP_RECIPES);
   }
 
+  /**
+   * Collects the cuisines that are not built in, counting their recipes.
+   *
+   * @param recipes All available recipes (with canonicalized preferences).
+   * @returns Free-text cuisines sorted by recipe count, then by name.
+   */
+  private collectOtherCuisines(recipes: GeneratedRecipe[]): OtherCuisine[] {
+    const counts = new Map<string, number>();
+    for (const recipe of recipes) {
+      const slug = recipe.preferences?.cuisine;
+      if (!slug || isBuiltInCuisine(slug)) continue;
+      counts.set(slug, (counts.get(slug) ?? 0) + 1);
+    }
+
+    return [...counts.entries()]
+      .map(([slug, count]) => ({ slug, label: toCuisineLabel(slug), count }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+
   /**
    * Navigates back to the previous browser history entry.
    */
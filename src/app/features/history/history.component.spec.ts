@@ -0,0 +1,138 @@
+import { provideZoneChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+
+import { HistoryComponent } from './history.component';
+import type { GenerationHistoryEntry } from '../../core/models/history.model';
+import type { GeneratedRecipe } from '../../core/models/recipe.model';
+import { StateService } from '../../core/services/state-service/state.service';
+import { ToastService } from '../../core/services/toast-service/toast.service';
+import { FirestoreRecipeService } from '../../core/services/firebase-recipe-service/firebase-recipe.service';
+import { GenerationHistoryService } from '../../core/services/generation-history-service/generation-history.service';
+
+describe('HistoryComponent', () => {
+  let component: HistoryComponent;
+  let fixture: ComponentFixture<HistoryComponent>;
+  let entries: GenerationHistoryEntry[];
+  let recipes: Record<string, GeneratedRecipe>;
+
+  const entry = (id: number, recipeIds: string[]): GenerationHistoryEntry => ({
+    id,
+    createdAt: id * 1000,
+    requirements: {
+      cookingTime: 'quick',
+      maxCookingMinutes: null,
+      cuisine: 'italian',
+      dietPreferences: ['vegetarian'],
+      portionsAmount: 2,
+      cooksAmount: 1,
+      excludedIngredients: [],
+      recipeCount: recipeIds.length,
+      language: 'en',
+      equipment: [],
+      budget: 'any',
+    },
+    ingredients: [{ ingredient: 'Pasta', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }],
+    recipeIds,
+    recipeTitles: recipeIds.map((recipeId) => `Title ${recipeId}`),
+    quota: null,
+  });
+
+  const titles = (): string[] =>
+    Array.from(fixture.nativeElement.querySelectorAll('.history-entry__recipe') as NodeListOf<HTMLElement>).map(
+      (item) => item.textContent!.trim(),
+    );
+
+  async function render(): Promise<void> {
+    fixture = TestBed.createComponent(HistoryComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+    await fixture.whenStable();
+    fixture.detectChanges();
+  }
+
+  beforeEach(async () => {
+    entries = [entry(2, ['b']), entry(1, ['a'])];
+    recipes = { a: { title: 'Recipe a' } as GeneratedRecipe };
+
+    await TestBed.configureTestingModule({
+      imports: [HistoryComponent],
+      providers: [
+        // The app runs with zone change detection (see app.config.ts).
+        provideZoneChangeDetection(),
+        provideRouter([]),
+        {
+          provide: GenerationHistoryService,
+          useValue: {
+            list: () => Promise.resolve([...entries]),
+            remove: (id: number) => Promise.resolve(void (entries = entries.filter((item) => item.id !== id))),
+          },
+        },
+        {
+          provide: FirestoreRecipeService,
+          useValue: { getRecipeById: (id: string) => Promise.resolve(recipes[id] ?? null) },
+        },
+      ],
+    })
+    .compileComponents();
+
+    await render();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('lists the recorded runs in the order provided by the history', () => {
+    expect(titles()).toEqual(['Title b', 'Title a']);
+  });
+
+  it('shows the empty state without recorded runs', async () => {
+    entries = [];
+    await render();
+
+    expect(fixture.nativeElement.querySelector('.history__empty').textContent).toContain('No runs yet');
+  });
+
+  it('re-opens a run with its recipes and requirements', async () => {
+    const navigate = spyOn(TestBed.inject(Router), 'navigate').and.resolveTo(true);
+    const state = TestBed.inject(StateService);
+
+    await component.onOpen(component.entries[1]);
+
+    expect(state.generatedRecipes.map((recipe) => recipe.title)).toEqual(['Recipe a']);
+    expect(state.lastGeneratedRequirements?.cuisine).toBe('italian');
+    expect(navigate).toHaveBeenCalledWith(['/recipe-results']);
+    expect(component.openingId).toBeNull();
+  });
+
+  it('shows a toast instead of opening a run whose recipes are gone', async () => {
+    const navigate = spyOn(TestBed.inject(Router), 'navigate').and.resolveTo(true);
+    const show = spyOn(TestBed.inject(ToastService), 'show');
+
+    await component.onOpen(component.entries[0]);
+
+    expect(show).toHaveBeenCalledWith(jasmine.objectContaining({ title: 'Recipes not available' }));
+    expect(navigate).not.toHaveBeenCalled();
+  });
+
+  it('restores the inputs of a run for a new generation', () => {
+    const navigate = spyOn(TestBed.inject(Router), 'navigate').and.resolveTo(true);
+
+    component.onRerun(component.entries[0]);
+
+    const requirements = TestBed.inject(StateService).recipeRequirements;
+    expect(requirements.ingredients.map((item) => item.ingredient)).toEqual(['Pasta']);
+    expect(requirements.ingredients[0]).not.toBe(component.entries[0].ingredients[0]);
+    expect(requirements.dietPreferences).toEqual(['vegetarian']);
+    expect(navigate).toHaveBeenCalledWith(['/preferences']);
+  });
+
+  it('removes a run from the history and the list', async () => {
+    await component.onRemove(component.entries[0]);
+    fixture.detectChanges();
+
+    expect(entries.map((item) => item.id)).toEqual([1]);
+    expect(titles()).toEqual(['Title a']);
+  });
+});
@@ -0,0 +1,236 @@
+import { CommonModule, DatePipe, Location, TitleCasePipe } from '@angular/common';
+import { Component, OnInit } from '@angular/core';
+import { Router, RouterModule } from '@angular/router';
+
+import { DietPreference, GeneratedRecipe, RecipeRequirementsSnapshot } from '../../core/models/recipe.model';
+import { toDietPreferences } from '../../core/mappers/diet-preferences.mapper';
+import { GenerationHistoryEntry } from '../../core/models/history.model';
+import { StateService } from '../../core/services/state-service/state.service';
+import { FirestoreRecipeService } from '../../core/services/firebase-recipe-service/firebase-recipe.service';
+import { GenerationHistoryService } from '../../core/services/generation-history-service/generation-history.service';
+import { ToastService } from '../../core/services/toast-service/toast.service';
+
+@Component({
+  selector: 'app-history',
+  standalone: true,
+  imports: [CommonModule, RouterModule, TitleCasePipe, DatePipe],
+  templateUrl: './history.component.html',
+  styleUrl: './history.component.scss',
+})
+/**
+ * Displays the locally stored history of successful generation runs.
+ *
+ * Responsibilities:
+ * - Load recorded runs from `GenerationHistoryService`
+ * - Re-open a run in `RecipeResultsComponent` (recipes are loaded from Firestore by id)
+ * - Re-run a run by restoring its inputs and returning to the preferences step
+ * - Remove single runs from the history
+ */
+export class HistoryComponent implements OnInit {
+  /** Recorded runs, newest first. */
+  entries: GenerationHistoryEntry[] = [];
+
+  /** Indicates whether the history is currently being loaded. */
+  isLoading = false;
+
+  /** Id of the run currently being re-opened, or `null` if none. */
+  openingId: number | null = null;
+
+  /**
+   * Creates the history component.
+   *
+   * @param state Central application state service.
+   * @param history Service providing the recorded generation runs.
+   * @param firestoreRecipeService Service used to load the recipes of a run.
+   * @param toastService Service used to show user-facing feedback.
+   * @param router Angular router used for navigation.
+   * @param location Angular location service used for back navigation.
+   */
+  constructor(
+    private readonly state: StateService,
+    private readonly history: GenerationHistoryService,
+    private readonly firestoreRecipeService: FirestoreRecipeService,
+    private readonly toastService: ToastService,
+    private readonly router: Router,
+    private readonly location: Location,
+  ) {}
+
+  /**
+   * Indicates whether at least one run has been recorded.
+   */
+  get hasEntries(): boolean {
+    return this.entries.length > 0;
+  }
+
+  /**
+   * Angular lifecycle hook.
+   *
+   * Loads the recorded runs when the component is initialized.
+   */
+  ngOnInit(): void {
+    this.loadEntries();
+  }
+
+  /**
+   * Returns the diet preferences of a run (runs recorded before diet preferences could be
+   * combined stored a single string).
+   *
+   * @param entry Recorded run.
+   */
+  dietPreferencesOf(entry: GenerationHistoryEntry): DietPreference[] {
+    return toDietPreferences(entry.requirements.dietPreferences);
+  }
+
+  /**
+   * Returns a short, comma-separated list of the ingredients of a run.
+   *
+   * @param entry Recorded run.
+   */
+  ingredientNames(entry: GenerationHistoryEntry): string {
+    return entry.ingredients.map((item) => item.ingredient).join(', ');
+  }
+
+  /**
+   * Re-opens a recorded run in the results view.
+   *
+   * Loads the recipes of the run from Firestore and restores the results state
+   * (recipes, requirements snapshot and ingredients) as if the run just finished.
+   *
+   * @param entry Recorded run.
+   */
+  async onOpen(entry: GenerationHistoryEntry): Promise<void> {
+    if (this.openingId !== null || entry.id === undefined) return;
+    this.openingId = entry.id;
+
+    try {
+      const recipes = await this.loadRecipes(entry.recipeIds);
+      if (!recipes.length) {
+        this.showMissingRecipesToast();
+        return;
+      }
+      this.restoreResults(entry, recipes);
+      this.router.navigate(['/recipe-results']);
+    } catch (error) {
+      console.error('Error loading recipes of history entry:', error);
+      this.showMissingRecipesToast();
+    } finally {
+      this.openingId = null;
+    }
+  }
+
+  /**
+   * Re-runs a recorded run with the same inputs.
+   *
+   * Restores ingredients and preferences into the current requirements and navigates
+   * to the preferences step, where the generation can be started again.
+   *
+   * @param entry Recorded run.
+   */
+  onRerun(entry: GenerationHistoryEntry): void {
+    this.state.recipeRequirements = {
+      ...this.requirementsOf(entry),
+      ingredients: entry.ingredients.map((item) => ({ ...item, unit: { ...item.unit } })),
+    };
+    this.router.navigate(['/preferences']);
+  }
+
+  /**
+   * Removes a run from the history.
+   *
+   * @param entry Recorded run.
+   */
+  async onRemove(entry: GenerationHistoryEntry): Promise<void> {
+    if (entry.id === undefined) return;
+
+    try {
+      await this.history.remove(entry.id);
+      this.entries = this.entries.filter((item) => item.id !== entry.id);
+    } catch (error) {
+      console.error('Error removing history entry:', error);
+    }
+  }
+
+  /**
+   * Navigates back to the previous browser history entry.
+   */
+  goBack(): void {
+    this.location.back();
+  }
+
+  /**
+   * Loads all recorded runs.
+   *
+   * Sets a loading flag while fetching data and ensures the flag
+   * is reset on both success and error.
+   */
+  private async loadEntries(): Promise<void> {
+    this.isLoading = true;
+
+    try {
+      this.entries = await this.history.list();
+    } catch (error) {
+      console.error('Error loading generation history:', error);
+      this.entries = [];
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * Loads recipes by id, skipping recipes that no longer exist.
+   *
+   * @param ids Firestore document ids.
+   * @returns The existing recipes in the original order.
+   */
+  private async loadRecipes(ids: string[]): Promise<GeneratedRecipe[]> {
+    const recipes = await Promise.all(
+      ids.map((id) => this.firestoreRecipeService.getRecipeById(id)),
+    );
+    return recipes.filter((recipe): recipe is GeneratedRecipe => !!recipe);
+  }
+
+  /**
+   * Writes a recorded run into the results state.
+   *
+   * @param entry Recorded run.
+   * @param recipes Recipes of the run loaded from Firestore.
+   */
+  private restoreResults(entry: GenerationHistoryEntry, recipes: GeneratedRecipe[]): void {
+    this.state.generatedRecipes = recipes;
+    this.state.lastGeneratedRequirements = this.requirementsOf(entry);
+    this.state.lastGeneratedIngredients = entry.ingredients.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Returns a copy of the requirements of a recorded run.
+   *
+   * Runs recorded before these fields existed default to no exclusions, the number of
+   * recipes the run produced, no exact time budget, English, no equipment constraints and
+   * any budget; a single diet preference string is converted into a list.
+   *
+   * @param entry Recorded run.
+   */
+  private requirementsOf(entry: GenerationHistoryEntry): RecipeRequirementsSnapshot {
+    return {
+      ...entry.requirements,
+      maxCookingMinutes: entry.requirements.maxCookingMinutes ?? null,
+      dietPreferences: toDietPreferences(entry.requirements.dietPreferences),
+      excludedIngredients: [...(entry.requirements.excludedIngredients ?? [])],
+      recipeCount: entry.requirements.recipeCount ?? entry.recipeIds.length,
+      language: entry.requirements.language ?? 'en',
+      equipment: [...(entry.requirements.equipment ?? [])],
+      budget: entry.requirements.budget ?? 'any',
+    };
+  }
+
+  /**
+   * Shows a toast indicating that the recipes of a run could not be loaded.
+   */
+  private showMissingRecipesToast(): void {
+    this.toastService.show({
+      title: 'Recipes not available',
+      message: 'We couldn’t load the recipes of this run. Try running it again instead.',
+      durationMs: 4000,
+    });
+  }
+}
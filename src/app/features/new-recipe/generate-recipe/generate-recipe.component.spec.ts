@@ -1,6 +1,11 @@
-import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideZoneChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { NgForm } from '@angular/forms';
+import { provideRouter } from '@angular/router';
 
 import { GenerateRecipeComponent } from './generate-recipe.component';
+import { StateService } from '../../../core/services/state-service/state.service';
+import { SUGGESTION_DEBOUNCE_MS } from '../../../core/services/ingredient-autocomplete-service/ingredient-autocomplete.service';
 
 describe('GenerateStep1Component', () => {
   let component: GenerateRecipeComponent;
@@ -8,7 +13,12 @@ describe('GenerateStep1Component', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [GenerateRecipeComponent]
+      imports: [GenerateRecipeComponent],
+      providers: [
+        // The app runs with zone change detection (see app.config.ts).
+        provideZoneChangeDetection(),
+        provideRouter([]),
+      ],
     })
     .compileComponents();
 
@@ -20,4 +30,277 @@ describe('GenerateStep1Component', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  describe('keyboard interaction', () => {
+    const query = <T extends HTMLElement>(selector: string): T =>
+      fixture.nativeElement.querySelector(selector) as T;
+
+    const ingredientInput = () => query<HTMLInputElement>('#ingredient');
+
+    const suggestionOptions = (): NodeListOf<HTMLElement> =>
+      fixture.nativeElement.querySelectorAll('#ingredient-suggestions [role="option"]');
+
+    const liveRegion = () => query<HTMLElement>('[role="status"]').textContent?.trim();
+
+    /** Types into the ingredient input and waits for the debounced suggestions (call inside `fakeAsync`). */
+    function type(text: string): void {
+      const input = ingredientInput();
+      input.focus();
+      input.value = text;
+      input.dispatchEvent(new Event('input'));
+      tick(SUGGESTION_DEBOUNCE_MS);
+      fixture.detectChanges();
+    }
+
+    function press(target: HTMLElement, key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+      target.dispatchEvent(event);
+      fixture.detectChanges();
+      return event;
+    }
+
+    describe('ingredient combobox', () => {
+      it('exposes combobox semantics and announces the suggestions', fakeAsync(() => {
+        const input = ingredientInput();
+        expect(input.getAttribute('role')).toBe('combobox');
+        expect(input.getAttribute('aria-expanded')).toBe('false');
+
+        type('tom');
+
+        expect(input.getAttribute('aria-expanded')).toBe('true');
+        expect(query('#ingredient-suggestions').getAttribute('role')).toBe('listbox');
+        expect(suggestionOptions().length).toBe(3);
+        expect(liveRegion()).toBe('3 suggestions available. Use the arrow keys to choose, Tab to complete.');
+      }));
+
+      it('searches only once typing pauses', fakeAsync(() => {
+        const input = ingredientInput();
+        input.value = 'tom';
+        input.dispatchEvent(new Event('input'));
+        fixture.detectChanges();
+        expect(input.getAttribute('aria-expanded')).toBe('false');
+
+        tick(SUGGESTION_DEBOUNCE_MS);
+        fixture.detectChanges();
+        expect(input.getAttribute('aria-expanded')).toBe('true');
+      }));
+
+      it('moves the highlight with the arrow keys and wraps around', fakeAsync(() => {
+        type('tom');
+        const input = ingredientInput();
+
+        expect(press(input, 'ArrowDown').defaultPrevented).toBeTrue();
+        expect(input.getAttribute('aria-activedescendant')).toBe('ingredient-suggestion-0');
+        expect(query('#ingredient-suggestion-0').getAttribute('aria-selected')).toBe('true');
+
+        press(input, 'ArrowUp');
+        expect(input.getAttribute('aria-activedescendant')).toBe('ingredient-suggestion-2');
+
+        press(input, 'ArrowDown');
+        expect(input.getAttribute('aria-activedescendant')).toBe('ingredient-suggestion-0');
+        expect(query('#ingredient-suggestion-2').getAttribute('aria-selected')).toBe('false');
+      }));
+
+      it('applies the highlighted suggestion on Enter without adding the ingredient', fakeAsync(() => {
+        type('tom');
+        const input = ingredientInput();
+        press(input, 'ArrowDown');
+        press(input, 'ArrowDown');
+
+        expect(press(input, 'Enter').defaultPrevented).toBeTrue();
+        expect(component.ingredientName).toBe('Tomato paste');
+        expect(component.selectedUnit.name).toBe('gram');
+        expect(TestBed.inject(StateService).recipeRequirements.ingredients.length).toBe(0);
+        expect(input.getAttribute('aria-expanded')).toBe('false');
+        expect(input.hasAttribute('aria-activedescendant')).toBeFalse();
+        expect(liveRegion()).toBe('Tomato paste selected, unit gram.');
+      }));
+
+      it('lets Enter submit the form when no suggestion is highlighted', fakeAsync(() => {
+        type('tom');
+        expect(press(ingredientInput(), 'Enter').defaultPrevented).toBeFalse();
+      }));
+
+      it('accepts the inline completion on Tab', fakeAsync(() => {
+        type('Cucu');
+        expect(component.inlineSuggestion).toBe('Cucumber');
+
+        expect(press(ingredientInput(), 'Tab').defaultPrevented).toBeTrue();
+        expect(component.ingredientName).toBe('Cucumber');
+        expect(component.selectedUnit.name).toBe('piece');
+        expect(component.inlineSuggestion).toBe('');
+      }));
+
+      it('keeps the default Tab behaviour without a completion', fakeAsync(() => {
+        type('Kartof');
+        expect(component.inlineSuggestion).toBe('');
+
+        expect(press(ingredientInput(), 'Tab').defaultPrevented).toBeFalse();
+        expect(component.ingredientName).toBe('Kartof');
+        expect(ingredientInput().getAttribute('aria-expanded')).toBe('false');
+      }));
+
+      it('closes the suggestions on Escape and reopens them with ArrowDown', fakeAsync(() => {
+        type('pota');
+        const input = ingredientInput();
+
+        expect(press(input, 'Escape').defaultPrevented).toBeTrue();
+        expect(input.getAttribute('aria-expanded')).toBe('false');
+        expect(component.ingredientName).toBe('pota');
+
+        press(input, 'ArrowDown');
+        expect(input.getAttribute('aria-expanded')).toBe('true');
+        expect(input.getAttribute('aria-activedescendant')).toBe('ingredient-suggestion-0');
+      }));
+    });
+
+    describe('unit dropdowns', () => {
+      const mainUnitButton = () => query<HTMLButtonElement>('button[aria-controls="unit-menu"]');
+
+      it('opens the main unit dropdown with the current unit highlighted', () => {
+        const button = mainUnitButton();
+        expect(button.getAttribute('aria-haspopup')).toBe('listbox');
+        expect(button.getAttribute('aria-expanded')).toBe('false');
+
+        press(button, 'ArrowDown');
+
+        expect(button.getAttribute('aria-expanded')).toBe('true');
+        expect(query('#unit-menu').getAttribute('role')).toBe('listbox');
+        expect(button.getAttribute('aria-activedescendant')).toBe('unit-menu-option-0');
+        expect(query('#unit-menu-option-0').getAttribute('aria-selected')).toBe('true');
+      });
+
+      it('selects a unit with the arrow keys and Enter', () => {
+        const button = mainUnitButton();
+        press(button, 'Enter');
+        press(button, 'ArrowDown');
+        expect(button.getAttribute('aria-activedescendant')).toBe('unit-menu-option-1');
+
+        expect(press(button, 'Enter').defaultPrevented).toBeTrue();
+        expect(component.selectedUnit.name).toBe('kilogram');
+        expect(button.getAttribute('aria-expanded')).toBe('false');
+        expect(button.getAttribute('aria-label')).toBe('Unit, kilogram');
+        expect(liveRegion()).toBe('Unit kilogram selected.');
+      });
+
+      it('closes the main unit dropdown on Escape without changing the unit', () => {
+        const button = mainUnitButton();
+        press(button, ' ');
+        press(button, 'ArrowUp');
+
+        press(button, 'Escape');
+
+        expect(button.getAttribute('aria-expanded')).toBe('false');
+        expect(button.hasAttribute('aria-activedescendant')).toBeFalse();
+        expect(component.selectedUnit.name).toBe('gram');
+      });
+
+      const piece = () => component.unitsOfMeasurement.findIndex((unit) => unit.name === 'piece');
+
+      it('operates the unit dropdown of a listed ingredient', () => {
+        const ingredient = {
+          ingredient: 'Tomato',
+          servingSize: 2,
+          unit: component.unitsOfMeasurement[piece()],
+          isEditMode: true,
+          isUnitDropdownOpen: false,
+        };
+        TestBed.inject(StateService).recipeRequirements.ingredients = [ingredient];
+        fixture.detectChanges();
+        const button = query<HTMLButtonElement>('button[aria-controls="unit-menu-0"]');
+
+        press(button, 'ArrowDown');
+        expect(button.getAttribute('aria-activedescendant')).toBe(`unit-menu-0-option-${piece()}`);
+
+        press(button, 'ArrowUp');
+        expect(button.getAttribute('aria-activedescendant')).toBe(`unit-menu-0-option-${piece() - 1}`);
+
+        press(button, 'Enter');
+        expect(ingredient.unit.name).toBe('pound');
+        expect(ingredient.isUnitDropdownOpen).toBeFalse();
+        expect(component.selectedUnit.name).toBe('gram');
+        expect(button.getAttribute('aria-label')).toBe('Unit of Tomato, pound');
+      });
+
+      it('closes other unit dropdowns when one opens', () => {
+        TestBed.inject(StateService).recipeRequirements.ingredients = [
+          {
+            ingredient: 'Tomato',
+            servingSize: 2,
+            unit: component.unitsOfMeasurement[piece()],
+            isEditMode: true,
+            isUnitDropdownOpen: false,
+          },
+        ];
+        fixture.detectChanges();
+        press(mainUnitButton(), 'ArrowDown');
+
+        press(query<HTMLButtonElement>('button[aria-controls="unit-menu-0"]'), 'ArrowDown');
+
+        expect(component.isDropdownOpen).toBeFalse();
+        expect(mainUnitButton().getAttribute('aria-expanded')).toBe('false');
+      });
+    });
+  });
+
+  describe('duplicate ingredients', () => {
+    const form = { resetForm: () => undefined } as unknown as NgForm;
+    const unit = (name: string) => component.unitsOfMeasurement.find((option) => option.name === name)!;
+
+    function add(name: string, servingSize: number, unitName: string): void {
+      component.ingredientName = name;
+      component.servingSize = servingSize;
+      component.selectedUnit = unit(unitName);
+      component.onSubmit(form);
+    }
+
+    it('offers to merge amounts of convertible units', () => {
+      add('Milk', 200, 'ml');
+      add('milk', 0.3, 'liter');
+
+      expect(component.recipeRequirements.ingredients.length).toBe(2);
+      expect(component.duplicate?.merged).toBe(500);
+
+      component.mergeDuplicate();
+
+      expect(component.duplicate).toBeNull();
+      expect(component.recipeRequirements.ingredients.map((item) => [item.ingredient, item.servingSize])).toEqual([
+        ['Milk', 500],
+      ]);
+      expect(component.liveAnnouncement).toBe('Merged Milk: 500 ml.');
+    });
+
+    it('keeps both rows when the offer is dismissed', () => {
+      add('Onion', 1, 'piece');
+      add('Onion', 1, 'piece');
+
+      component.dismissDuplicate();
+
+      expect(component.duplicate).toBeNull();
+      expect(component.recipeRequirements.ingredients.length).toBe(2);
+    });
+
+    it('warns when the units cannot be converted', () => {
+      add('Milk', 200, 'ml');
+      add('Milk', 2, 'piece');
+
+      expect(component.duplicate?.merged).toBeNull();
+      expect(component.liveAnnouncement).toContain('cannot be combined');
+      component.mergeDuplicate();
+      expect(component.recipeRequirements.ingredients.length).toBe(2);
+    });
+
+    it('detects duplicates created by editing a row', () => {
+      add('Onion', 1, 'piece');
+      add('Garlic', 2, 'piece');
+      const [garlic] = component.recipeRequirements.ingredients;
+
+      component.toggleEditModeForIngredient(garlic);
+      garlic.ingredient = 'Zwiebel';
+      component.toggleEditModeForIngredient(garlic);
+
+      expect(component.duplicate?.added).toBe(garlic);
+      expect(component.duplicate?.merged).toBe(3);
+    });
+  });
 });
@@ -1,19 +1,26 @@
-import { Component, HostListener } from '@angular/core';
+import { Component, HostListener, OnDestroy } from '@angular/core';
 import { RouterModule } from '@angular/router';
 import { FormsModule, NgForm } from '@angular/forms';
+import { Subject, Subscription } from 'rxjs';
 
 import {
   UiIngredient,
   UnitOfMeasurement,
   RecipeRequirements,
 } from '../../../core/models/recipe.model';
+import type { IngredientDuplicate, IngredientSuggestion } from '../../../core/models/ingredient.model';
 import { StateService } from '../../../core/services/state-service/state.service';
 import { IngredientAutocompleteService } from '../../../core/services/ingredient-autocomplete-service/ingredient-autocomplete.service';
+import { IngredientCatalogService } from '../../../core/services/ingredient-catalog-service/ingredient-catalog.service';
+import { UnitRegistryService } from '../../../core/services/unit-registry-service/unit-registry.service';
+import { IngredientMergeService } from '../../../core/services/ingredient-merge-service/ingredient-merge.service';
+import { PantryStaplesComponent } from '../pantry-staples/pantry-staples.component';
+import { IngredientListPasteComponent } from '../ingredient-list-paste/ingredient-list-paste.component';
 
 @Component({
   selector: 'app-generate-recipe',
   standalone: true,
-  imports: [RouterModule, FormsModule],
+  imports: [RouterModule, FormsModule, IngredientListPasteComponent, PantryStaplesComponent],
   templateUrl: './generate-recipe.component.html',
   styleUrl: './generate-recipe.component.scss',
 })
@@ -22,28 +29,32 @@ import { IngredientAutocompleteService } from '../../../core/services/ingredient
  *
  * Responsibilities:
  * - Manage ingredient input (name, unit, serving size)
- * - Provide autocomplete suggestions while typing ingredients
+ * - Provide autocomplete suggestions while typing ingredients (including localized aliases),
+ *   searched once typing pauses, and pre-select the default unit of an applied suggestion
+ * - Store catalog ingredients under their canonical name, even when typed as an alias
+ * - Detect duplicate ingredients on add/edit and offer to merge their amounts (or warn
+ *   when the units cannot be converted)
+ * - Host the paste-list mode for adding several ingredients at once
+ * - Host the pantry staples editor (ingredients that are always at home)
  * - Handle dropdown interactions and inline suggestions
+ * - Make the ingredient combobox and the unit dropdowns fully keyboard operable
+ *   (arrows, Enter, Escape, Tab completion) and announce changes to screen readers
  * - Synchronize user input with the central `StateService`
  *
  * This component focuses purely on UI interaction and state mutation.
  * Recipe generation itself is handled by dedicated services.
  */
-export class GenerateRecipeComponent {
+export class GenerateRecipeComponent implements OnDestroy {
   /**
-   * Supported units of measurement for ingredient quantities.
+   * Supported units of measurement for ingredient quantities (the form units of the unit registry).
    */
-  readonly unitsOfMeasurement: UnitOfMeasurement[] = [
-    { name: 'gram', abbreviation: 'g' },
-    { name: 'ml', abbreviation: 'ml' },
-    { name: 'piece', abbreviation: '' },
-  ];
+  readonly unitsOfMeasurement: readonly UnitOfMeasurement[];
 
   /** Indicates whether the main unit dropdown is open. */
   isDropdownOpen = false;
 
   /** Currently selected unit for the ingredient being entered. */
-  selectedUnit: UnitOfMeasurement = this.unitsOfMeasurement[0];
+  selectedUnit: UnitOfMeasurement;
 
   /**
    * Current serving size input value.
@@ -57,21 +68,60 @@ export class GenerateRecipeComponent {
   ingredientName = '';
 
   /** List of autocomplete suggestions for the ingredient input. */
-  ingredientSuggestions: string[] = [];
+  ingredientSuggestions: IngredientSuggestion[] = [];
 
   /** Inline (ghost text) suggestion appended to the current input. */
   inlineSuggestion = '';
 
+  /** Index of the highlighted autocomplete suggestion (`-1` when none is highlighted). */
+  activeSuggestionIndex = -1;
+
+  /** Index of the highlighted option in the open unit dropdown (`-1` when none is open). */
+  activeUnitIndex = -1;
+
+  /** Message read out by screen readers through the polite live region. */
+  liveAnnouncement = '';
+
+  /** Duplicate created by the last add/edit, shown as merge offer or warning (`null` when none). */
+  duplicate: IngredientDuplicate | null = null;
+
+  /** Ingredient input as typed; searched by `suggestOnInput` once typing pauses. */
+  private readonly ingredientInput = new Subject<string>();
+
+  /** Subscription delivering debounced suggestions for `ingredientInput`. */
+  private readonly suggestionSubscription: Subscription;
+
   /**
    * Creates the generate-recipe component.
    *
    * @param state Central application state service.
    * @param ingredientAutocomplete Service providing ingredient autocomplete suggestions.
+   * @param ingredientCatalog Ingredient catalog used for category labels and alias resolution.
+   * @param unitRegistry Unit registry providing the units offered by the form.
+   * @param ingredientMerge Service detecting and merging duplicate ingredients.
    */
   constructor(
     private readonly state: StateService,
     private readonly ingredientAutocomplete: IngredientAutocompleteService,
-  ) {}
+    private readonly ingredientCatalog: IngredientCatalogService,
+    private readonly unitRegistry: UnitRegistryService,
+    private readonly ingredientMerge: IngredientMergeService,
+  ) {
+    this.unitsOfMeasurement = this.unitRegistry.formUnits;
+    this.selectedUnit = this.unitsOfMeasurement[0];
+    this.suggestionSubscription = this.ingredientAutocomplete
+      .suggestOnInput(this.ingredientInput)
+      .subscribe((suggestions) => this.showSuggestions(suggestions));
+  }
+
+  /**
+   * Angular lifecycle hook.
+   *
+   * Stops delivering suggestions.
+   */
+  ngOnDestroy(): void {
+    this.suggestionSubscription.unsubscribe();
+  }
 
   /**
    * Exposes the current recipe requirements from application state.
@@ -102,8 +152,7 @@ export class GenerateRecipeComponent {
     if (this.isClickInsideAnyUnitDropdown(target)) return;
     if (this.isClickInsideIngredientAutocomplete(target)) return;
     this.closeAllDropdowns();
-    this.ingredientSuggestions = [];
-    this.inlineSuggestion = '';
+    this.closeSuggestions();
   }
 
   /**
@@ -132,7 +181,11 @@ export class GenerateRecipeComponent {
    * @param event Mouse click event.
    */
   toggleDropdown(event: MouseEvent): void {
-    this.isDropdownOpen = !this.isDropdownOpen;
+    if (this.isDropdownOpen) {
+      this.closeUnitDropdown();
+    } else {
+      this.openUnitDropdown();
+    }
     event.stopPropagation();
   }
 
@@ -143,24 +196,150 @@ export class GenerateRecipeComponent {
    * @param event Mouse click event.
    */
   selectUnit(unit: UnitOfMeasurement, event: MouseEvent): void {
-    this.selectedUnit = unit;
-    this.closeMainDropdown(event);
+    this.applyUnit(unit);
+    event.stopPropagation();
+  }
+
+  /**
+   * Handles keyboard interaction on a unit dropdown button.
+   *
+   * - ArrowDown / ArrowUp open the dropdown or move the highlighted unit (wrapping around)
+   * - Enter / Space open the dropdown or select the highlighted unit
+   * - Escape closes the dropdown without changing the unit
+   * - Tab closes the dropdown and moves focus on
+   *
+   * @param event Keyboard event.
+   * @param ingredient Listed ingredient whose dropdown is used; omitted for the main dropdown.
+   */
+  onUnitDropdownKeydown(event: KeyboardEvent, ingredient?: UiIngredient): void {
+    const isOpen = ingredient ? ingredient.isUnitDropdownOpen : this.isDropdownOpen;
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        event.preventDefault();
+        if (!isOpen) {
+          this.openUnitDropdown(ingredient);
+          return;
+        }
+        this.activeUnitIndex = this.moveIndex(
+          this.activeUnitIndex,
+          event.key === 'ArrowDown' ? 1 : -1,
+          this.unitsOfMeasurement.length,
+        );
+        return;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        if (!isOpen) {
+          this.openUnitDropdown(ingredient);
+          return;
+        }
+        this.applyUnit(this.unitsOfMeasurement[this.activeUnitIndex], ingredient);
+        return;
+      case 'Escape':
+        if (!isOpen) return;
+        event.preventDefault();
+        event.stopPropagation();
+        this.closeUnitDropdown(ingredient);
+        return;
+      case 'Tab':
+        if (isOpen) this.closeUnitDropdown(ingredient);
+        return;
+    }
+  }
+
+  /**
+   * Returns the element id of the highlighted unit option, used as `aria-activedescendant`.
+   *
+   * @param menuId Id of the dropdown's listbox.
+   * @param isOpen Whether that dropdown is open.
+   * @returns The option id or `null` when nothing is highlighted.
+   */
+  activeUnitOptionId(menuId: string, isOpen: boolean): string | null {
+    return isOpen && this.activeUnitIndex > -1 ? `${menuId}-option-${this.activeUnitIndex}` : null;
   }
 
   /**
    * Handles changes to the ingredient name input.
    *
-   * Updates autocomplete suggestions and inline completion text.
+   * Queues the input for a debounced search; until the new suggestions arrive, the inline
+   * completion is only kept while the current first suggestion still completes the input.
    */
   onIngredientInputChange(): void {
     const query = this.ingredientName;
+    this.activeSuggestionIndex = -1;
     if (!query) {
-      this.ingredientSuggestions = [];
-      this.inlineSuggestion = '';
+      this.closeSuggestions();
       return;
     }
-    this.ingredientSuggestions = this.ingredientAutocomplete.search(query, 3);
     this.inlineSuggestion = this.buildInlineSuggestion(query);
+    this.ingredientInput.next(query);
+  }
+
+  /**
+   * Handles keyboard interaction on the ingredient combobox.
+   *
+   * - ArrowDown / ArrowUp highlight the next / previous suggestion (wrapping around)
+   *   and reopen the list for the current input if it was closed
+   * - Enter applies the highlighted suggestion instead of submitting the form
+   * - Escape closes the suggestion list
+   * - Tab applies the highlighted suggestion, or accepts the inline completion
+   *
+   * Without a highlighted suggestion, Enter submits the form and Tab moves focus as usual.
+   *
+   * @param event Keyboard event.
+   */
+  onIngredientKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (this.ingredientSuggestions.length === 0 && this.ingredientName) {
+          this.showSuggestions(this.ingredientAutocomplete.suggest(this.ingredientName, 3));
+        }
+        if (this.ingredientSuggestions.length === 0) return;
+        event.preventDefault();
+        this.activeSuggestionIndex = this.moveIndex(
+          this.activeSuggestionIndex,
+          event.key === 'ArrowDown' ? 1 : -1,
+          this.ingredientSuggestions.length,
+        );
+        return;
+      case 'Enter': {
+        const active = this.ingredientSuggestions[this.activeSuggestionIndex];
+        if (!active) return;
+        event.preventDefault();
+        this.applySuggestion(active);
+        return;
+      }
+      case 'Escape':
+        if (this.ingredientSuggestions.length === 0) return;
+        event.preventDefault();
+        this.closeSuggestions();
+        return;
+      case 'Tab': {
+        if (event.shiftKey) {
+          this.closeSuggestions();
+          return;
+        }
+        const completion =
+          this.ingredientSuggestions[this.activeSuggestionIndex] ??
+          (this.inlineSuggestion ? this.ingredientSuggestions[0] : undefined);
+        if (!completion) {
+          this.closeSuggestions();
+          return;
+        }
+        event.preventDefault();
+        this.applySuggestion(completion);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Returns the element id of the highlighted suggestion, used as `aria-activedescendant`.
+   */
+  get activeSuggestionId(): string | null {
+    return this.activeSuggestionIndex > -1 ? `ingredient-suggestion-${this.activeSuggestionIndex}` : null;
   }
 
   /**
@@ -171,7 +350,7 @@ export class GenerateRecipeComponent {
    * @returns Inline completion string or an empty string if not applicable.
    */
   private buildInlineSuggestion(query: string): string {
-    const first = this.ingredientSuggestions[0];
+    const first = this.ingredientSuggestions[0]?.name;
     if (!first) return '';
     const normalizedQuery = query.toLowerCase();
     const normalizedFirst = first.toLowerCase();
@@ -183,15 +362,28 @@ export class GenerateRecipeComponent {
     return query + completion;
   }
 
+  /**
+   * Returns the category label shown next to a suggestion.
+   *
+   * @param suggestion Autocomplete suggestion.
+   */
+  categoryLabel(suggestion: IngredientSuggestion): string {
+    return this.ingredientCatalog.categoryLabel(suggestion.category);
+  }
+
   /**
    * Applies a selected autocomplete suggestion to the input field.
    *
+   * The default unit of the ingredient is pre-selected if the form offers it.
+   *
    * @param suggestion Selected ingredient suggestion.
    */
-  applySuggestion(suggestion: string): void {
-    this.ingredientName = suggestion;
-    this.ingredientSuggestions = [];
-    this.inlineSuggestion = '';
+  applySuggestion(suggestion: IngredientSuggestion): void {
+    this.ingredientName = suggestion.name;
+    this.selectedUnit =
+      this.unitsOfMeasurement.find((unit) => unit.name === suggestion.defaultUnit.name) ?? this.selectedUnit;
+    this.closeSuggestions();
+    this.liveAnnouncement = `${suggestion.name} selected, unit ${this.selectedUnit.name}.`;
   }
 
   /**
@@ -205,6 +397,7 @@ export class GenerateRecipeComponent {
 
     this.prependIngredient(ingredient);
     this.resetForm(form);
+    this.detectDuplicate(ingredient);
   }
 
   /**
@@ -246,7 +439,11 @@ export class GenerateRecipeComponent {
     ingredient: UiIngredient,
     event: MouseEvent,
   ): void {
-    ingredient.isUnitDropdownOpen = !ingredient.isUnitDropdownOpen;
+    if (ingredient.isUnitDropdownOpen) {
+      this.closeUnitDropdown(ingredient);
+    } else {
+      this.openUnitDropdown(ingredient);
+    }
     event.stopPropagation();
   }
 
@@ -262,8 +459,7 @@ export class GenerateRecipeComponent {
     unit: UnitOfMeasurement,
     event: MouseEvent,
   ): void {
-    ingredient.unit = unit;
-    ingredient.isUnitDropdownOpen = false;
+    this.applyUnit(unit, ingredient);
     event.stopPropagation();
   }
 
@@ -277,6 +473,43 @@ export class GenerateRecipeComponent {
     if (index > -1) {
       this.ingredients.splice(index, 1);
     }
+    if (this.duplicate?.added === ingredient || this.duplicate?.existing === ingredient) {
+      this.duplicate = null;
+    }
+  }
+
+  /**
+   * Merges the duplicate into the existing row and removes the duplicate row.
+   *
+   * Does nothing if the units cannot be converted or one of the rows was removed meanwhile.
+   */
+  mergeDuplicate(): void {
+    const duplicate = this.duplicate;
+    if (!duplicate || duplicate.merged === null) return;
+    this.duplicate = null;
+    if (!this.ingredients.includes(duplicate.existing) || !this.ingredients.includes(duplicate.added)) return;
+
+    duplicate.existing.servingSize = duplicate.merged;
+    this.deleteIngredient(duplicate.added);
+    this.liveAnnouncement = `Merged ${duplicate.existing.ingredient}: ${this.formatAmount(duplicate.existing)}.`;
+  }
+
+  /**
+   * Keeps both rows and hides the merge offer or warning.
+   */
+  dismissDuplicate(): void {
+    this.duplicate = null;
+  }
+
+  /**
+   * Formats the amount of an ingredient row with its unit (`'200 ml'`, `'2 piece'`).
+   *
+   * @param ingredient Ingredient row.
+   * @param amount Amount to show instead of the row's serving size.
+   */
+  formatAmount(ingredient: UiIngredient, amount: number = ingredient.servingSize): string {
+    const unit = ingredient.unit.abbreviation || ingredient.unit.name;
+    return unit ? `${amount} ${unit}` : `${amount}`;
   }
 
   /**
@@ -284,6 +517,7 @@ export class GenerateRecipeComponent {
    */
   private closeAllDropdowns(): void {
     this.isDropdownOpen = false;
+    this.activeUnitIndex = -1;
     this.closeIngredientDropdowns();
   }
 
@@ -297,27 +531,124 @@ export class GenerateRecipeComponent {
   }
 
   /**
-   * Closes the main unit dropdown and stops event propagation.
+   * Opens a unit dropdown with its current unit highlighted and closes all others,
+   * so only one dropdown owns `activeUnitIndex`.
    *
-   * @param event Mouse click event.
+   * @param ingredient Listed ingredient whose dropdown opens; omitted for the main dropdown.
    */
-  private closeMainDropdown(event: MouseEvent): void {
-    this.isDropdownOpen = false;
-    event.stopPropagation();
+  private openUnitDropdown(ingredient?: UiIngredient): void {
+    this.closeAllDropdowns();
+    const current = ingredient ? ingredient.unit : this.selectedUnit;
+    if (ingredient) {
+      ingredient.isUnitDropdownOpen = true;
+    } else {
+      this.isDropdownOpen = true;
+    }
+    this.activeUnitIndex = Math.max(
+      this.unitsOfMeasurement.findIndex((unit) => unit.name === current.name),
+      0,
+    );
+  }
+
+  /**
+   * Closes a unit dropdown and clears its highlighted option.
+   *
+   * @param ingredient Listed ingredient whose dropdown closes; omitted for the main dropdown.
+   */
+  private closeUnitDropdown(ingredient?: UiIngredient): void {
+    if (ingredient) {
+      ingredient.isUnitDropdownOpen = false;
+    } else {
+      this.isDropdownOpen = false;
+    }
+    this.activeUnitIndex = -1;
+  }
+
+  /**
+   * Sets the unit of the ingredient form or of a listed ingredient, closes the
+   * dropdown and announces the selection.
+   *
+   * @param unit Selected unit.
+   * @param ingredient Listed ingredient to update; omitted for the ingredient form.
+   */
+  private applyUnit(unit: UnitOfMeasurement, ingredient?: UiIngredient): void {
+    if (ingredient) {
+      ingredient.unit = unit;
+    } else {
+      this.selectedUnit = unit;
+    }
+    this.closeUnitDropdown(ingredient);
+    this.liveAnnouncement = `Unit ${unit.name} selected.`;
+  }
+
+  /**
+   * Shows suggestions for the current input and announces them.
+   *
+   * @param suggestions Suggestions for `ingredientName`.
+   */
+  private showSuggestions(suggestions: IngredientSuggestion[]): void {
+    this.ingredientSuggestions = suggestions;
+    this.activeSuggestionIndex = -1;
+    this.inlineSuggestion = this.buildInlineSuggestion(this.ingredientName);
+    this.announceSuggestions();
+  }
+
+  /**
+   * Closes the suggestion list and removes the inline completion.
+   *
+   * Also cancels a pending search, so a closed list does not reopen by itself.
+   */
+  private closeSuggestions(): void {
+    this.ingredientSuggestions = [];
+    this.inlineSuggestion = '';
+    this.activeSuggestionIndex = -1;
+    this.ingredientInput.next('');
+  }
+
+  /**
+   * Announces how many suggestions are available for the current input.
+   */
+  private announceSuggestions(): void {
+    const count = this.ingredientSuggestions.length;
+    if (count === 0) {
+      this.liveAnnouncement = 'No suggestions.';
+      return;
+    }
+    const noun = count === 1 ? 'suggestion' : 'suggestions';
+    const hint = this.inlineSuggestion ? ', Tab to complete' : '';
+    this.liveAnnouncement = `${count} ${noun} available. Use the arrow keys to choose${hint}.`;
+  }
+
+  /**
+   * Moves a highlighted index by one step, wrapping around at both ends.
+   *
+   * Starting without a highlight (`-1`), moving down highlights the first and moving up the last item.
+   *
+   * @param index Current index or `-1`.
+   * @param step `1` to move down, `-1` to move up.
+   * @param length Number of items.
+   * @returns The new index.
+   */
+  private moveIndex(index: number, step: 1 | -1, length: number): number {
+    if (index < 0) return step === 1 ? 0 : length - 1;
+    return (index + step + length) % length;
   }
 
   /**
    * Builds a `UiIngredient` object from the current form state.
    *
+   * Names found in the catalog (including aliases like "Kartoffel") are stored under their
+   * canonical name, which is what the generator receives.
+   *
    * @returns A valid `UiIngredient` or `null` if validation fails.
    */
   private buildIngredientFromForm(): UiIngredient | null {
-    const name = this.ingredientName.trim();
+    const typed = this.ingredientName.trim();
     const size = Number(this.servingSize);
-    if (this.isInvalidIngredient(name, size)) return null;
+    if (this.isInvalidIngredient(typed, size)) return null;
 
     return {
-      ingredient: name,
+      ingredient: this.ingredientCatalog.find(typed)?.name ?? typed,
       servingSize: size,
       unit: this.selectedUnit,
       isEditMode: false,
@@ -349,8 +680,7 @@ export class GenerateRecipeComponent {
     this.ingredientName = '';
     this.servingSize = null;
     this.selectedUnit = this.unitsOfMeasurement[0];
-    this.ingredientSuggestions = [];
-    this.inlineSuggestion = '';
+    this.closeSuggestions();
     form.resetForm({
       servingSize: this.servingSize,
     });
@@ -373,6 +703,24 @@ export class GenerateRecipeComponent {
     ingredient.servingSize = size;
     ingredient.isUnitDropdownOpen = false;
     ingredient.isEditMode = false;
+    this.detectDuplicate(ingredient);
+  }
+
+  /**
+   * Checks whether an added or edited row duplicates an existing one and announces the
+   * merge offer or the warning.
+   *
+   * @param ingredient Row that was just added or edited.
+   */
+  private detectDuplicate(ingredient: UiIngredient): void {
+    this.duplicate = this.ingredientMerge.findDuplicate(ingredient, this.ingredients);
+    if (!this.duplicate) return;
+
+    const { existing, merged } = this.duplicate;
+    this.liveAnnouncement =
+      merged === null
+        ? `${existing.ingredient} is already in your list with ${this.formatAmount(existing)}; the amounts cannot be combined.`
+        : `${existing.ingredient} is already in your list. Merge to ${this.formatAmount(existing, merged)}?`;
   }
 
   /**
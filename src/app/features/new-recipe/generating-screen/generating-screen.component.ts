@@ -1,6 +1,8 @@
-import { Component } from '@angular/core';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
 import { RouterModule } from '@angular/router';
 
+import { GeneratedRecipe } from '../../../core/models/recipe.model';
+
 @Component({
   selector: 'app-generating-screen',
   standalone: true,
@@ -13,17 +15,53 @@ import { RouterModule } from '@angular/router';
  *
  * Responsibilities:
  * - Provide visual feedback that a generation process is in progress
+ * - Show the current attempt while transient failures are retried
+ * - List recipes that already arrived while the remaining ones are still being generated
  * - Prevent premature user interaction while awaiting results
- * - Optionally offer navigation or cancellation actions via the template
+ * - Offer a cancel action that lets the host abort the running generation
  *
  * This component is intentionally presentational and contains no business logic.
  */
 export class GeneratingScreenComponent {
+  /**
+   * Recipes of the running generation that are already available, in arrival order.
+   */
+  @Input() recipes: GeneratedRecipe[] = [];
+
+  /**
+   * 1-based number of the current request attempt.
+   */
+  @Input() attempt = 1;
+
+  /**
+   * Maximum number of attempts allowed by the retry policy.
+   */
+  @Input() maxAttempts = 1;
+
+  /**
+   * Whether the cancel action is offered.
+   *
+   * Disabled when the screen is shown on its own route without a running generation.
+   */
+  @Input() cancellable = false;
+
+  /**
+   * Emits when the user asks to cancel the running generation.
+   */
+  @Output() cancelGeneration = new EventEmitter<void>();
+
+  /**
+   * Handles clicks on the cancel button.
+   */
+  onCancel(): void {
+    this.cancelGeneration.emit();
+  }
+
   /**
    * Creates the generating screen component.
    *
    * Note: This component does not manage state or inject dependencies.
-   * All behavior is defined in the template and routing configuration.
+   * All behavior is defined in the template, its inputs and the routing configuration.
    */
   constructor() {}
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { IngredientListPasteComponent } from './ingredient-list-paste.component';
+import { StateService } from '../../../core/services/state-service/state.service';
+
+describe('IngredientListPasteComponent', () => {
+  let component: IngredientListPasteComponent;
+  let fixture: ComponentFixture<IngredientListPasteComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [IngredientListPasteComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(IngredientListPasteComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('prepends the confirmed preview in pasted order', () => {
+    const state = TestBed.inject(StateService);
+    state.recipeRequirements.ingredients = [
+      { ingredient: 'Garlic', servingSize: 1, unit: { name: 'piece', abbreviation: '' } },
+    ];
+    component.text = '200g chicken breast, 2 onions, salt';
+    component.showPreview();
+    expect(component.canConfirm).toBeFalse();
+
+    component.preview![2].amount = 5;
+    component.confirm();
+
+    expect(state.recipeRequirements.ingredients.map((item) => item.ingredient)).toEqual([
+      'Chicken breast',
+      'Onion',
+      'Salt',
+      'Garlic',
+    ]);
+    expect(component.preview).toBeNull();
+    expect(component.text).toBe('');
+  });
+});
@@ -0,0 +1,120 @@
+import { Component } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import type { UiIngredient } from '../../../core/models/recipe.model';
+import type { PastedIngredient } from '../../../core/models/ingredient.model';
+import { StateService } from '../../../core/services/state-service/state.service';
+import { IngredientListParserService } from '../../../core/services/ingredient-list-parser-service/ingredient-list-parser.service';
+
+@Component({
+  selector: 'app-ingredient-list-paste',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './ingredient-list-paste.component.html',
+  styleUrl: './ingredient-list-paste.component.scss',
+})
+/**
+ * "Paste list" mode of the ingredient form.
+ *
+ * Responsibilities:
+ * - Accept a pasted shopping list ("200g chicken breast, 2 onions, 1 cup rice")
+ * - Preview the parsed ingredients (amount, unit, catalog name) and let the user
+ *   fill in missing amounts or drop lines
+ * - Prepend the confirmed ingredients to `recipeRequirements.ingredients`
+ */
+export class IngredientListPasteComponent {
+  /** Indicates whether the paste area is expanded. */
+  isOpen = false;
+
+  /** Current value of the paste textarea. */
+  text = '';
+
+  /** Parsed ingredients awaiting confirmation; `null` while no preview is shown. */
+  preview: PastedIngredient[] | null = null;
+
+  /**
+   * Creates the paste-list component.
+   *
+   * @param state Central application state service.
+   * @param parser Service parsing pasted lists into catalog ingredients.
+   */
+  constructor(
+    private readonly state: StateService,
+    private readonly parser: IngredientListParserService,
+  ) {}
+
+  /**
+   * Indicates whether every previewed ingredient has a valid amount.
+   */
+  get canConfirm(): boolean {
+    return !!this.preview?.length && this.preview.every((item) => this.hasValidAmount(item));
+  }
+
+  /**
+   * Expands or collapses the paste area; collapsing discards the preview.
+   */
+  toggle(): void {
+    this.isOpen = !this.isOpen;
+    if (!this.isOpen) this.preview = null;
+  }
+
+  /**
+   * Parses the pasted text and shows the preview.
+   */
+  showPreview(): void {
+    this.preview = this.parser.parse(this.text);
+  }
+
+  /**
+   * Removes an ingredient from the preview.
+   *
+   * @param item Previewed ingredient.
+   */
+  removeFromPreview(item: PastedIngredient): void {
+    this.preview = this.preview?.filter((entry) => entry !== item) ?? null;
+  }
+
+  /**
+   * Checks whether a previewed ingredient has a positive amount.
+   *
+   * @param item Previewed ingredient.
+   */
+  hasValidAmount(item: PastedIngredient): boolean {
+    return item.amount != null && Number(item.amount) > 0;
+  }
+
+  /**
+   * Prepends the previewed ingredients (in pasted order) to the recipe requirements
+   * and resets the paste area.
+   */
+  confirm(): void {
+    if (!this.preview || !this.canConfirm) return;
+    const added = this.preview.map((item) => this.toUiIngredient(item));
+    this.state.recipeRequirements.ingredients = [...added, ...this.state.recipeRequirements.ingredients];
+    this.text = '';
+    this.preview = null;
+    this.isOpen = false;
+  }
+
+  /**
+   * Discards the preview and returns to the textarea.
+   */
+  cancelPreview(): void {
+    this.preview = null;
+  }
+
+  /**
+   * Converts a confirmed preview entry into an ingredient of the form list.
+   *
+   * @param item Previewed ingredient with a valid amount.
+   */
+  private toUiIngredient(item: PastedIngredient): UiIngredient {
+    return {
+      ingredient: item.name,
+      servingSize: Number(item.amount),
+      unit: item.unit,
+      isEditMode: false,
+      isUnitDropdownOpen: false,
+    };
+  }
+}
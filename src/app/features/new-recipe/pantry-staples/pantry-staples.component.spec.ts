@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PantryStaplesComponent } from './pantry-staples.component';
+
+describe('PantryStaplesComponent', () => {
+  let component: PantryStaplesComponent;
+  let fixture: ComponentFixture<PantryStaplesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PantryStaplesComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PantryStaplesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
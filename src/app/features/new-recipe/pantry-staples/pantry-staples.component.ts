@@ -0,0 +1,96 @@
+import { Component } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { PantryService } from '../../../core/services/pantry-service/pantry.service';
+import { IngredientAutocompleteService } from '../../../core/services/ingredient-autocomplete-service/ingredient-autocomplete.service';
+
+@Component({
+  selector: 'app-pantry-staples',
+  standalone: true,
+  imports: [FormsModule],
+  templateUrl: './pantry-staples.component.html',
+  styleUrl: './pantry-staples.component.scss',
+})
+/**
+ * Editor for the pantry staples (salt, pepper, oil, …) that are always assumed to be available.
+ *
+ * Responsibilities:
+ * - Show the current staples and allow removing them
+ * - Suggest ingredients from the ingredient list while typing and add the selected one
+ * - Restore the default staples
+ *
+ * Changes are persisted immediately by `PantryService`.
+ */
+export class PantryStaplesComponent {
+  /** Current value of the staple input. */
+  query = '';
+
+  /** Autocomplete suggestions for the staple input. */
+  suggestions: string[] = [];
+
+  /**
+   * Creates the pantry staples editor.
+   *
+   * @param pantry Service persisting the pantry staples.
+   * @param ingredientAutocomplete Service providing ingredient suggestions.
+   */
+  constructor(
+    private readonly pantry: PantryService,
+    private readonly ingredientAutocomplete: IngredientAutocompleteService,
+  ) {}
+
+  /**
+   * Returns the current pantry staples.
+   */
+  get staples(): readonly string[] {
+    return this.pantry.staples;
+  }
+
+  /**
+   * Handles changes to the staple input and updates the suggestions.
+   */
+  onQueryChange(): void {
+    const query = this.query.trim();
+    this.suggestions = query
+      ? this.ingredientAutocomplete.search(query, 5).filter((name) => !this.staples.includes(name))
+      : [];
+  }
+
+  /**
+   * Adds the best suggestion for the typed text (Enter key in the input).
+   *
+   * @param event Keyboard event; its default (form submission) is prevented.
+   */
+  onEnter(event: Event): void {
+    event.preventDefault();
+    const first = this.suggestions[0];
+    if (first) this.add(first);
+  }
+
+  /**
+   * Adds an ingredient to the pantry staples and clears the input.
+   *
+   * @param name Ingredient name from the suggestions.
+   */
+  add(name: string): void {
+    this.pantry.add(name);
+    this.query = '';
+    this.suggestions = [];
+  }
+
+  /**
+   * Removes a staple.
+   *
+   * @param name Staple to remove.
+   */
+  remove(name: string): void {
+    this.pantry.remove(name);
+  }
+
+  /**
+   * Restores the default staples.
+   */
+  reset(): void {
+    this.pantry.reset();
+  }
+}
@@ -1,23 +1,47 @@
+import { provideZoneChangeDetection } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
 
 import { PreferencesComponent } from './preferences.component';
+import { FirestoreRecipeService } from '../../../core/services/firebase-recipe-service/firebase-recipe.service';
 
 describe('GenerateStep2Component', () => {
   let component: PreferencesComponent;
   let fixture: ComponentFixture<PreferencesComponent>;
+  let httpMock: HttpTestingController;
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [PreferencesComponent]
+      imports: [PreferencesComponent],
+      providers: [
+        // The app runs with zone change detection (see app.config.ts).
+        provideZoneChangeDetection(),
+        provideRouter([]),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: FirestoreRecipeService, useValue: {} },
+      ],
     })
     .compileComponents();
 
     fixture = TestBed.createComponent(PreferencesComponent);
     component = fixture.componentInstance;
+    httpMock = TestBed.inject(HttpTestingController);
     fixture.detectChanges();
   });
 
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('cancels a pending quota refresh when destroyed', () => {
+    const [request] = httpMock.match(() => true);
+    expect(request).withContext('quota refresh').toBeDefined();
+
+    fixture.destroy();
+
+    expect(request.cancelled).toBeTrue();
+  });
 });
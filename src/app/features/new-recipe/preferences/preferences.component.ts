@@ -1,17 +1,44 @@
 import { TitleCasePipe, NgClass } from '@angular/common';
-import { Component } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormsModule } from '@angular/forms';
 import { Router, RouterModule } from '@angular/router';
+import { Subscription } from 'rxjs';
 
 import { GeneratingScreenComponent } from '../generating-screen/generating-screen.component';
+import { QuotaWidgetComponent } from '../quota-widget/quota-widget.component';
 import { GenerateRecipeService } from '../../../core/services/generate-recipe-service/generate-recipe.service';
 import { ToastService } from './../../../core/services/toast-service/toast.service';
 import { StateService } from '../../../core/services/state-service/state.service';
-import { RecipeRequirements } from '../../../core/models/recipe.model';
+import { GenerationRetryService } from '../../../core/services/generation-retry-service/generation-retry.service';
+import { QuotaService } from '../../../core/services/quota-service/quota.service';
+import { IngredientAutocompleteService } from '../../../core/services/ingredient-autocomplete-service/ingredient-autocomplete.service';
+import { KitchenEquipmentService } from '../../../core/services/kitchen-equipment-service/kitchen-equipment.service';
+import { toggleDietPreference } from '../../../core/mappers/diet-preferences.mapper';
+import { isBuiltInCuisine, toCuisineLabel, toCuisineSlug } from '../../../core/mappers/cuisine.mapper';
+import {
+  COOKING_TIME_BUDGET_RANGE,
+  cookingTimeBudgetFor,
+  toCookingTimeCategory,
+} from '../../../core/mappers/cooking-time.mapper';
+import {
+  DietPreference,
+  GeneratedRecipe,
+  KitchenEquipment,
+  QuotaStatus,
+  RecipeBudget,
+  RecipeLanguage,
+  RecipeRequirements,
+} from '../../../core/models/recipe.model';
+
+/**
+ * Numeric requirement fields controlled by +/- counters.
+ */
+type AmountKey = 'portionsAmount' | 'cooksAmount' | 'recipeCount';
 
 @Component({
   selector: 'app-preferences',
   standalone: true,
-  imports: [RouterModule, TitleCasePipe, GeneratingScreenComponent, NgClass],
+  imports: [RouterModule, FormsModule, TitleCasePipe, GeneratingScreenComponent, QuotaWidgetComponent, NgClass],
   templateUrl: './preferences.component.html',
   styleUrl: './preferences.component.scss',
 })
@@ -19,12 +46,17 @@ import { RecipeRequirements } from '../../../core/models/recipe.model';
  * Component responsible for collecting recipe preferences before generation.
  *
  * Responsibilities:
- * - Allow users to configure portions, cooks, cooking time, cuisine and diet preferences
+ * - Allow users to configure portions, cooks, number of recipes, cooking time (category and
+ *   exact budget in minutes), cuisine, diet preferences, budget and the language of the recipes
+ * - Collect the kitchen equipment available on this device (persisted)
+ * - Collect allergies and other ingredients that must not appear in the recipes
  * - Validate whether all required inputs are present
  * - Trigger the recipe generation flow
  * - Handle loading state and error feedback
+ * - Allow the running generation to be cancelled without losing any input
+ * - Show the current quota and block generation while no quota is left
  */
-export class PreferencesComponent {
+export class PreferencesComponent implements OnInit, OnDestroy {
   /** Maximum number of portions allowed. */
   readonly MAX_PORTIONS = 999;
 
@@ -34,9 +66,36 @@ export class PreferencesComponent {
   /** Maximum number of cooks allowed. */
   readonly MAX_COOKS = 6;
 
+  /** Maximum number of recipes per generation (mirrors the workflow limit). */
+  readonly MAX_RECIPES = 5;
+
+  /** Interval (ms) in which quota countdowns are refreshed. */
+  private readonly QUOTA_TICK_MS = 15_000;
+
   /** Indicates whether recipe generation is currently in progress. */
   isLoading = false;
 
+  /** Reference time (epoch ms) for quota countdowns, refreshed every `QUOTA_TICK_MS`. */
+  now = Date.now();
+
+  /** Handle of the countdown interval, if running. */
+  private quotaTimer?: ReturnType<typeof setInterval>;
+
+  /** Subscription of the pre-flight quota refresh, if running. */
+  private quotaRefresh?: Subscription;
+
+  /** Range of the cooking time budget slider. */
+  readonly timeBudgetRange = COOKING_TIME_BUDGET_RANGE;
+
+  /** Current value of the free-text cuisine input. */
+  customCuisineInput = '';
+
+  /** Current value of the excluded ingredient input. */
+  exclusionInput = '';
+
+  /** Autocomplete suggestions for the excluded ingredient input. */
+  exclusionSuggestions: string[] = [];
+
   /**
    * Creates the preferences component.
    *
@@ -44,14 +103,42 @@ export class PreferencesComponent {
    * @param state Central application state service.
    * @param router Angular router used for navigation.
    * @param toastService Service used to show user-facing feedback.
+   * @param retryPolicy Retry policy used to display the maximum number of attempts.
+   * @param quotaService Service providing the current quota status.
+   * @param ingredientAutocomplete Service providing suggestions for excluded ingredients.
+   * @param kitchenEquipment Service persisting the available kitchen equipment.
    */
   constructor(
     private readonly generateRecipeService: GenerateRecipeService,
     private readonly state: StateService,
     private readonly router: Router,
     private readonly toastService: ToastService,
+    private readonly retryPolicy: GenerationRetryService,
+    private readonly quotaService: QuotaService,
+    private readonly ingredientAutocomplete: IngredientAutocompleteService,
+    private readonly kitchenEquipment: KitchenEquipmentService,
   ) {}
 
+  /**
+   * Angular lifecycle hook.
+   *
+   * Loads the current quota (pre-flight check) and starts the countdown refresh.
+   */
+  ngOnInit(): void {
+    this.quotaRefresh = this.quotaService.refresh().subscribe(() => (this.now = Date.now()));
+    this.quotaTimer = setInterval(() => (this.now = Date.now()), this.QUOTA_TICK_MS);
+  }
+
+  /**
+   * Angular lifecycle hook.
+   *
+   * Stops the countdown refresh and a pending quota refresh.
+   */
+  ngOnDestroy(): void {
+    clearInterval(this.quotaTimer);
+    this.quotaRefresh?.unsubscribe();
+  }
+
   /**
    * Returns the available preference options for rendering the UI.
    */
@@ -66,19 +153,47 @@ export class PreferencesComponent {
     return this.state.recipeRequirements;
   }
 
+  /**
+   * Returns the recipes of the running generation that already arrived.
+   */
+  get streamedRecipes(): GeneratedRecipe[] {
+    return this.state.streamedRecipes;
+  }
+
+  /**
+   * Returns the 1-based attempt number of the running generation.
+   */
+  get generationAttempt(): number {
+    return this.state.generationAttempt;
+  }
+
+  /**
+   * Returns the maximum number of attempts allowed for a generation.
+   */
+  get maxGenerationAttempts(): number {
+    return this.retryPolicy.maxAttempts;
+  }
+
+  /**
+   * Returns the quota status at the current reference time for the chosen recipe count.
+   */
+  get quotaStatus(): QuotaStatus {
+    return this.quotaService.status(this.now, this.recipeRequirements.recipeCount);
+  }
+
   /**
    * Indicates whether recipe generation can be triggered.
    *
-   * All mandatory preferences must be selected.
+   * All mandatory preferences must be selected and quota must be left.
    */
   get canGenerateRecipe(): boolean {
-    return this.hasAllPreferences();
+    return this.hasAllPreferences() && this.quotaStatus.canGenerate;
   }
 
   /**
    * Handles the "Generate Recipe" action.
    *
-   * Ensures ingredients and preferences are present before starting
+   * Ensures ingredients, preferences and remaining quota are present before starting
    * the generation process.
    */
   onGenerateRecipe(): void {
@@ -86,30 +201,41 @@ export class PreferencesComponent {
       this.navigateToIngredientsWithToast();
       return;
     }
-    if (!this.hasAllPreferences()) return;
+    if (!this.canGenerateRecipe) return;
     this.startRecipeGeneration();
   }
 
   /**
-   * Increases the selected amount for portions or cooks.
+   * Handles the cancel action of the generating screen.
+   *
+   * Aborts the running request and returns to the preferences step with all
+   * ingredients and preferences kept intact. Cancelling is not treated as an error.
+   */
+  onCancelGeneration(): void {
+    this.generateRecipeService.cancelGeneration();
+    this.isLoading = false;
+    this.router.navigate(['/preferences']);
+  }
+
+  /**
+   * Increases the selected amount for portions, cooks or recipes.
    *
    * @param key Target field to increment.
    */
-  increaseAmount(key: 'portionsAmount' | 'cooksAmount'): void {
+  increaseAmount(key: AmountKey): void {
     const current = this.recipeRequirements[key];
-    const limit = key === 'cooksAmount' ? this.MAX_COOKS : this.MAX_PORTIONS;
 
-    if (current < limit) {
+    if (current < this.maxAmount(key)) {
       this.recipeRequirements[key] = current + 1;
     }
   }
 
   /**
-   * Decreases the selected amount for portions or cooks.
+   * Decreases the selected amount for portions, cooks or recipes.
    *
    * @param key Target field to decrement.
    */
-  decreaseAmount(key: 'portionsAmount' | 'cooksAmount'): void {
+  decreaseAmount(key: AmountKey): void {
     const current = this.recipeRequirements[key];
     if (current > this.MIN_COUNT) {
       this.recipeRequirements[key] = current - 1;
@@ -119,14 +245,193 @@ export class PreferencesComponent {
   /**
    * Selects a preference value for the given preference key.
    *
+   * Picking a cooking time category moves the time budget slider to its upper bound.
+   *
    * @param key Preference field to update.
    * @param value Selected preference value.
    */
   selectPreference(
-    key: 'cookingTime' | 'cuisine' | 'dietPreferences',
+    key: 'cookingTime' | 'cuisine',
     value: string,
   ): void {
     this.recipeRequirements[key] = value;
+    if (key === 'cookingTime') this.recipeRequirements.maxCookingMinutes = cookingTimeBudgetFor(value);
+  }
+
+  /**
+   * Applies a new time budget from the slider and selects the matching category.
+   *
+   * @param minutes Time budget in minutes.
+   */
+  setTimeBudget(minutes: number | string): void {
+    const value = Number(minutes);
+    this.recipeRequirements.maxCookingMinutes = value;
+    this.recipeRequirements.cookingTime = toCookingTimeCategory(value) ?? this.recipeRequirements.cookingTime;
+  }
+
+  /**
+   * Display label of the selected cuisine if it was typed in rather than picked from the
+   * built-in list, `null` otherwise.
+   */
+  get customCuisineLabel(): string | null {
+    const cuisine = this.recipeRequirements.cuisine;
+    return cuisine && !isBuiltInCuisine(cuisine) ? toCuisineLabel(cuisine) : null;
+  }
+
+  /**
+   * Applies the typed cuisine (Enter key in the input).
+   *
+   * @param event Keyboard event; its default (form submission) is prevented.
+   */
+  onCustomCuisineEnter(event: Event): void {
+    event.preventDefault();
+    this.applyCustomCuisine();
+  }
+
+  /**
+   * Selects the typed cuisine as its slug (`'Middle Eastern'` → `'middle-eastern'`).
+   *
+   * Empty input keeps the current selection; the input is cleared afterwards.
+   */
+  applyCustomCuisine(): void {
+    const slug = toCuisineSlug(this.customCuisineInput);
+    if (slug) this.recipeRequirements.cuisine = slug;
+    this.customCuisineInput = '';
+  }
+
+  /**
+   * Checks whether a diet preference is selected.
+   *
+   * @param diet Diet preference to check.
+   */
+  hasDietPreference(diet: DietPreference): boolean {
+    return this.recipeRequirements.dietPreferences.includes(diet);
+  }
+
+  /**
+   * Selects or deselects a diet preference; only one base diet (vegetarian, vegan,
+   * pescatarian) can be active at a time.
+   *
+   * @param diet Diet preference to toggle.
+   */
+  toggleDietPreference(diet: DietPreference): void {
+    this.recipeRequirements.dietPreferences = toggleDietPreference(this.recipeRequirements.dietPreferences, diet);
+  }
+
+  /**
+   * Clears all diet preferences ("no preferences").
+   */
+  clearDietPreferences(): void {
+    this.recipeRequirements.dietPreferences = [];
+  }
+
+  /**
+   * Selects how much the ingredients still to buy may cost.
+   *
+   * @param budget Selected budget.
+   */
+  selectBudget(budget: RecipeBudget): void {
+    this.recipeRequirements.budget = budget;
+  }
+
+  /**
+   * Selects the language the recipes are generated in.
+   *
+   * @param language Selected language.
+   */
+  selectLanguage(language: RecipeLanguage): void {
+    this.recipeRequirements.language = language;
+  }
+
+  /**
+   * Checks whether a piece of kitchen equipment is selected.
+   *
+   * @param item Equipment to check.
+   */
+  hasEquipment(item: KitchenEquipment): boolean {
+    return this.kitchenEquipment.isSelected(item);
+  }
+
+  /**
+   * Selects or deselects a piece of kitchen equipment.
+   *
+   * @param item Equipment to toggle.
+   */
+  toggleEquipment(item: KitchenEquipment): void {
+    this.kitchenEquipment.toggle(item);
+  }
+
+  /**
+   * Handles changes to the excluded ingredient input and updates the suggestions.
+   */
+  onExclusionInputChange(): void {
+    const query = this.exclusionInput.trim();
+    this.exclusionSuggestions = query
+      ? this.ingredientAutocomplete.search(query, 3).filter((name) => !this.isExcluded(name))
+      : [];
+  }
+
+  /**
+   * Adds the typed text as excluded ingredient (Enter key in the input).
+   *
+   * @param event Keyboard event; its default (form submission) is prevented.
+   */
+  onExclusionEnter(event: Event): void {
+    event.preventDefault();
+    this.addExclusion(this.exclusionInput);
+  }
+
+  /**
+   * Adds an ingredient to the exclusion list.
+   *
+   * Empty input and duplicates (case-insensitive) are ignored; the input is cleared.
+   *
+   * @param name Ingredient name to exclude.
+   */
+  addExclusion(name: string): void {
+    const value = name.trim();
+    if (value && !this.isExcluded(value)) {
+      this.recipeRequirements.excludedIngredients = [...this.recipeRequirements.excludedIngredients, value];
+    }
+    this.exclusionInput = '';
+    this.exclusionSuggestions = [];
+  }
+
+  /**
+   * Removes an ingredient from the exclusion list.
+   *
+   * @param name Excluded ingredient to remove.
+   */
+  removeExclusion(name: string): void {
+    this.recipeRequirements.excludedIngredients = this.recipeRequirements.excludedIngredients.filter(
+      (entry) => entry !== name,
+    );
+  }
+
+  /**
+   * Checks whether an ingredient is already on the exclusion list (case-insensitive).
+   *
+   * @param name Ingredient name to check.
+   */
+  private isExcluded(name: string): boolean {
+    const key = name.toLowerCase();
+    return this.recipeRequirements.excludedIngredients.some((entry) => entry.toLowerCase() === key);
+  }
+
+  /**
+   * Returns the upper limit of a counter.
+   *
+   * @param key Counter field.
+   */
+  private maxAmount(key: AmountKey): number {
+    switch (key) {
+      case 'cooksAmount':
+        return this.MAX_COOKS;
+      case 'recipeCount':
+        return this.MAX_RECIPES;
+      default:
+        return this.MAX_PORTIONS;
+    }
   }
 
   /**
@@ -141,7 +446,7 @@ export class PreferencesComponent {
    */
   private hasAllPreferences(): boolean {
     const req = this.recipeRequirements;
-    return !!(req.cookingTime && req.cuisine && req.dietPreferences);
+    return !!(req.cookingTime && req.cuisine);
   }
 
   /**
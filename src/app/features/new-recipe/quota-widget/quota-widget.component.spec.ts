@@ -0,0 +1,41 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { QuotaWidgetComponent } from './quota-widget.component';
+
+describe('QuotaWidgetComponent', () => {
+  let component: QuotaWidgetComponent;
+  let fixture: ComponentFixture<QuotaWidgetComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [QuotaWidgetComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(QuotaWidgetComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('status', {
+      quota: {
+        ip: { limit: 3, used: 3, remaining: 0 },
+        system: { limit: 12, used: 5, remaining: 7 },
+        rate: { limit: 5, used: 1, remaining: 4 },
+      },
+      known: true,
+      canGenerate: false,
+      blockedBy: 'ip',
+      resetAt: 2 * 60 * 60_000 + 5 * 60_000,
+      rateResetAt: 60_000,
+    });
+    fixture.componentRef.setInput('now', 0);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('explains why generating is blocked and when the quota resets', () => {
+    expect(component.timeUntilReset).toBe('2h 5min');
+    expect(fixture.nativeElement.textContent).toContain('New ones are available in 2h 5min.');
+  });
+});
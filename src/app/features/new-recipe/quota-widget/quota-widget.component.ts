@@ -0,0 +1,76 @@
+import { Component, Input } from '@angular/core';
+
+import { QuotaStatus } from '../../../core/models/recipe.model';
+
+@Component({
+  selector: 'app-quota-widget',
+  standalone: true,
+  imports: [],
+  templateUrl: './quota-widget.component.html',
+  styleUrl: './quota-widget.component.scss',
+})
+/**
+ * Compact overview of the generation quota shown on the preferences step.
+ *
+ * Responsibilities:
+ * - Show the remaining daily recipes for this device (IP bucket) and for everyone (system bucket)
+ * - Show the per-minute rate limit
+ * - Show the time until the daily reset
+ * - Explain why generating is currently not possible
+ *
+ * This component is intentionally presentational; the host provides the status and
+ * the reference time used for countdowns.
+ */
+export class QuotaWidgetComponent {
+  /**
+   * Current quota status.
+   */
+  @Input({ required: true }) status!: QuotaStatus;
+
+  /**
+   * Reference time (epoch ms) used to compute the countdowns.
+   */
+  @Input() now = Date.now();
+
+  /**
+   * Time left until the daily buckets reset, formatted for display.
+   */
+  get timeUntilReset(): string {
+    return this.formatDuration(this.status.resetAt - this.now);
+  }
+
+  /**
+   * Explanation shown when generating is not possible, or `null` if it is.
+   */
+  get blockedMessage(): string | null {
+    switch (this.status.blockedBy) {
+      case 'ip':
+        return this.status.quota.ip.remaining > 0
+          ? `Only ${this.status.quota.ip.remaining} recipe(s) left for you today. Choose fewer recipes or come back in ${this.timeUntilReset}.`
+          : `You have used all your recipes for today. New ones are available in ${this.timeUntilReset}.`;
+      case 'system':
+        return this.status.quota.system.remaining > 0
+          ? `Our kitchen can only cook ${this.status.quota.system.remaining} more recipe(s) today. Choose fewer recipes or come back in ${this.timeUntilReset}.`
+          : `Our kitchen has reached today's overall limit. Please come back in ${this.timeUntilReset}.`;
+      case 'rate':
+        return `Too many requests in a short time. Please try again in ${this.formatDuration(this.status.rateResetAt - this.now)}.`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Formats a duration as hours and minutes (e.g. `5h 12min`).
+   *
+   * @param ms Duration in milliseconds.
+   * @returns Human-readable duration; `less than a minute` for short durations.
+   */
+  private formatDuration(ms: number): string {
+    const totalMinutes = Math.floor(Math.max(0, ms) / 60_000);
+    if (totalMinutes < 1) return 'less than a minute';
+
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}min` : `${minutes}min`;
+  }
+}
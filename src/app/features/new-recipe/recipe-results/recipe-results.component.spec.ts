@@ -1,17 +1,73 @@
+import { provideZoneChangeDetection } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { Subject } from 'rxjs';
 
 import { RecipeResultsComponent } from './recipe-results.component';
+import type { GeneratedRecipe } from '../../../core/models/recipe.model';
+import { StateService } from '../../../core/services/state-service/state.service';
+import { GenerateRecipeService } from '../../../core/services/generate-recipe-service/generate-recipe.service';
 
 describe('RecipeResultsComponent', () => {
   let component: RecipeResultsComponent;
   let fixture: ComponentFixture<RecipeResultsComponent>;
+  let regeneration: Subject<GeneratedRecipe>;
+  let regenerateRecipe: jasmine.Spy;
+
+  const recipe = (title: string): GeneratedRecipe => ({
+    id: `id-${title}`,
+    title,
+    cookingTimeText: '20 minutes',
+    cookingTimeMinutes: 20,
+    nutritionalInformation: { calories: 500, proteins: 20, fats: 10, carbs: 70 },
+    preferences: { cookingTime: 'quick', cuisine: 'italian', dietPreferences: ['vegetarian'] },
+    cooksAmount: 1,
+    ingredients: {
+      yourIngredients: [{ ingredient: 'Pasta', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }],
+      extraIngredients: [],
+    },
+    directions: [{ order: 1, title: 'Cook', description: 'Cook the pasta.', cook: 1 }],
+    likes: 0,
+    recipeSignature: '',
+    createdAt: null,
+    isSeedRecipe: false,
+  });
+
+  const tryAnotherButtons = (): HTMLButtonElement[] =>
+    Array.from(fixture.nativeElement.querySelectorAll('.results__try-another-btn'));
 
   beforeEach(async () => {
+    regeneration = new Subject();
+    regenerateRecipe = jasmine.createSpy('regenerateRecipe').and.callFake(() => regeneration);
+
     await TestBed.configureTestingModule({
-      imports: [RecipeResultsComponent]
+      imports: [RecipeResultsComponent],
+      providers: [
+        // The app runs with zone change detection (see app.config.ts).
+        provideZoneChangeDetection(),
+        provideRouter([]),
+        { provide: GenerateRecipeService, useValue: { regenerateRecipe } },
+      ],
     })
     .compileComponents();
 
+    const state = TestBed.inject(StateService);
+    state.generatedRecipes = [recipe('A'), recipe('B')];
+    state.lastGeneratedIngredients = [{ ingredient: 'Pasta', servingSize: 200, unit: { name: 'gram', abbreviation: 'g' } }];
+    state.lastGeneratedRequirements = {
+      cookingTime: 'quick',
+      maxCookingMinutes: null,
+      cuisine: 'italian',
+      dietPreferences: ['vegetarian'],
+      portionsAmount: 2,
+      cooksAmount: 1,
+      excludedIngredients: [],
+      recipeCount: 2,
+      language: 'en',
+      equipment: [],
+      budget: 'any',
+    };
+
     fixture = TestBed.createComponent(RecipeResultsComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
@@ -20,4 +76,35 @@ describe('RecipeResultsComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('regenerates the chosen recipe and blocks further requests while it runs', () => {
+    tryAnotherButtons()[1].click();
+    fixture.detectChanges();
+
+    expect(regenerateRecipe).toHaveBeenCalledOnceWith(1);
+    expect(tryAnotherButtons()[1].textContent!.trim()).toBe('Cooking…');
+    expect(tryAnotherButtons().every((button) => button.disabled)).toBeTrue();
+
+    component.onTryAnother(0);
+    expect(regenerateRecipe).toHaveBeenCalledTimes(1);
+
+    regeneration.next(recipe('C'));
+    regeneration.complete();
+    fixture.detectChanges();
+
+    expect(component.regeneratingIndex).toBeNull();
+    expect(tryAnotherButtons().some((button) => button.disabled)).toBeFalse();
+  });
+
+  it('allows another attempt after a failed regeneration', () => {
+    spyOn(console, 'error');
+    component.onTryAnother(1);
+
+    regeneration.error(new Error('The webhook did not return a valid replacement recipe.'));
+
+    expect(component.regeneratingIndex).toBeNull();
+    regeneration = new Subject();
+    component.onTryAnother(1);
+    expect(regenerateRecipe).toHaveBeenCalledTimes(2);
+  });
 });
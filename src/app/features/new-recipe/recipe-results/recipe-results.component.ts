@@ -1,28 +1,22 @@
 import { Component } from '@angular/core';
-import { CommonModule, TitleCasePipe } from '@angular/common';
+import { CommonModule, CurrencyPipe, TitleCasePipe } from '@angular/common';
 import { RouterModule, Router } from '@angular/router';
 
 import {
+  DietPreference,
   GeneratedRecipe,
-  RecipeRequirements,
+  RecipeRequirementsSnapshot,
 } from '../../../core/models/recipe.model';
+import { RecipeCostEstimate } from '../../../core/models/price.model';
 import { StateService } from '../../../core/services/state-service/state.service';
-
-/**
- * Minimal requirements snapshot used by the results UI.
- *
- * This intentionally excludes ingredients so the UI can still display
- * the selected tags even after inputs were reset for the next run.
- */
-type RecipeRequirementsSnapshot = Pick<
-  RecipeRequirements,
-  'cookingTime' | 'cuisine' | 'dietPreferences' | 'portionsAmount' | 'cooksAmount'
->;
+import { GenerateRecipeService } from '../../../core/services/generate-recipe-service/generate-recipe.service';
+import { RecipeCostService } from '../../../core/services/recipe-cost-service/recipe-cost.service';
+import { exceedsCookingTimeBudget } from '../../../core/mappers/cooking-time.mapper';
 
 @Component({
   selector: 'app-recipe-results',
   standalone: true,
-  imports: [CommonModule, RouterModule, TitleCasePipe],
+  imports: [CommonModule, RouterModule, TitleCasePipe, CurrencyPipe],
   templateUrl: './recipe-results.component.html',
   styleUrl: './recipe-results.component.scss',
 })
@@ -34,20 +28,28 @@ type RecipeRequirementsSnapshot = Pick<
  * - The requirements shown as tags are read from `lastGeneratedRequirements`
  *
  * Responsibilities:
- * - Render generated recipe cards
+ * - Render generated recipe cards with their estimated shopping cost
  * - Render preference tags based on the stored requirements snapshot
  * - Navigate to the recipe detail view for a selected recipe
+ * - Replace a single recipe with a freshly generated one ("try another")
  */
 export class RecipeResultsComponent {
+  /** Index of the recipe currently being regenerated, or `null` if none. */
+  regeneratingIndex: number | null = null;
+
   /**
    * Creates the recipe results component.
    *
    * @param state Central application state service (results + requirements snapshot).
    * @param router Angular router used for navigation.
+   * @param generateRecipeService Service used to regenerate single recipes.
+   * @param recipeCost Service estimating the cost of the missing ingredients.
    */
   constructor(
     private readonly state: StateService,
     private readonly router: Router,
+    private readonly generateRecipeService: GenerateRecipeService,
+    private readonly recipeCost: RecipeCostService,
   ) {}
 
   /**
@@ -67,24 +69,80 @@ export class RecipeResultsComponent {
     return (
       this.state.lastGeneratedRequirements ?? {
         cookingTime: '',
+        maxCookingMinutes: null,
         cuisine: '',
-        dietPreferences: '',
+        dietPreferences: [],
         portionsAmount: 0,
         cooksAmount: 0,
+        excludedIngredients: [],
+        recipeCount: 0,
+        language: 'en',
+        equipment: [],
+        budget: 'any',
       }
     );
   }
 
   /**
-   * Indicates whether a meaningful diet preference is selected.
+   * Returns the selected diet preferences (empty for "no preferences").
+   */
+  get dietPreferences(): DietPreference[] {
+    return this.requirements.dietPreferences ?? [];
+  }
+
+  /**
+   * Indicates whether a budget limit was requested.
+   */
+  get hasBudget(): boolean {
+    return !!this.requirements.budget && this.requirements.budget !== 'any';
+  }
+
+  /**
+   * Checks whether a recipe takes longer than the requested time budget.
    *
-   * `'no preferences'` is treated as "no diet preference".
+   * @param recipe Recipe shown on a card.
    */
-  get hasDietPreference(): boolean {
-    return (
-      !!this.requirements.dietPreferences &&
-      this.requirements.dietPreferences !== 'no preferences'
-    );
+  isOverTimeBudget(recipe: GeneratedRecipe): boolean {
+    return exceedsCookingTimeBudget(recipe, this.requirements.maxCookingMinutes);
+  }
+
+  /**
+   * Estimates the shopping cost of a recipe.
+   *
+   * @param recipe Recipe shown on a card.
+   */
+  costOf(recipe: GeneratedRecipe): RecipeCostEstimate {
+    return this.recipeCost.estimate(recipe);
+  }
+
+  /**
+   * Indicates whether single recipes can be regenerated.
+   *
+   * Requires the requirements and ingredients of the last run to still be available.
+   */
+  get canRegenerate(): boolean {
+    return !!this.state.lastGeneratedRequirements && this.state.lastGeneratedIngredients.length > 0;
+  }
+
+  /**
+   * Replaces the recipe at the given position with a newly generated one.
+   *
+   * Errors are reported by the generation service via toast; the card is left unchanged.
+   *
+   * @param index Position of the recipe card.
+   */
+  onTryAnother(index: number): void {
+    if (this.regeneratingIndex !== null) return;
+    this.regeneratingIndex = index;
+
+    this.generateRecipeService.regenerateRecipe(index).subscribe({
+      next: () => (this.regeneratingIndex = null),
+      error: (error) => {
+        console.error('Error regenerating recipe:', error);
+        this.regeneratingIndex = null;
+      },
+      complete: () => (this.regeneratingIndex = null),
+    });
   }
 
   /**
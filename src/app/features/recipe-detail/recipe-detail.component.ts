@@ -2,9 +2,14 @@ import { Component, OnInit } from '@angular/core';
 import { ActivatedRoute, RouterModule } from '@angular/router';
 import { CommonModule } from '@angular/common';
 
-import { GeneratedRecipe, RecipeIngredient } from './../../core/models/recipe.model';
+import { DietPreference, GeneratedRecipe, RecipeIngredient } from './../../core/models/recipe.model';
 import { StateService } from './../../core/services/state-service/state.service';
 import { FirestoreRecipeService } from './../../core/services/firebase-recipe-service/firebase-recipe.service';
+import { PantryService } from './../../core/services/pantry-service/pantry.service';
+import { RecipeCostService } from './../../core/services/recipe-cost-service/recipe-cost.service';
+import { RecipeCostEstimate } from './../../core/models/price.model';
+import { MeasurementSystem } from './../../core/models/unit.model';
+import { MeasurementSystemService } from './../../core/services/measurement-system-service/measurement-system.service';
 
 @Component({
   selector: 'app-recipe-detail',
@@ -28,6 +33,9 @@ import { FirestoreRecipeService } from './../../core/services/firebase-recipe-se
  * UI features:
  * - "Chef" badges (limited to a max number of icons)
  * - Collapsible sections for ingredients and directions
+ * - Extra ingredients covered by the pantry staples are listed separately from missing ones
+ * - Estimated cost of the missing ingredients (total and per portion)
+ * - Metric/US toggle for ingredient amounts (display only, the recipe is not changed)
  * - Hover state for favorite icon
  */
 export class RecipeDetailComponent implements OnInit {
@@ -58,17 +66,38 @@ export class RecipeDetailComponent implements OnInit {
   /** Whether the directions section is expanded. */
   isDirectionsOpen = true;
 
+  /** Extra ingredients the user does not have (not covered by a pantry staple). */
+  missingIngredients: RecipeIngredient[] = [];
+
+  /** Extra ingredients covered by the user's pantry staples. */
+  stapleIngredients: RecipeIngredient[] = [];
+
+  /** Estimated cost of the missing ingredients (or `null` while no recipe is resolved). */
+  costEstimate: RecipeCostEstimate | null = null;
+
+  /** Measurement systems offered by the unit toggle. */
+  readonly measurementSystems: { value: MeasurementSystem; label: string }[] = [
+    { value: 'metric', label: 'Metric' },
+    { value: 'us', label: 'US' },
+  ];
+
   /**
    * Creates the recipe detail component.
    *
    * @param activatedRoute Route service used to read the recipe id parameter.
    * @param state Central application state service used as a first-level cache.
    * @param firestoreRecipes Service used for Firestore reads/writes and signature handling.
+   * @param pantry Service providing the user's pantry staples.
+   * @param recipeCost Service estimating the cost of the missing ingredients.
+   * @param measurementSystem Service holding the measurement system amounts are displayed in.
    */
   constructor(
     private readonly activatedRoute: ActivatedRoute,
     private readonly state: StateService,
     private readonly firestoreRecipes: FirestoreRecipeService,
+    private readonly pantry: PantryService,
+    private readonly recipeCost: RecipeCostService,
+    private readonly measurementSystem: MeasurementSystemService,
   ) {}
 
   /**
@@ -119,12 +148,18 @@ export class RecipeDetailComponent implements OnInit {
    * Runs initialization logic that depends on `selectedRecipe` being present.
    *
    * - Builds chef indexes used for rendering icons
+   * - Splits extra ingredients into missing ingredients and pantry staples
+   * - Estimates the cost of the missing ingredients
    * - Initializes favorite state (localStorage + backend likes sync)
    */
   private afterRecipeLoaded(): void {
     if (!this.selectedRecipe) return;
 
     this.chefIndexes = this.buildChefIndexes(this.selectedRecipe.cooksAmount);
+    const { missing, staples } = this.pantry.splitExtras(this.selectedRecipe.ingredients.extraIngredients);
+    this.missingIngredients = missing;
+    this.stapleIngredients = staples;
+    this.costEstimate = this.recipeCost.estimate(this.selectedRecipe);
     this.initFavoriteState();
   }
 
@@ -162,13 +197,20 @@ export class RecipeDetailComponent implements OnInit {
   }
 
   /**
-   * Indicates whether the selected recipe has a meaningful diet preference.
-   *
-   * `'no preferences'` is treated as "no diet preference".
+   * Returns the diet preferences of the selected recipe (empty for "no preferences").
    */
-  get hasDietPreference(): boolean {
-    const pref = this.selectedRecipe?.preferences?.dietPreferences;
-    return !!pref && pref !== 'no preferences';
+  get dietPreferences(): DietPreference[] {
+    return this.selectedRecipe?.preferences?.dietPreferences ?? [];
+  }
+
+  /**
+   * Returns display labels for the kitchen equipment the selected recipe requires.
+   */
+  get equipmentTags(): string[] {
+    const options = this.state.preferencesOptions.equipment;
+    return (this.selectedRecipe?.equipment ?? []).map(
+      (item) => options.find((option) => option.value === item)?.label ?? item,
+    );
   }
 
   /**
@@ -179,23 +221,36 @@ export class RecipeDetailComponent implements OnInit {
   }
 
   /**
-   * Formats an ingredient amount with its unit for display.
+   * Returns the measurement system ingredient amounts are displayed in.
+   */
+  get selectedMeasurementSystem(): MeasurementSystem {
+    return this.measurementSystem.system;
+  }
+
+  /**
+   * Switches the measurement system of the ingredient amounts; the choice is persisted.
    *
-   * Formatting rules:
+   * @param system Measurement system to display amounts in.
+   */
+  selectMeasurementSystem(system: MeasurementSystem): void {
+    this.measurementSystem.setSystem(system);
+  }
+
+  /**
+   * Formats an ingredient amount with its unit for display in the selected measurement system.
+   *
+   * Formatting rules for amounts that are not converted:
    * - if unit is missing: `{amount}`
    * - if unit has abbreviation: `{amount}{abbr}` (no space)
    * - if unit has name: `{amount} {name}`
    *
+   * Converted amounts are rounded; US amounts use fractions (`'½ cup'`).
+   *
    * @param ingredient Ingredient to format.
    * @returns Formatted amount string.
    */
   formatIngredientAmount(ingredient: RecipeIngredient): string {
-    const amount = ingredient.servingSize;
-    const unit = ingredient.unit;
-    if (!unit) return `${amount}`;
-    if (unit.abbreviation) return `${amount}${unit.abbreviation}`;
-    if (unit.name) return `${amount} ${unit.name}`;
-    return `${amount}`;
+    return this.measurementSystem.formatAmount(ingredient);
   }
 
   /**
@@ -4,9 +4,10 @@ import { ActivatedRoute, Router, RouterModule } from '@angular/router';
 import { TitleCasePipe } from '@angular/common';
 import { take } from 'rxjs';
 
-import { GeneratedRecipe } from '../../core/models/recipe.model';
+import { DietPreference, GeneratedRecipe } from '../../core/models/recipe.model';
 import { StateService } from '../../core/services/state-service/state.service';
 import { FirestoreRecipeService } from '../../core/services/firebase-recipe-service/firebase-recipe.service';
+import { toCuisineLabel, toCuisineSlug } from '../../core/mappers/cuisine.mapper';
 
 /**
  * Union type used by the pagination control.
@@ -27,10 +28,11 @@ type PageItem = number | 'ellipsis';
  * Displays a paginated list of cookbook recipes for a specific cuisine.
  *
  * Responsibilities:
- * - Read `cuisineName` from the route
+ * - Read `cuisineName` from the route and redirect to its canonical slug
  * - Load and sort recipes for that cuisine from Firestore
  * - Provide pagination (page size, page navigation and page-item rendering)
- * - Provide cuisine meta (display name and header image) via `StateService` options
+ * - Provide cuisine meta (display name and header image) via `StateService` options;
+ *   free-text cuisines get the generic header image with their name on top
  * - Navigate to recipe detail when a recipe is selected
  */
 export class RecipesListComponent implements OnInit {
@@ -43,6 +45,9 @@ export class RecipesListComponent implements OnInit {
   /** Optional cuisine header image path derived from cuisine meta. */
   cuisineHeaderImg?: string;
 
+  /** Whether the cuisine is a free-text cuisine without its own header image. */
+  isCustomCuisine = false;
+
   /**
    * Internal full recipe list for the selected cuisine.
    * This is the source for pagination slicing.
@@ -87,11 +92,16 @@ export class RecipesListComponent implements OnInit {
    */
   ngOnInit(): void {
     this.route.paramMap.subscribe((params) => {
-      const name = params.get('cuisineName');
+      const param = params.get('cuisineName');
+      const name = toCuisineSlug(param);
       if (!name) {
         this.router.navigate(['/cookbook']);
         return;
       }
+      if (name !== param) {
+        this.router.navigate(['/cookbook/cuisine', name], { replaceUrl: true });
+        return;
+      }
 
       this.cuisineName = name;
       this.currentPage = 1;
@@ -103,13 +113,14 @@ export class RecipesListComponent implements OnInit {
   /**
    * Initializes display metadata for the selected cuisine.
    *
-   * @param name Cuisine name (route param).
+   * @param name Cuisine slug (route param).
    */
   private initCuisineMeta(name: string): void {
     const meta = this.state.preferencesOptions.cuisine.find((c) => c.name === name);
 
-    this.cuisineDisplayName = meta?.name ?? name;
-    this.cuisineHeaderImg = meta?.header_img;
+    this.isCustomCuisine = !meta;
+    this.cuisineDisplayName = meta?.name ?? toCuisineLabel(name);
+    this.cuisineHeaderImg = meta?.header_img ?? this.state.preferencesOptions.customCuisine.header_img;
   }
 
   /**
@@ -266,15 +277,12 @@ export class RecipesListComponent implements OnInit {
   }
 
   /**
-   * Indicates whether a recipe has a meaningful diet preference.
-   *
-   * `'no preferences'` is treated as "no diet preference".
+   * Returns the diet preferences of a recipe that should be displayed as tags.
    *
    * @param recipe Recipe to check.
-   * @returns True if the recipe has a diet preference that should be displayed.
+   * @returns Diet preferences in canonical order (empty for "no preferences").
    */
-  hasDietPreference(recipe: GeneratedRecipe): boolean {
-    const pref = recipe.preferences?.dietPreferences;
-    return !!pref && pref !== 'no preferences';
+  dietPreferencesOf(recipe: GeneratedRecipe): DietPreference[] {
+    return recipe.preferences?.dietPreferences ?? [];
   }
 }
\ No newline at end of file
@@ -8,7 +8,9 @@ import type { Environment } from './../app/core/models/environment.model';
  *
  * Responsibilities:
  * - Indicate whether the application is running in production mode
- * - Provide the backend webhook URL used for recipe generation
+ * - Provide the backend webhook URLs used for recipe generation and quota status
+ * - Toggle streamed generation responses
+ * - Configure the retry policy for transient generation failures
  *
  * Note:
  * - This configuration is intended for local development only.
@@ -24,4 +26,33 @@ export const environment: Environment = {
    * In development, this usually points to a local backend instance.
    */
   webhookUrl: 'https://n8n-recipe.onrender.com/webhook/generate-recipe',
+
+  /**
+   * Lightweight endpoint reporting the current quota without consuming it.
+   *
+   * Used for the quota widget and the pre-flight check before generation.
+   */
+  quotaStatusUrl: 'https://n8n-recipe.onrender.com/webhook/quota-status',
+
+  /**
+   * Whether generation requests ask the webhook for a streamed response (NDJSON / SSE).
+   *
+   * The n8n workflow streams one recipe per line as soon as it is generated. Turn this off
+   * for deployments that only reply with a single JSON body.
+   */
+  streamRecipes: true,
+
+  /**
+   * Retry policy for transient generation failures.
+   *
+   * Network errors and the listed HTTP statuses are retried with exponential backoff
+   * and jitter. Quota responses (HTTP 429) are never retried.
+   */
+  generationRetry: {
+    maxRetries: 2,
+    baseDelayMs: 1500,
+    maxDelayMs: 8000,
+    jitterRatio: 0.5,
+    retryableStatuses: [408, 500, 502, 503, 504],
+  },
 };
\ No newline at end of file